@@ -0,0 +1,6 @@
+import 'virtual:fuz.css';
+
+import {createApp} from 'vue';
+import App from './App.vue';
+
+createApp(App).mount('#root');
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+declare module 'virtual:fuz.css' {
+	const css: string;
+	export default css;
+}
+
+declare module '*.vue' {
+	import type {DefineComponent} from 'vue';
+	const component: DefineComponent;
+	export default component;
+}
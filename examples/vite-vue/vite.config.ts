@@ -0,0 +1,11 @@
+import {defineConfig} from 'vite';
+import vue from '@vitejs/plugin-vue';
+import {vite_plugin_fuz_css} from '@fuzdev/fuz_css/vite_plugin_fuz_css.ts';
+
+export default defineConfig({
+	plugins: [
+		// fuz_css reads the `.vue` source, so it's listed before vue like for svelte
+		vite_plugin_fuz_css(),
+		vue(),
+	],
+});
@@ -37,6 +37,8 @@ export interface CreateBundledResourcesOptions {
 	base_css: BaseCssOption;
 	/** Theme variables source. */
 	variables: VariablesOption;
+	/** Graph already built from `variables`, built here if omitted. */
+	variable_graph?: VariableDependencyGraph;
 	/** Merged class definitions, indexed to their referenced variables. */
 	class_definitions: Record<string, CssClassDefinition | undefined>;
 	/** Filesystem deps for loading the default `style.css`. */
@@ -51,7 +53,7 @@ export interface CreateBundledResourcesOptions {
 export const create_bundled_resources = async (
 	options: CreateBundledResourcesOptions,
 ): Promise<BundledCssResources> => {
-	const {base_css, variables, class_definitions, deps} = options;
+	const {base_css, variables, variable_graph, class_definitions, deps} = options;
 
 	let style_rule_index: StyleRuleIndex;
 	if (typeof base_css === 'string') {
@@ -68,7 +70,7 @@ export const create_bundled_resources = async (
 
 	return {
 		style_rule_index,
-		variable_graph: build_variable_graph_from_options(variables),
+		variable_graph: variable_graph ?? build_variable_graph_from_options(variables),
 		class_variable_index: build_class_variable_index(class_definitions),
 	};
 };
@@ -0,0 +1,130 @@
+/**
+ * Configuration for how scripts are recognized as containing classes:
+ * calls to class utility functions like `clsx()` and variables with class-like names.
+ *
+ * @module
+ */
+
+/**
+ * Functions whose arguments are extracted as classes.
+ */
+export const DEFAULT_CLASS_UTILITY_FUNCTIONS: ReadonlyArray<string> = [
+	'clsx', // clsx package
+	'cn', // common alias (shadcn/ui convention)
+	'classNames', // classnames package
+	'classnames', // lowercase variant
+	'cx', // emotion and other libs
+];
+
+/**
+ * Variables and object keys with names matching this pattern are extracted as classes,
+ * like `button_classes` and `{itemClass: 'box'}`.
+ */
+export const DEFAULT_CLASS_NAME_PATTERN = /(class|classes|class_?names?|class_?lists?)$/i;
+
+/**
+ * Type for the `class_utility_functions` option.
+ *
+ * Supports three forms:
+ * - `undefined` - Use `DEFAULT_CLASS_UTILITY_FUNCTIONS`
+ * - `Array<string>` - Custom function names (replaces defaults)
+ * - `(defaults) => Array<string>` - Callback to modify defaults
+ */
+export type ClassUtilityFunctionsOption =
+	Array<string> | ((defaults: Array<string>) => Array<string>) | undefined;
+
+/**
+ * Type for the `class_name_pattern` option.
+ *
+ * Supports three forms:
+ * - `undefined` - Use `DEFAULT_CLASS_NAME_PATTERN`
+ * - `RegExp` - Custom pattern (replaces the default)
+ * - `(default_pattern) => RegExp` - Callback to modify the default
+ */
+export type ClassNamePatternOption = RegExp | ((default_pattern: RegExp) => RegExp) | undefined;
+
+/**
+ * Options for recognizing classes in scripts.
+ */
+export interface ClassDetectionOptions {
+	/**
+	 * Functions whose arguments are extracted as classes, like wrappers of `clsx`.
+	 *
+	 * @example
+	 * ```ts
+	 * class_utility_functions: (defaults) => [...defaults, 'fz', 'merge_classes']
+	 * ```
+	 */
+	class_utility_functions?: ClassUtilityFunctionsOption;
+	/**
+	 * Pattern for variable names and object keys whose values are extracted as classes.
+	 *
+	 * @example
+	 * ```ts
+	 * class_name_pattern: (pattern) => new RegExp(`${pattern.source}|_(style|tw)$`, pattern.flags)
+	 * ```
+	 */
+	class_name_pattern?: ClassNamePatternOption;
+}
+
+/**
+ * Resolved `ClassDetectionOptions` used during extraction.
+ */
+export interface ClassDetection {
+	utility_functions: ReadonlySet<string>;
+	name_pattern: RegExp;
+}
+
+/**
+ * The default `ClassDetection`.
+ */
+export const default_class_detection: ClassDetection = {
+	utility_functions: new Set(DEFAULT_CLASS_UTILITY_FUNCTIONS),
+	name_pattern: DEFAULT_CLASS_NAME_PATTERN,
+};
+
+/**
+ * Resolves class detection options, applying callbacks to the defaults.
+ * Global and sticky flags are removed from the pattern so testing it is stateless.
+ *
+ * @returns `default_class_detection` if neither option is set
+ */
+export const resolve_class_detection = (options: ClassDetectionOptions): ClassDetection => {
+	const {class_utility_functions, class_name_pattern} = options;
+	if (!class_utility_functions && !class_name_pattern) return default_class_detection;
+
+	const utility_functions =
+		typeof class_utility_functions === 'function'
+			? class_utility_functions([...DEFAULT_CLASS_UTILITY_FUNCTIONS])
+			: (class_utility_functions ?? DEFAULT_CLASS_UTILITY_FUNCTIONS);
+	const pattern =
+		typeof class_name_pattern === 'function'
+			? class_name_pattern(DEFAULT_CLASS_NAME_PATTERN)
+			: (class_name_pattern ?? DEFAULT_CLASS_NAME_PATTERN);
+
+	return {
+		utility_functions: new Set(utility_functions),
+		name_pattern:
+			pattern.global || pattern.sticky
+				? new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''))
+				: pattern,
+	};
+};
+
+/**
+ * Creates a stable string for class detection options, for cache keys.
+ *
+ * @returns the fingerprint, or null if the options resolve to the defaults
+ */
+export const to_class_detection_fingerprint = (options: ClassDetectionOptions): string | null => {
+	const detection = resolve_class_detection(options);
+	const functions = [...detection.utility_functions].sort().join(',');
+	const pattern = detection.name_pattern.toString();
+	if (
+		functions === [...DEFAULT_CLASS_UTILITY_FUNCTIONS].sort().join(',') &&
+		pattern === DEFAULT_CLASS_NAME_PATTERN.toString()
+	) {
+		return null;
+	}
+	return `${functions}\n${pattern}`;
+};
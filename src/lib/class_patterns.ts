@@ -0,0 +1,201 @@
+/**
+ * Class name patterns for `additional_classes`, `exclude_classes`, and `@fuz-classes`.
+ *
+ * Patterns use glob wildcards (`*` for any characters, `?` for one character)
+ * and brace alternatives (`p{t,b}_{sm,md,lg}`).
+ * Included patterns expand against the static class definitions,
+ * matching the last segment so modifiers apply to every match, like `md:hover:bg_*`.
+ * Excluded patterns, including regexps, match detected class names directly.
+ *
+ * @module
+ */
+
+import type {CssClassDefinition} from './css_class_generation.ts';
+import {extract_segments} from './css_literal.ts';
+
+/**
+ * Tests if a class name should be excluded.
+ */
+export type ClassMatcher = (class_name: string) => boolean;
+
+const GLOB_PATTERN = /[*?]/;
+
+/**
+ * Checks if a class name is a glob or brace pattern rather than a literal class.
+ * Wildcards and braces in parentheses and quotes are part of CSS literals,
+ * like `width:calc(2*var(--space_md))` and `content:'?'`, so they're ignored.
+ *
+ * @example
+ * ```ts
+ * is_class_pattern('bg_*_50') // true
+ * is_class_pattern('p{t,b}_md') // true
+ * is_class_pattern('hover:bg_a_50') // false
+ * is_class_pattern('width:calc(2*var(--space_md))') // false
+ * ```
+ */
+export const is_class_pattern = (value: string): boolean => {
+	let depth = 0;
+	let quote: string | null = null;
+	for (let i = 0; i < value.length; i++) {
+		const char = value[i]!;
+		if (quote) {
+			if (char === quote) quote = null;
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === '(') {
+			depth++;
+		} else if (char === ')') {
+			depth = Math.max(0, depth - 1);
+		} else if (depth === 0) {
+			if (char === '*' || char === '?') return true;
+			if (char === '{' && find_brace_group(value.slice(i))?.start === 0) return true;
+		}
+	}
+	return false;
+};
+
+/**
+ * Expands brace alternatives, including nested ones.
+ * Braces without a comma are kept as-is.
+ *
+ * @example
+ * ```ts
+ * expand_braces('p{t,b}_{sm,md}') // ['pt_sm', 'pt_md', 'pb_sm', 'pb_md']
+ * ```
+ */
+export const expand_braces = (value: string): Array<string> => {
+	const group = find_brace_group(value);
+	if (!group) return [value];
+	const {start, end, alternatives} = group;
+	const prefix = value.slice(0, start);
+	const suffix = value.slice(end + 1);
+	const results: Array<string> = [];
+	for (const alternative of alternatives) {
+		results.push(...expand_braces(prefix + alternative + suffix));
+	}
+	return results;
+};
+
+/**
+ * Finds the first brace group with top-level commas.
+ */
+const find_brace_group = (
+	value: string,
+): {start: number; end: number; alternatives: Array<string>} | null => {
+	for (let start = value.indexOf('{'); start !== -1; start = value.indexOf('{', start + 1)) {
+		let depth = 0;
+		let alternative_start = start + 1;
+		const alternatives: Array<string> = [];
+		for (let i = start; i < value.length; i++) {
+			const char = value[i];
+			if (char === '{') {
+				depth++;
+			} else if (char === '}') {
+				depth--;
+				if (depth === 0) {
+					if (alternatives.length === 0) break; // no commas, not a group
+					alternatives.push(value.slice(alternative_start, i));
+					return {start, end: i, alternatives};
+				}
+			} else if (char === ',' && depth === 1) {
+				alternatives.push(value.slice(alternative_start, i));
+				alternative_start = i + 1;
+			}
+		}
+	}
+	return null;
+};
+
+/**
+ * Converts a glob without braces to an anchored regexp.
+ */
+const glob_to_regexp = (glob: string): RegExp => {
+	let source = '';
+	for (const char of glob) {
+		if (char === '*') source += '.*';
+		else if (char === '?') source += '.';
+		else source += char.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+	}
+	return new RegExp(`^${source}$`);
+};
+
+/**
+ * Expands a class pattern against the static class definitions.
+ * Only the last segment of a wildcard is matched, so modifiers before it apply to each match.
+ * Interpreter definitions can't be enumerated and are skipped.
+ * Brace alternatives without wildcards are kept as-is, so they work with literals
+ * like `opacity:{50%,80%}` and get the usual diagnostics if they don't resolve.
+ *
+ * @example
+ * ```ts
+ * expand_class_pattern('md:bg_{a,b}_5?', css_class_definitions)
+ * // ['md:bg_a_50', 'md:bg_b_50']
+ * ```
+ *
+ * @param pattern - the glob or brace pattern
+ * @param class_definitions - the class definitions to match against
+ * @returns the class names, empty if nothing matches
+ */
+export const expand_class_pattern = (
+	pattern: string,
+	class_definitions: Record<string, CssClassDefinition | undefined>,
+): Array<string> => {
+	const results: Set<string> = new Set();
+	for (const alternative of expand_braces(pattern)) {
+		if (!GLOB_PATTERN.test(alternative)) {
+			results.add(alternative);
+			continue;
+		}
+		const segments = extract_segments(alternative);
+		const base = segments.pop()!;
+		const prefix = segments.map((s) => s + ':').join('');
+		if (GLOB_PATTERN.test(prefix)) continue;
+		const regexp = glob_to_regexp(base);
+		for (const name in class_definitions) {
+			if (regexp.test(name) && is_static_definition(class_definitions[name])) {
+				results.add(prefix + name);
+			}
+		}
+	}
+	return Array.from(results);
+};
+
+const is_static_definition = (definition: CssClassDefinition | undefined): boolean =>
+	!!definition && !('interpret' in definition);
+
+/**
+ * Creates a matcher for `exclude_classes`, which can contain class names,
+ * glob and brace patterns, and regexps.
+ *
+ * @example
+ * ```ts
+ * const excluded = create_class_matcher(['box', 'md:*', /^shade_\d+$/]);
+ * excluded('md:p_lg') // true
+ * ```
+ *
+ * @param patterns - class names, patterns, and regexps
+ * @returns the matcher, or null if there are no patterns
+ */
+export const create_class_matcher = (patterns: Iterable<string | RegExp>): ClassMatcher | null => {
+	const names: Set<string> = new Set();
+	const regexps: Array<RegExp> = [];
+	for (const pattern of patterns) {
+		if (typeof pattern !== 'string') {
+			// Copy stateful regexps so `test` doesn't depend on `lastIndex`
+			regexps.push(
+				pattern.global || pattern.sticky
+					? new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''))
+					: pattern,
+			);
+		} else if (is_class_pattern(pattern)) {
+			for (const alternative of expand_braces(pattern)) {
+				if (GLOB_PATTERN.test(alternative)) regexps.push(glob_to_regexp(alternative));
+				else names.add(alternative);
+			}
+		} else {
+			names.add(pattern);
+		}
+	}
+	if (names.size === 0 && regexps.length === 0) return null;
+	return (class_name) => names.has(class_name) || regexps.some((r) => r.test(class_name));
+};
@@ -0,0 +1,144 @@
+/**
+ * Color scheme strategies for scoping dark and light styles.
+ *
+ * One `ColorSchemeStrategy` drives the `dark:`/`light:` ancestor modifiers
+ * (see `create_color_scheme_modifiers`), the dark theme variables
+ * (see `render_theme_style` and `generate_theme_css`),
+ * and the root marker for a `ColorScheme` selection (see `get_color_scheme_marker`),
+ * so they always agree on what "dark" means.
+ *
+ * @module
+ */
+
+import type {ColorScheme} from './theme.ts';
+import type {ColorSchemeVariant} from './variable_data.ts';
+
+/**
+ * How dark and light styles are scoped.
+ *
+ * - `'class'` - the `.dark`/`.light` class on the root element, set by JS (the default)
+ * - `'attribute'` - the `data-theme="dark"`/`data-theme="light"` attribute on the root element
+ * - `'media'` - the `prefers-color-scheme` media query, no JS needed but can't be overridden
+ * - `'hybrid'` - `prefers-color-scheme` by default, overridden by the `.dark`/`.light` class
+ */
+export type ColorSchemeStrategy = 'class' | 'attribute' | 'media' | 'hybrid';
+
+/**
+ * The root attribute used by the `'attribute'` color scheme strategy.
+ */
+export const COLOR_SCHEME_ATTRIBUTE = 'data-theme';
+
+/**
+ * Gets the wrapper chains (outermost first) that scope styles to a color scheme.
+ * Every strategy has one chain except `'hybrid'`, which adds the media default
+ * as a second chain. Chains ending in an at-rule apply to everything inside,
+ * so callers rendering declarations need to add their own selector.
+ *
+ * @param scheme - the color scheme to scope to
+ * @param strategy - the color scheme strategy
+ * @param scope - the root selector, like `:root` or `#theme`
+ * @returns alternative wrapper chains, styles apply when any chain matches
+ */
+export const get_color_scheme_wrappers = (
+	scheme: ColorSchemeVariant,
+	strategy: ColorSchemeStrategy = 'class',
+	scope = ':root',
+): Array<Array<string>> => {
+	const media = `@media (prefers-color-scheme: ${scheme})`;
+	switch (strategy) {
+		case 'class':
+			return [[`${scope}.${scheme}`]];
+		case 'attribute':
+			return [[`${scope}[${COLOR_SCHEME_ATTRIBUTE}="${scheme}"]`]];
+		case 'media':
+			return [[media]];
+		case 'hybrid': {
+			const other = scheme === 'dark' ? 'light' : 'dark';
+			return [[`${scope}.${scheme}`], [media, `${scope}:not(.${other})`]];
+		}
+	}
+};
+
+/**
+ * Renders declarations scoped to a color scheme, nesting each wrapper chain with tabs.
+ *
+ * @param scheme - the color scheme to scope to
+ * @param declarations - the declarations without indentation, like `--text_color: #fff;`
+ * @param strategy - the color scheme strategy
+ * @param scope - the root selector, added inside chains that end in an at-rule
+ * @returns the CSS rules, or an empty string if there are no declarations
+ */
+export const render_color_scheme_css = (
+	scheme: ColorSchemeVariant,
+	declarations: Array<string>,
+	strategy: ColorSchemeStrategy = 'class',
+	scope = ':root',
+): string => {
+	if (!declarations.length) return '';
+	return get_color_scheme_wrappers(scheme, strategy, scope)
+		.map((chain) => {
+			const wrappers = chain.at(-1)!.startsWith('@') ? [...chain, scope] : chain;
+			let css = '';
+			let indent = '';
+			for (const wrapper of wrappers) {
+				css += `${indent}${wrapper} {\n`;
+				indent += '\t';
+			}
+			css += declarations.map((d) => indent + d).join('\n') + '\n';
+			while (indent) {
+				indent = indent.slice(0, -1);
+				css += `${indent}}\n`;
+			}
+			return css.trimEnd();
+		})
+		.join('\n');
+};
+
+const COLOR_SCHEME_RULE_PATTERN = /^:root\.(dark|light)\s*\{([^{}]*)\}$/;
+
+/**
+ * Rescopes a base style rule for the `.dark`/`.light` class on `:root`,
+ * like `:root.dark {color-scheme: dark;}` in `style.css`, to a color scheme strategy.
+ *
+ * @param css - the rule's CSS text
+ * @param strategy - the color scheme strategy
+ * @returns the rescoped CSS, or the rule unchanged if it isn't a color scheme rule
+ */
+export const scope_color_scheme_rule = (
+	css: string,
+	strategy: ColorSchemeStrategy = 'class',
+): string => {
+	if (strategy === 'class') return css;
+	const match = COLOR_SCHEME_RULE_PATTERN.exec(css.trim());
+	if (!match) return css;
+	const declarations = (match[2] ?? '')
+		.split('\n')
+		.map((d) => d.trim())
+		.filter(Boolean);
+	return render_color_scheme_css(match[1] as ColorSchemeVariant, declarations, strategy) || css;
+};
+
+/**
+ * Gets the marker to set on the root element for a `ColorScheme` selection,
+ * used as the class name for the `'class'` and `'hybrid'` strategies
+ * and as the `data-theme` attribute value for `'attribute'`.
+ *
+ * `'auto'` resolves with `prefers_dark`, typically from
+ * `matchMedia('(prefers-color-scheme: dark)').matches`,
+ * except with `'hybrid'` where it clears the marker so the media query decides.
+ *
+ * @param scheme - the selected color scheme
+ * @param strategy - the color scheme strategy
+ * @param prefers_dark - whether the user agent prefers a dark color scheme
+ * @returns the marker, or `null` to set none (always for `'media'`, which has no markers)
+ */
+export const get_color_scheme_marker = (
+	scheme: ColorScheme,
+	strategy: ColorSchemeStrategy = 'class',
+	prefers_dark = false,
+): ColorSchemeVariant | null => {
+	if (strategy === 'media') return null;
+	if (scheme !== 'auto') return scheme;
+	if (strategy === 'hybrid') return null;
+	return prefers_dark ? 'dark' : 'light';
+};
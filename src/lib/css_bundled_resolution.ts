@@ -28,6 +28,7 @@ import {
 	find_similar_variable,
 } from './variable_graph.ts';
 import {type CssClassVariableIndex, collect_class_variables} from './class_variable_index.ts';
+import type {ColorSchemeStrategy} from './color_scheme.ts';
 
 /**
  * Threshold for string similarity to suggest typo corrections.
@@ -152,6 +153,8 @@ export interface CssResolutionOptions {
 	additional_variables?: Iterable<string> | 'all';
 	/** Specificity multiplier for theme selector (default 1) */
 	theme_specificity?: number;
+	/** How dark theme variables and color scheme base rules are scoped (default `'class'`) */
+	color_scheme_strategy?: ColorSchemeStrategy;
 	/** Whether to include resolution statistics in result */
 	include_stats?: boolean;
 	/** Warn when detected elements have no matching style rules (default false) */
@@ -200,6 +203,7 @@ export const resolve_css = (options: CssResolutionOptions): CssResolutionResult
 		additional_elements,
 		additional_variables,
 		theme_specificity = 1,
+		color_scheme_strategy = 'class',
 		include_stats = false,
 		warn_unmatched_elements = false,
 		exclude_elements: raw_exclude_elements,
@@ -418,11 +422,16 @@ export const resolve_css = (options: CssResolutionOptions): CssResolutionResult
 		variable_graph,
 		resolved_variables,
 		theme_specificity,
+		color_scheme_strategy,
 	);
 	const theme_css = [light_css, dark_css].filter(Boolean).join('\n\n');
 
 	// Step 6: Generate base CSS from matched rules
-	const base_css = generate_base_css(style_rule_index, included_rule_indices);
+	const base_css = generate_base_css(
+		style_rule_index,
+		included_rule_indices,
+		color_scheme_strategy,
+	);
 
 	// Build stats if requested
 	const stats = include_stats
@@ -12,6 +12,8 @@ import {hash_insecure} from '@fuzdev/fuz_util/hash.ts';
 
 import type {SourceLocation, ExtractionDiagnostic} from './diagnostics.ts';
 import type {ExtractionData} from './css_class_extractor.ts';
+import {to_extractors_fingerprint, type CssExtractors} from './css_extractors.ts';
+import {to_class_detection_fingerprint, type ClassDetectionOptions} from './class_detection.ts';
 import type {CacheDeps} from './deps.ts';
 
 /**
@@ -31,13 +33,15 @@ export const DEFAULT_CACHE_DIR = '.fuz/cache/css';
  * v4: Filter incomplete CSS variables in dynamic templates (e.g., `var(--prefix_{expr})`).
  * v5: Remove `css_variables` and `explicit_variables` (now detected via simple regex scan).
  * v6: Re-add `explicit_variables` for `@fuz-variables` comments (regex scan misses dynamic templates).
+ * v7: Add `class_patterns` for dynamic template classes like `p_${size}`.
+ * v8: Add `fingerprint` for extraction options like custom `extractors` and class detection.
  */
-// TODO: the cache key is `content_hash` + `CSS_CACHE_VERSION`, but extraction output
-// also depends on `acorn_plugins` (e.g. acorn-jsx), which isn't part of the key.
+// TODO: the cache key is `content_hash` + `fingerprint` + `CSS_CACHE_VERSION`, but extraction
+// output also depends on `acorn_plugins` (e.g. acorn-jsx), which isn't part of the key.
 // Changing that config without editing a file yields a stale cache hit. Acorn plugin
 // instances aren't stably serializable across processes, so a clean fingerprint isn't
 // cheap; revisit if config-change staleness bites (workaround: clear `.fuz/cache/css`).
-export const CSS_CACHE_VERSION = 6;
+export const CSS_CACHE_VERSION = 8;
 
 /**
  * Cached extraction result for a single file.
@@ -48,6 +52,8 @@ export interface CachedExtraction {
 	v: number;
 	/** SHA-256 hash of the source file contents */
 	content_hash: string;
+	/** Fingerprint of the extraction options, or null for the defaults */
+	fingerprint: string | null;
 	/** Classes as [name, locations] tuples, or null if none */
 	classes: Array<[string, Array<SourceLocation>]> | null;
 	/** Classes from `@fuz-classes` comments, or null if none */
@@ -60,8 +66,32 @@ export interface CachedExtraction {
 	explicit_elements: Array<string> | null;
 	/** Variables from `@fuz-variables` comments, or null if none */
 	explicit_variables: Array<string> | null;
+	/** Class patterns from dynamic templates as [pattern, locations] tuples, or null if none */
+	class_patterns: Array<[string, Array<SourceLocation>]> | null;
 }
 
+/**
+ * Extraction options that change extraction output, fingerprinted for the cache.
+ */
+export interface ExtractionFingerprintOptions extends ClassDetectionOptions {
+	extractors?: CssExtractors | null;
+}
+
+/**
+ * Creates a fingerprint of the extraction options, stored with each cached extraction
+ * so changing the options invalidates the cache.
+ *
+ * @returns a hash of the options, or null for the defaults
+ */
+export const create_extraction_fingerprint = (
+	options: ExtractionFingerprintOptions,
+): string | null => {
+	const extractors = to_extractors_fingerprint(options.extractors);
+	const detection = to_class_detection_fingerprint(options);
+	if (extractors === null && detection === null) return null;
+	return hash_insecure(`${extractors}\n${detection}`);
+};
+
 /**
  * Computes the cache file path for a source file.
  * Cache structure mirrors source tree: `src/lib/Foo.svelte` → `.fuz/cache/css/src/lib/Foo.svelte.json`
@@ -142,12 +172,14 @@ export const load_cached_extraction = async (
  * @param cache_path - absolute path to the cache file
  * @param content_hash - SHA-256 hash of the source file contents
  * @param extraction - extraction data to cache
+ * @param fingerprint - fingerprint of the extraction options from `create_extraction_fingerprint`
  */
 export const save_cached_extraction = async (
 	deps: CacheDeps,
 	cache_path: string,
 	content_hash: string,
 	extraction: ExtractionData,
+	fingerprint: string | null = null,
 ): Promise<void> => {
 	// Convert to null if empty to save allocation on load
 	const classes_array =
@@ -170,16 +202,22 @@ export const save_cached_extraction = async (
 		extraction.explicit_variables && extraction.explicit_variables.size > 0
 			? Array.from(extraction.explicit_variables)
 			: null;
+	const class_patterns_array =
+		extraction.class_patterns && extraction.class_patterns.size > 0
+			? Array.from(extraction.class_patterns.entries())
+			: null;
 
 	const data: CachedExtraction = {
 		v: CSS_CACHE_VERSION,
 		content_hash,
+		fingerprint,
 		classes: classes_array,
 		explicit_classes: explicit_array,
 		diagnostics: diagnostics_array,
 		elements: elements_array,
 		explicit_elements: explicit_elements_array,
 		explicit_variables: explicit_variables_array,
+		class_patterns: class_patterns_array,
 	};
 
 	await deps.write_text_atomic({path: cache_path, content: JSON.stringify(data)});
@@ -212,4 +250,5 @@ export const from_cached_extraction = (cached: CachedExtraction): ExtractionData
 	elements: cached.elements ? new Set(cached.elements) : null,
 	explicit_elements: cached.explicit_elements ? new Set(cached.explicit_elements) : null,
 	explicit_variables: cached.explicit_variables ? new Set(cached.explicit_variables) : null,
+	class_patterns: cached.class_patterns ? new Map(cached.class_patterns) : null,
 });
@@ -43,6 +43,14 @@ export const css_class_composites: Record<string, CssClassDefinition | undefined
 			text-overflow: ellipsis;
 		`,
 	},
+	container: {
+		comment: 'inline-size query container for `cq-*:` modifiers',
+		declaration: 'container-type: inline-size;',
+	},
+	container_size: {
+		comment: 'size query container (both axes) for `cq-*:` modifiers',
+		declaration: 'container-type: size;',
+	},
 	selectable: {
 		ruleset: `
 			.selectable {
@@ -13,6 +13,7 @@ import {
 	generate_property_classes,
 	generate_directional_classes,
 	generate_border_radius_corners,
+	generate_inset_classes,
 	generate_shadow_classes,
 	format_spacing_value,
 } from './css_class_generators.ts';
@@ -237,7 +238,9 @@ export const css_class_definitions: Record<string, CssClassDefinition | undefine
 		border_radius_variants,
 		(v) => `var(--border_radius_${v})`,
 	),
-	...generate_border_radius_corners(border_radius_variants, (v) => `var(--border_radius_${v})`),
+	...generate_border_radius_corners(border_radius_variants, (v) => `var(--border_radius_${v})`, {
+		logical: true,
+	}),
 
 	/*
 
@@ -312,14 +315,17 @@ export const css_class_definitions: Record<string, CssClassDefinition | undefine
 		distance_variants,
 	),
 
-	...generate_property_classes('top', space_variants, format_spacing_value),
-	...generate_property_classes('right', space_variants, format_spacing_value),
-	...generate_property_classes('bottom', space_variants, format_spacing_value),
-	...generate_property_classes('left', space_variants, format_spacing_value),
-	...generate_property_classes('inset', space_variants, format_spacing_value),
+	...generate_inset_classes(space_variants, format_spacing_value, {logical: true}),
 
-	...generate_directional_classes('padding', ['0', ...space_variants], format_spacing_value),
-	...generate_directional_classes('margin', ['0', 'auto', ...space_variants], format_spacing_value),
+	...generate_directional_classes('padding', ['0', ...space_variants], format_spacing_value, {
+		logical: true,
+	}),
+	...generate_directional_classes(
+		'margin',
+		['0', 'auto', ...space_variants],
+		format_spacing_value,
+		{logical: true},
+	),
 	...generate_property_classes('gap', space_variants, format_spacing_value),
 	...generate_property_classes('column-gap', space_variants, format_spacing_value),
 	...generate_property_classes('row-gap', space_variants, format_spacing_value),
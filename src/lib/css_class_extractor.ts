@@ -1,16 +1,21 @@
 /**
- * AST-based CSS class extraction for Svelte and TypeScript files.
+ * AST-based CSS class extraction for Svelte, Vue, Astro, markdown, and TypeScript files.
  *
  * Replaces regex-based extraction with proper parsing to handle:
  * - `class="display:flex"` - string attributes
  * - `class={{ active, disabled: !enabled }}` - object attributes (Svelte 5.16+)
  * - `class={[cond && 'box', 'display:flex']}` - array attributes (Svelte 5.16+)
  * - `class:active={cond}` - class directives
+ * - `:class="{active: cond}"` - Vue class bindings
+ * - `class:list={['box', {active}]}` - Astro class lists
+ * - `className="box"` - JSX in MDX, and elements rendered by markdown syntax like `> quote`
  * - `clsx('foo', { bar: true })` - class utility function calls
  * - Variables with class-related names
  * - `// @fuz-classes class1 class2` - comment hints for dynamic classes
  * - `// @fuz-elements element1 element2` - comment hints for dynamic elements
  * - `// @fuz-variables var1 var2` - comment hints for dynamic CSS variables
+ * - `md:(p_lg gap_md)` - variant groups, expanded to `md:p_lg md:gap_md`
+ * - `p_${size}` - dynamic classes, narrowed by literal-union types and const arrays in the file
  *
  * @module
  */
@@ -22,6 +27,17 @@ import {tsPlugin} from '@sveltejs/acorn-typescript';
 import {to_error_message} from '@fuzdev/fuz_util/error.ts';
 
 import {type SourceLocation, type ExtractionDiagnostic} from './diagnostics.ts';
+import {has_variant_group, parse_class_list} from './variant_groups.ts';
+import {expand_braces} from './class_patterns.ts';
+import {scan_html} from './html_scanner.ts';
+import {scan_markdown} from './markdown_scanner.ts';
+import {find_extractor, type CssExtractors} from './css_extractors.ts';
+import {
+	default_class_detection,
+	resolve_class_detection,
+	type ClassDetection,
+	type ClassDetectionOptions,
+} from './class_detection.ts';
 
 //
 // Types
@@ -59,6 +75,11 @@ export interface ExtractionData {
 	 * These produce errors if they can't be resolved to theme variables.
 	 */
 	explicit_variables: Set<string> | null;
+	/**
+	 * Glob patterns for dynamic classes like `p_${size}` (recorded as `p_*`), or null if none.
+	 * Expanded against the class definitions during generation.
+	 */
+	class_patterns: Map<string, Array<SourceLocation>> | null;
 }
 
 /**
@@ -71,7 +92,8 @@ export const has_extraction_data = (data: ExtractionData): boolean =>
 		data.diagnostics ||
 		data.elements ||
 		data.explicit_elements ||
-		data.explicit_variables
+		data.explicit_variables ||
+		data.class_patterns
 	);
 
 /**
@@ -96,9 +118,9 @@ export type AcornPlugin = (BaseParser: typeof Parser) => typeof Parser;
 /**
  * Options for CSS class extraction.
  */
-export interface ExtractCssClassesOptions {
+export interface ExtractCssClassesOptions extends ClassDetectionOptions {
 	/**
-	 * File path used to determine extraction method (Svelte vs TS)
+	 * File path used to determine extraction method (Svelte, Vue, Astro, markdown, or TS)
 	 * and for location tracking in diagnostics.
 	 */
 	filename?: string;
@@ -113,6 +135,15 @@ export interface ExtractCssClassesOptions {
 	 * ```
 	 */
 	acorn_plugins?: Array<AcornPlugin>;
+	/**
+	 * Custom extractors by extension or matcher, taking precedence over the built-in extractors.
+	 *
+	 * @example
+	 * ```ts
+	 * extract_css_classes(source, {filename, extractors: {'.hbs': extract_handlebars}});
+	 * ```
+	 */
+	extractors?: CssExtractors | null;
 }
 
 //
@@ -155,6 +186,17 @@ export class SourceIndex {
 		}
 		return {file, line: low + 1, column: offset - this.line_starts[low]! + 1};
 	}
+
+	/**
+	 * Converts a source location back to a character offset.
+	 *
+	 * @param location - `SourceLocation` with 1-based line and column
+	 * @returns 0-based character offset in the source, or null if the line is out of range
+	 */
+	get_offset(location: SourceLocation): number | null {
+		const line_start = this.line_starts[location.line - 1];
+		return line_start === undefined ? null : line_start + location.column - 1;
+	}
 }
 
 /**
@@ -178,21 +220,9 @@ const add_class_with_location = (
 	}
 };
 
-// Known class utility function names
-const CLASS_UTILITY_FUNCTIONS = new Set([
-	'clsx', // clsx package
-	'cn', // common alias (shadcn/ui convention)
-	'classNames', // classnames package
-	'classnames', // lowercase variant
-	'cx', // emotion and other libs
-]);
-
 // Svelte 5 runes that wrap expressions we should extract from
 const SVELTE_RUNES = new Set(['$derived', '$state']);
 
-// Pattern for variables with class-related names
-const CLASS_NAME_PATTERN = /(class|classes|class_?names?|class_?lists?)$/i;
-
 /**
  * State maintained during AST walking.
  */
@@ -219,12 +249,55 @@ interface WalkState {
 	explicit_elements: Set<string>;
 	/** Variables explicitly annotated via `@fuz-variables` comments */
 	explicit_variables: Set<string>;
+	/** Class names with expressions like `p_${size}`, resolved after walking */
+	class_templates: Array<ClassTemplate>;
+	/** Types, arrays, and variables for narrowing class template expressions */
+	narrowing: TemplateNarrowing;
+	/** Class utility functions and the class-like variable name pattern */
+	detection: ClassDetection;
+}
+
+/**
+ * A class name with expressions, like `p_${size}` or `class="p_{size}"`.
+ */
+interface ClassTemplate {
+	/** Static text around the expressions, one more than `expressions` */
+	statics: Array<string>;
+	expressions: Array<unknown>;
+	location: SourceLocation;
+}
+
+/**
+ * Where a variable's possible values come from.
+ */
+type NarrowingSource =
+	| {type: unknown; key: string | null} // a type annotation, or the type of a destructured key
+	| {array: string} // iteration over an array like `for (const x of ARRAY)`
+	| null; // a binding that could be anything, like an untyped parameter
+
+/**
+ * String values from the file, for narrowing class template expressions.
+ * Resolved after walking, so declaration order doesn't matter.
+ * Names are file-wide, so a variable narrows only if every binding of its name does,
+ * including bindings that shadow it.
+ */
+interface TemplateNarrowing {
+	/** Type alias annotations and interface bodies by name */
+	types: Map<string, unknown>;
+	/** Const arrays of string literals by name */
+	arrays: Map<string, Array<string>>;
+	/** Value sources by variable name */
+	variables: Map<string, Array<NarrowingSource>>;
 }
 
 /**
  * Creates a fresh `WalkState` for extraction.
  */
-const create_walk_state = (file: string, source_index: SourceIndex | null): WalkState => ({
+const create_walk_state = (
+	file: string,
+	source_index: SourceIndex | null,
+	detection: ClassDetection = default_class_detection,
+): WalkState => ({
 	classes: new Map(),
 	explicit_classes: new Set(),
 	tracked_vars: new Set(),
@@ -236,20 +309,27 @@ const create_walk_state = (file: string, source_index: SourceIndex | null): Walk
 	elements: new Set(),
 	explicit_elements: new Set(),
 	explicit_variables: new Set(),
+	class_templates: [],
+	narrowing: {types: new Map(), arrays: new Map(), variables: new Map()},
+	detection,
 });
 
 /**
  * Converts `WalkState` to `ExtractionResult`, converting empty collections to null.
  */
-const finalize_extraction_result = (state: WalkState): ExtractionResult => ({
-	classes: state.classes.size > 0 ? state.classes : null,
-	explicit_classes: state.explicit_classes.size > 0 ? state.explicit_classes : null,
-	tracked_vars: state.tracked_vars.size > 0 ? state.tracked_vars : null,
-	diagnostics: state.diagnostics.length > 0 ? state.diagnostics : null,
-	elements: state.elements.size > 0 ? state.elements : null,
-	explicit_elements: state.explicit_elements.size > 0 ? state.explicit_elements : null,
-	explicit_variables: state.explicit_variables.size > 0 ? state.explicit_variables : null,
-});
+const finalize_extraction_result = (state: WalkState): ExtractionResult => {
+	const class_patterns = resolve_class_templates(state);
+	return {
+		classes: state.classes.size > 0 ? state.classes : null,
+		explicit_classes: state.explicit_classes.size > 0 ? state.explicit_classes : null,
+		tracked_vars: state.tracked_vars.size > 0 ? state.tracked_vars : null,
+		diagnostics: state.diagnostics.length > 0 ? state.diagnostics : null,
+		elements: state.elements.size > 0 ? state.elements : null,
+		explicit_elements: state.explicit_elements.size > 0 ? state.explicit_elements : null,
+		explicit_variables: state.explicit_variables.size > 0 ? state.explicit_variables : null,
+		class_patterns: class_patterns.size > 0 ? class_patterns : null,
+	};
+};
 
 /**
  * Creates an empty `ExtractionResult` with only diagnostics.
@@ -263,6 +343,7 @@ const empty_extraction_result = (diagnostics: Array<ExtractionDiagnostic>): Extr
 	elements: null,
 	explicit_elements: null,
 	explicit_variables: null,
+	class_patterns: null,
 });
 
 /**
@@ -272,6 +353,484 @@ const add_class = (state: WalkState, class_name: string, location: SourceLocatio
 	add_class_with_location(state.classes, class_name, location);
 };
 
+/**
+ * Gets the location of an offset within a string that starts at `location`.
+ */
+const offset_location = (
+	location: SourceLocation,
+	text: string,
+	offset: number,
+): SourceLocation => {
+	const newline = text.lastIndexOf('\n', offset - 1);
+	if (newline === -1) return {...location, column: location.column + offset};
+	let lines = 0;
+	for (let i = 0; i <= newline; i++) {
+		if (text[i] === '\n') lines++;
+	}
+	return {file: location.file, line: location.line + lines, column: offset - newline};
+};
+
+/**
+ * Adds the classes in a whitespace-separated class list, expanding variant groups
+ * like `md:(p_lg gap_md)`. Plain lists locate every class at `location`,
+ * but lists with groups locate each class where it's written so diagnostics
+ * for grouped classes point inside the group.
+ *
+ * @param value - the class list
+ * @param location - location of the string
+ * @param quote_width - characters between `location` and the start of `value`, like 1 for quotes
+ */
+const add_class_list = (
+	state: WalkState,
+	value: string,
+	location: SourceLocation,
+	quote_width = 0,
+): void => {
+	if (!has_variant_group(value)) {
+		for (const cls of value.split(/\s+/).filter(Boolean)) {
+			add_class(state, cls, location);
+		}
+		return;
+	}
+	const start = quote_width ? {...location, column: location.column + quote_width} : location;
+	for (const token of parse_class_list(value)) {
+		add_class(state, token.name, offset_location(start, value, token.offset));
+	}
+};
+
+/**
+ * Records the class names in a template that contain expressions, like `p_${size}`,
+ * as class templates. Tokens without expressions are handled by the caller.
+ *
+ * @param statics - static text around the expressions, one more than `expressions`
+ * @param expressions - the expression nodes
+ * @param locations - location of each static text
+ */
+const add_class_templates = (
+	state: WalkState,
+	statics: Array<string>,
+	expressions: Array<unknown>,
+	locations: Array<SourceLocation>,
+): void => {
+	let current: ClassTemplate | null = null;
+	for (let i = 0; i < statics.length; i++) {
+		const text = statics[i]!;
+		if (current) {
+			// Text up to the first whitespace continues the class name
+			const lead = /^\S*/.exec(text)![0];
+			current.statics.push(lead);
+			if (lead.length < text.length) {
+				finish_class_template(state, current);
+				current = null;
+			}
+		}
+		if (i < expressions.length) {
+			if (!current) {
+				const head = /\S*$/.exec(text)![0];
+				current = {
+					statics: [head],
+					expressions: [],
+					location: offset_location(locations[i]!, text, text.length - head.length),
+				};
+			}
+			current.expressions.push(expressions[i]);
+		}
+	}
+	if (current) finish_class_template(state, current);
+};
+
+const finish_class_template = (state: WalkState, template: ClassTemplate): void => {
+	// Expressions alone like `${a}${b}` have nothing to match against
+	if (template.statics.some(Boolean)) {
+		state.class_templates.push(template);
+	}
+};
+
+/**
+ * Characters with meaning in class patterns, which can't appear in template text or values.
+ */
+const CLASS_PATTERN_CHARS = /[*?{},\s]/;
+
+/**
+ * Resolves class templates to classes and patterns after walking, when all narrowing is known.
+ * Templates whose expressions all narrow to known values become classes,
+ * like `p_${size}` with `size: 'sm' | 'md'` becoming `p_sm` and `p_md`,
+ * and the rest become glob patterns like `p_*`.
+ *
+ * @returns the glob patterns with their locations
+ */
+const resolve_class_templates = (state: WalkState): Map<string, Array<SourceLocation>> => {
+	const patterns: Map<string, Array<SourceLocation>> = new Map();
+	for (const {statics, expressions, location} of state.class_templates) {
+		if (statics.some((s) => CLASS_PATTERN_CHARS.test(s))) continue;
+		let pattern = statics[0]!;
+		let has_wildcard = false;
+		for (let i = 0; i < expressions.length; i++) {
+			const values = resolve_expression_values(expressions[i], state.narrowing);
+			if (values) {
+				pattern += values.length === 1 ? values[0] : `{${values.join(',')}}`;
+			} else {
+				pattern += '*';
+				has_wildcard = true;
+			}
+			pattern += statics[i + 1];
+		}
+		if (has_wildcard) {
+			add_class_with_location(patterns, pattern, location);
+		} else {
+			for (const class_name of expand_braces(pattern)) {
+				add_class(state, class_name, location);
+			}
+		}
+	}
+	return patterns;
+};
+
+/**
+ * Resolves the possible string values of a template expression,
+ * or null if they can't be determined.
+ */
+const resolve_expression_values = (
+	expression: unknown,
+	narrowing: TemplateNarrowing,
+): Array<string> | null => {
+	const node = expression as {
+		type: string;
+		name?: string;
+		value?: unknown;
+		consequent?: unknown;
+		alternate?: unknown;
+		object?: {type: string; name?: string};
+		property?: {type: string; name?: string};
+		computed?: boolean;
+	};
+	let values: Array<string> | null = null;
+	switch (node.type) {
+		case 'Literal':
+			values = typeof node.value === 'string' ? [node.value] : null;
+			break;
+		case 'Identifier':
+			values = resolve_variable_values(node.name!, narrowing);
+			break;
+		case 'MemberExpression':
+			// Properties of typed objects like `props.size`
+			if (!node.computed && node.object!.type === 'Identifier') {
+				values = resolve_variable_values(node.object!.name!, narrowing, node.property!.name);
+			}
+			break;
+		case 'ConditionalExpression': {
+			const consequent = resolve_expression_values(node.consequent, narrowing);
+			const alternate = consequent && resolve_expression_values(node.alternate, narrowing);
+			values = alternate && [...new Set([...consequent, ...alternate])];
+			break;
+		}
+	}
+	return values && values.length > 0 && !values.some((v) => CLASS_PATTERN_CHARS.test(v))
+		? values
+		: null;
+};
+
+const resolve_variable_values = (
+	name: string,
+	narrowing: TemplateNarrowing,
+	member: string | null = null,
+): Array<string> | null => {
+	const sources = narrowing.variables.get(name);
+	if (!sources) return null;
+	const values: Set<string> = new Set();
+	for (const source of sources) {
+		let source_values: Array<string> | null = null;
+		if (source === null) {
+			return null;
+		} else if ('array' in source) {
+			if (member === null) source_values = narrowing.arrays.get(source.array) ?? null;
+		} else {
+			let type =
+				source.key === null ? source.type : resolve_member_type(source.type, source.key, narrowing);
+			if (type && member !== null) type = resolve_member_type(type, member, narrowing);
+			source_values = type ? resolve_type_values(type, narrowing) : null;
+		}
+		// Every declaration must narrow, otherwise the variable could be anything
+		if (!source_values) return null;
+		for (const v of source_values) values.add(v);
+	}
+	return Array.from(values);
+};
+
+/**
+ * Limits type reference depth, guarding against cycles like `type A = B; type B = A;`.
+ */
+const MAX_TYPE_DEPTH = 10;
+
+/**
+ * Resolves a type to its string literal values, like `'sm' | 'md'`,
+ * references to such types, and `(typeof ARRAY)[number]` for const arrays.
+ */
+const resolve_type_values = (
+	type: unknown,
+	narrowing: TemplateNarrowing,
+	depth = 0,
+): Array<string> | null => {
+	if (depth > MAX_TYPE_DEPTH) return null;
+	const node = type as {
+		type: string;
+		typeAnnotation?: unknown;
+		types?: Array<unknown>;
+		literal?: {value?: unknown};
+		typeName?: {type: string; name?: string};
+		objectType?: unknown;
+		indexType?: {type: string};
+	};
+	switch (node.type) {
+		case 'TSTypeAnnotation':
+		case 'TSParenthesizedType':
+			return resolve_type_values(node.typeAnnotation, narrowing, depth + 1);
+		case 'TSUnionType': {
+			const values: Array<string> = [];
+			for (const t of node.types!) {
+				const member_values = resolve_type_values(t, narrowing, depth + 1);
+				if (!member_values) return null;
+				values.push(...member_values);
+			}
+			return values;
+		}
+		case 'TSLiteralType':
+			return typeof node.literal?.value === 'string' ? [node.literal.value] : null;
+		case 'TSTypeReference': {
+			const referenced = node.typeName?.name && narrowing.types.get(node.typeName.name);
+			return referenced ? resolve_type_values(referenced, narrowing, depth + 1) : null;
+		}
+		case 'TSIndexedAccessType': {
+			let query = node.objectType as
+				{type: string; typeAnnotation?: unknown; exprName?: {name?: string}} | undefined;
+			while (query?.type === 'TSParenthesizedType') {
+				query = query.typeAnnotation as typeof query;
+			}
+			if (query?.type !== 'TSTypeQuery' || node.indexType?.type !== 'TSNumberKeyword') return null;
+			return narrowing.arrays.get(query.exprName?.name ?? '') ?? null;
+		}
+		default:
+			return null;
+	}
+};
+
+/**
+ * Finds the type of a property in an object type, like `size` in `{size: Size}`
+ * or in a referenced interface.
+ */
+const resolve_member_type = (
+	type: unknown,
+	key: string,
+	narrowing: TemplateNarrowing,
+	depth = 0,
+): unknown => {
+	if (depth > MAX_TYPE_DEPTH) return null;
+	const node = type as {
+		type: string;
+		typeAnnotation?: unknown;
+		typeName?: {name?: string};
+		types?: Array<unknown>;
+		body?: Array<unknown>;
+		members?: Array<unknown>;
+	};
+	switch (node.type) {
+		case 'TSTypeAnnotation':
+		case 'TSParenthesizedType':
+			return resolve_member_type(node.typeAnnotation, key, narrowing, depth + 1);
+		case 'TSTypeReference': {
+			const referenced = node.typeName?.name && narrowing.types.get(node.typeName.name);
+			return referenced ? resolve_member_type(referenced, key, narrowing, depth + 1) : null;
+		}
+		case 'TSIntersectionType':
+			for (const t of node.types!) {
+				const member = resolve_member_type(t, key, narrowing, depth + 1);
+				if (member) return member;
+			}
+			return null;
+		case 'TSInterfaceBody':
+		case 'TSTypeLiteral':
+			for (const m of (node.body ?? node.members)!) {
+				const member = m as {
+					type: string;
+					key?: {name?: string; value?: unknown};
+					typeAnnotation?: unknown;
+				};
+				if (
+					member.type === 'TSPropertySignature' &&
+					(member.key?.name ?? member.key?.value) === key
+				) {
+					return member.typeAnnotation ?? null;
+				}
+			}
+			return null;
+		default:
+			return null;
+	}
+};
+
+const add_narrowing_source = (state: WalkState, name: string, source: NarrowingSource): void => {
+	const sources = state.narrowing.variables.get(name);
+	if (sources) {
+		sources.push(source);
+	} else {
+		state.narrowing.variables.set(name, [source]);
+	}
+};
+
+interface BindingPatternNode {
+	type: string;
+	name?: string;
+	typeAnnotation?: unknown;
+	left?: unknown;
+	argument?: unknown;
+	elements?: Array<unknown>;
+	properties?: Array<{
+		type: string;
+		computed?: boolean;
+		key?: {type: string; name?: string};
+		value?: unknown;
+		argument?: unknown;
+	}>;
+}
+
+/**
+ * Marks every name bound by a pattern as unnarrowed, like `a` and `b` in `[a, {b}]`.
+ */
+const collect_unnarrowed_bindings = (binding: unknown, state: WalkState): void => {
+	const node = binding as BindingPatternNode | null;
+	if (!node) return;
+	switch (node.type) {
+		case 'Identifier':
+			add_narrowing_source(state, node.name!, null);
+			break;
+		case 'AssignmentPattern':
+			collect_unnarrowed_bindings(node.left, state);
+			break;
+		case 'RestElement':
+			collect_unnarrowed_bindings(node.argument, state);
+			break;
+		case 'ArrayPattern':
+			for (const element of node.elements!) collect_unnarrowed_bindings(element, state);
+			break;
+		case 'ObjectPattern':
+			for (const prop of node.properties!) {
+				collect_unnarrowed_bindings(
+					prop.type === 'RestElement' ? prop.argument : prop.value,
+					state,
+				);
+			}
+			break;
+	}
+};
+
+/**
+ * Collects narrowing for a binding, like `size: Size`, `size: Size = 'md'`,
+ * or the destructured keys of `{size}: Props`.
+ * Untyped bindings could be anything, so they prevent narrowing of the same name elsewhere.
+ */
+const collect_binding_narrowing = (binding: unknown, state: WalkState): void => {
+	const node = binding as BindingPatternNode;
+	if (node.type === 'AssignmentPattern') {
+		collect_binding_narrowing(node.left, state);
+	} else if (node.type === 'Identifier' && node.typeAnnotation) {
+		add_narrowing_source(state, node.name!, {type: node.typeAnnotation, key: null});
+	} else if (node.type === 'ObjectPattern' && node.typeAnnotation) {
+		for (const prop of node.properties!) {
+			const value = prop.value as BindingPatternNode | undefined;
+			const target = (value?.type === 'AssignmentPattern' ? value.left : value) as
+				BindingPatternNode | undefined;
+			if (
+				prop.type === 'Property' &&
+				!prop.computed &&
+				prop.key?.type === 'Identifier' &&
+				target?.type === 'Identifier'
+			) {
+				add_narrowing_source(state, target.name!, {
+					type: node.typeAnnotation,
+					key: prop.key.name!,
+				});
+			} else {
+				collect_unnarrowed_bindings(prop.type === 'RestElement' ? prop.argument : value, state);
+			}
+		}
+	} else {
+		collect_unnarrowed_bindings(node, state);
+	}
+};
+
+/**
+ * Collects narrowing for a variable iterating over an array identifier,
+ * like `for (const size of SIZES)` or `{#each SIZES as size}`.
+ * Other iteration bindings could be anything.
+ */
+const collect_iteration_narrowing = (binding: unknown, array: unknown, state: WalkState): void => {
+	const binding_node = binding as {type: string; name?: string};
+	const array_node = array as {type: string; name?: string};
+	if (binding_node.type === 'Identifier' && array_node.type === 'Identifier') {
+		add_narrowing_source(state, binding_node.name!, {array: array_node.name!});
+	} else {
+		collect_unnarrowed_bindings(binding, state);
+	}
+};
+
+/**
+ * Collects narrowing for function parameters. The first parameter of an array iteration
+ * callback like `SIZES.map((size) => ...)` is skipped because the call narrows it.
+ */
+const collect_params_narrowing = (fn: unknown, parent: unknown, state: WalkState): void => {
+	const {params} = fn as {params: Array<unknown>};
+	const skip = is_iteration_callback(fn, parent) ? 1 : 0;
+	for (let i = skip; i < params.length; i++) {
+		collect_binding_narrowing(params[i], state);
+	}
+};
+
+const is_iteration_callback = (fn: unknown, parent: unknown): boolean => {
+	const call = parent as {
+		type: string;
+		callee?: {type: string; computed?: boolean; property?: {name?: string}};
+		arguments?: Array<unknown>;
+	} | null;
+	return (
+		call?.type === 'CallExpression' &&
+		call.callee!.type === 'MemberExpression' &&
+		!call.callee!.computed &&
+		ARRAY_ITERATION_METHODS.has(call.callee!.property?.name ?? '') &&
+		call.arguments![0] === fn
+	);
+};
+
+/**
+ * Gets the values of an array of string literals, including `[...] as const`.
+ */
+const get_string_array_values = (init: unknown): Array<string> | null => {
+	let node = init as {type: string; expression?: unknown; elements?: Array<unknown>};
+	while (node.type === 'TSAsExpression' || node.type === 'TSSatisfiesExpression') {
+		node = node.expression as typeof node;
+	}
+	if (node.type !== 'ArrayExpression') return null;
+	const values: Array<string> = [];
+	for (const element of node.elements!) {
+		const literal = element as {type: string; value?: unknown} | null;
+		if (literal?.type !== 'Literal' || typeof literal.value !== 'string') return null;
+		values.push(literal.value);
+	}
+	return values;
+};
+
+/**
+ * Array methods whose callback's first parameter is each element.
+ */
+const ARRAY_ITERATION_METHODS = new Set([
+	'map',
+	'flatMap',
+	'forEach',
+	'filter',
+	'find',
+	'some',
+	'every',
+]);
+
 /**
  * Creates a location from a character offset using the source index.
  */
@@ -288,9 +847,14 @@ const location_from_offset = (state: WalkState, offset: number): SourceLocation
  *
  * @param source - the Svelte file source code
  * @param file - file path for location tracking
+ * @param detection - class utility functions and the class-like variable name pattern
  * @returns extraction result with classes, tracked variables, elements, and diagnostics
  */
-export const extract_from_svelte = (source: string, file = '<unknown>'): ExtractionResult => {
+export const extract_from_svelte = (
+	source: string,
+	file = '<unknown>',
+	detection: ClassDetection = default_class_detection,
+): ExtractionResult => {
 	const source_index = new SourceIndex(source);
 
 	let ast: AST.Root;
@@ -308,7 +872,7 @@ export const extract_from_svelte = (source: string, file = '<unknown>'): Extract
 		]);
 	}
 
-	const state = create_walk_state(file, source_index);
+	const state = create_walk_state(file, source_index, detection);
 
 	// Extract from @fuz-* comments via AST (Svelte Comment nodes)
 	extract_fuz_comments_from_svelte(ast, state);
@@ -375,7 +939,10 @@ const process_fuz_comment = (content: string, location: SourceLocation, state: W
 	// @fuz-classes
 	const class_list = parse_fuz_classes_comment(content, location, state.diagnostics);
 	if (class_list) {
-		for (const cls of class_list) {
+		const classes = class_list.some(has_variant_group)
+			? parse_class_list(class_list.join(' ')).map((t) => t.name)
+			: class_list;
+		for (const cls of classes) {
 			add_class(state, cls, location);
 			state.explicit_classes.add(cls);
 		}
@@ -478,12 +1045,14 @@ const extract_fuz_comments_from_script = (
  * @param source - the TS/JS file source code
  * @param file - file path for location tracking
  * @param acorn_plugins - additional acorn plugins (e.g., acorn-jsx for React)
+ * @param detection - class utility functions and the class-like variable name pattern
  * @returns extraction result with classes, tracked variables, elements, and diagnostics
  */
 export const extract_from_ts = (
 	source: string,
 	file = '<unknown>',
 	acorn_plugins?: Array<AcornPlugin>,
+	detection: ClassDetection = default_class_detection,
 ): ExtractionResult => {
 	// Collect comments via acorn's onComment callback
 	const comments: Array<{value: string; loc: {start: {line: number; column: number}}}> = [];
@@ -521,7 +1090,8 @@ export const extract_from_ts = (
 		]);
 	}
 
-	const state = create_walk_state(file, null); // null source_index - acorn provides locations
+	// null source_index - acorn provides locations
+	const state = create_walk_state(file, null, detection);
 
 	// Process @fuz-* comments
 	for (const comment of comments) {
@@ -544,6 +1114,465 @@ export const extract_from_ts = (
 	return finalize_extraction_result(state);
 };
 
+/**
+ * Vue builtins and non-rendering tags that aren't HTML elements in templates.
+ */
+const VUE_NON_ELEMENTS = new Set([
+	'template',
+	'slot',
+	'component',
+	'transition',
+	'teleport',
+	'suspense',
+	'script',
+	'style',
+]);
+
+/**
+ * Extracts CSS classes from a Vue single-file component.
+ * The template is scanned for `class` attributes, `:class` and `v-bind:class` bindings,
+ * and element names, and `<script>` and `<script setup>` blocks are walked like TS files.
+ *
+ * @param source - the Vue file source code
+ * @param file - file path for location tracking
+ * @param acorn_plugins - additional acorn plugins (e.g., acorn-jsx for `lang="tsx"`)
+ * @param detection - class utility functions and the class-like variable name pattern
+ * @returns extraction result with classes, tracked variables, elements, and diagnostics
+ */
+export const extract_from_vue = (
+	source: string,
+	file = '<unknown>',
+	acorn_plugins?: Array<AcornPlugin>,
+	detection: ClassDetection = default_class_detection,
+): ExtractionResult => {
+	const state = create_walk_state(file, new SourceIndex(source), detection);
+	const plugins: Array<AcornPlugin> = [tsPlugin(), ...(acorn_plugins ?? [])];
+	const parser = plugins.reduce((p, plugin) => plugin(p), Parser);
+	const scripts: Array<Node> = [];
+
+	for (const node of scan_html(source)) {
+		if (node.type === 'comment') {
+			process_fuz_comment(node.data, location_from_offset(state, node.start), state);
+			continue;
+		}
+
+		if (node.content !== null) {
+			if (node.name === 'script') {
+				const ast = parse_embedded_script(
+					parser,
+					source,
+					node.content_start,
+					node.content,
+					'Vue script',
+					state,
+				);
+				if (ast) scripts.push(ast);
+			}
+			continue;
+		}
+
+		// Components are PascalCase or kebab-case, so only plain lowercase names are elements
+		if (/^[a-z][a-z0-9]*$/.test(node.name) && !VUE_NON_ELEMENTS.has(node.name)) {
+			state.elements.add(node.name);
+		}
+
+		for (const attr of node.attributes) {
+			if (attr.value === null) continue;
+			if (attr.name === 'class') {
+				add_class_list(state, attr.value, location_from_offset(state, attr.value_start));
+			} else if (attr.name === ':class' || attr.name === 'v-bind:class') {
+				extract_from_embedded_expression(
+					parser,
+					source,
+					attr.value_start,
+					attr.value.length,
+					'Vue class binding',
+					state,
+				);
+			}
+		}
+	}
+
+	for (const ast of scripts) {
+		walk_script(ast, state);
+	}
+
+	// Second pass: extract from tracked variables that weren't already processed
+	if (state.tracked_vars.size > 0) {
+		for (const ast of scripts) {
+			extract_from_tracked_vars_in_script(ast, state);
+		}
+	}
+
+	return finalize_extraction_result(state);
+};
+
+/**
+ * Astro builtins and non-rendering tags that aren't HTML elements in templates.
+ */
+const ASTRO_NON_ELEMENTS = new Set(['slot', 'script', 'style']);
+
+/**
+ * Matches the opening fence of Astro frontmatter, which must come first in the file.
+ */
+const ASTRO_FRONTMATTER_PATTERN = /^\s*---[ \t]*\r?\n/;
+
+/**
+ * Extracts CSS classes from an Astro component.
+ * The frontmatter and client `<script>` tags are walked like TS files,
+ * and the template is scanned for `class` and `class:list` attributes, including
+ * `{expression}` values and elements inside JSX-like expressions, and element names.
+ *
+ * @param source - the Astro file source code
+ * @param file - file path for location tracking
+ * @param acorn_plugins - additional acorn plugins
+ * @param detection - class utility functions and the class-like variable name pattern
+ * @returns extraction result with classes, tracked variables, elements, and diagnostics
+ */
+export const extract_from_astro = (
+	source: string,
+	file = '<unknown>',
+	acorn_plugins?: Array<AcornPlugin>,
+	detection: ClassDetection = default_class_detection,
+): ExtractionResult => {
+	const state = create_walk_state(file, new SourceIndex(source), detection);
+	const plugins: Array<AcornPlugin> = [tsPlugin(), ...(acorn_plugins ?? [])];
+	const parser = plugins.reduce((p, plugin) => plugin(p), Parser);
+	const scripts: Array<Node> = [];
+
+	// Frontmatter between `---` fences is the component script
+	let template_start = 0;
+	const fence = ASTRO_FRONTMATTER_PATTERN.exec(source);
+	if (fence) {
+		const content_start = fence[0].length;
+		const close = source.indexOf('\n---', content_start - 1);
+		const content_end = close === -1 ? source.length : close;
+		template_start = close === -1 ? source.length : close + 4;
+		const ast = parse_embedded_script(
+			parser,
+			source,
+			content_start,
+			source.slice(content_start, content_end),
+			'Astro frontmatter',
+			state,
+		);
+		if (ast) scripts.push(ast);
+	}
+
+	for (const node of scan_html(source, {start: template_start, expressions: true})) {
+		if (node.type === 'comment') {
+			process_fuz_comment(node.data, location_from_offset(state, node.start), state);
+			continue;
+		}
+
+		if (node.content !== null) {
+			// Scripts are TS unless they have another type, like JSON-LD
+			const type = node.attributes.find((a) => a.name === 'type')?.value;
+			if (node.name === 'script' && (!type || type === 'module')) {
+				const ast = parse_embedded_script(
+					parser,
+					source,
+					node.content_start,
+					node.content,
+					'Astro script',
+					state,
+				);
+				if (ast) scripts.push(ast);
+			}
+			continue;
+		}
+
+		// Components are PascalCase and custom elements have hyphens
+		if (/^[a-z][a-z0-9]*$/.test(node.name) && !ASTRO_NON_ELEMENTS.has(node.name)) {
+			state.elements.add(node.name);
+		}
+
+		for (const attr of node.attributes) {
+			if (attr.value === null || (attr.name !== 'class' && attr.name !== 'class:list')) continue;
+			if (attr.expression) {
+				extract_from_embedded_expression(
+					parser,
+					source,
+					attr.value_start,
+					attr.value.length,
+					'Astro class expression',
+					state,
+				);
+			} else {
+				add_class_list(state, attr.value, location_from_offset(state, attr.value_start));
+			}
+		}
+	}
+
+	for (const ast of scripts) {
+		walk_script(ast, state);
+	}
+
+	// Second pass: extract from tracked variables that weren't already processed
+	if (state.tracked_vars.size > 0) {
+		for (const ast of scripts) {
+			extract_from_tracked_vars_in_script(ast, state);
+		}
+	}
+
+	return finalize_extraction_result(state);
+};
+
+/**
+ * Builtins and raw text tags in markdown that aren't HTML elements.
+ */
+const MARKDOWN_NON_ELEMENTS = new Set(['slot', 'script', 'style']);
+
+/**
+ * Extracts CSS classes and elements from markdown, MDX, and mdsvex files.
+ * Elements rendered by markdown syntax are recorded, like `blockquote` for `>`,
+ * embedded HTML, JSX, and Svelte markup outside of code is scanned for
+ * `class` and `className` attributes and `class:` directives,
+ * and `<script>` blocks are walked like TS files.
+ *
+ * @param source - the markdown source code
+ * @param file - file path for location tracking
+ * @param acorn_plugins - additional acorn plugins (e.g., acorn-jsx for JSX in MDX expressions)
+ * @param detection - class utility functions and the class-like variable name pattern
+ * @returns extraction result with classes, tracked variables, elements, and diagnostics
+ */
+export const extract_from_markdown = (
+	source: string,
+	file = '<unknown>',
+	acorn_plugins?: Array<AcornPlugin>,
+	detection: ClassDetection = default_class_detection,
+): ExtractionResult => {
+	const state = create_walk_state(file, new SourceIndex(source), detection);
+	const plugins: Array<AcornPlugin> = [tsPlugin(), ...(acorn_plugins ?? [])];
+	const parser = plugins.reduce((p, plugin) => plugin(p), Parser);
+	const scripts: Array<Node> = [];
+
+	// Code is blanked out of the markup so its tags and comments are ignored
+	const {elements, markup} = scan_markdown(source);
+	for (const element of elements) {
+		state.elements.add(element);
+	}
+
+	for (const node of scan_html(markup, {expressions: true})) {
+		if (node.type === 'comment') {
+			process_fuz_comment(node.data, location_from_offset(state, node.start), state);
+			continue;
+		}
+
+		if (node.content !== null) {
+			const type = node.attributes.find((a) => a.name === 'type')?.value;
+			if (node.name === 'script' && (!type || type === 'module')) {
+				const ast = parse_embedded_script(
+					parser,
+					markup,
+					node.content_start,
+					node.content,
+					'markdown script',
+					state,
+				);
+				if (ast) scripts.push(ast);
+			}
+			continue;
+		}
+
+		// Components are PascalCase and autolinks like `<https://…>` aren't tag names
+		if (/^[a-z][a-z0-9]*$/.test(node.name) && !MARKDOWN_NON_ELEMENTS.has(node.name)) {
+			state.elements.add(node.name);
+		}
+
+		for (const attr of node.attributes) {
+			if (attr.name.startsWith('class:')) {
+				add_class(state, attr.name.slice(6), location_from_offset(state, attr.start + 6));
+				continue;
+			}
+			if (attr.value === null || (attr.name !== 'class' && attr.name !== 'className')) continue;
+			if (attr.expression) {
+				extract_from_embedded_expression(
+					parser,
+					markup,
+					attr.value_start,
+					attr.value.length,
+					'markdown class expression',
+					state,
+				);
+			} else {
+				add_class_list(state, attr.value, location_from_offset(state, attr.value_start));
+			}
+		}
+	}
+
+	for (const ast of scripts) {
+		walk_script(ast, state);
+	}
+
+	// Second pass: extract from tracked variables that weren't already processed
+	if (state.tracked_vars.size > 0) {
+		for (const ast of scripts) {
+			extract_from_tracked_vars_in_script(ast, state);
+		}
+	}
+
+	return finalize_extraction_result(state);
+};
+
+/**
+ * Parses a script embedded in another file, like a Vue `<script>` block,
+ * and processes its `@fuz-*` comments.
+ * The script is parsed in place with the preceding source blanked out,
+ * so node locations are relative to the whole file.
+ *
+ * @param content_start - offset of `content` in `source`
+ * @param label - what the script is, for the parse failure diagnostic
+ * @returns the AST, or null if parsing failed
+ */
+const parse_embedded_script = (
+	parser: typeof Parser,
+	source: string,
+	content_start: number,
+	content: string,
+	label: string,
+	state: WalkState,
+): Node | null => {
+	const padded = source.slice(0, content_start).replace(/[^\n]/g, ' ') + content;
+	const comments: Array<{value: string; start: number}> = [];
+	let ast: Node;
+	try {
+		ast = parser.parse(padded, {
+			ecmaVersion: 'latest',
+			sourceType: 'module',
+			locations: true,
+			onComment: (_block: boolean, text: string, start: number) => {
+				comments.push({value: text, start});
+			},
+		});
+	} catch (err) {
+		state.diagnostics.push({
+			phase: 'extraction',
+			level: 'warning',
+			message: `Failed to parse ${label}: ${to_error_message(err, 'unknown error')}`,
+			suggestion: 'Check for syntax errors in the script',
+			location: location_from_offset(state, content_start),
+		});
+		return null;
+	}
+	for (const comment of comments) {
+		process_fuz_comment(comment.value, location_from_offset(state, comment.start), state);
+	}
+	return ast;
+};
+
+/**
+ * Parses an expression embedded in another file, like a Vue `:class` binding,
+ * and extracts its classes in a class context.
+ * The source is cut at the end of the expression so node locations are relative to the whole file.
+ *
+ * @param start - offset of the expression in `source`
+ * @param length - length of the expression
+ * @param label - what the expression is, for the parse failure diagnostic
+ */
+const extract_from_embedded_expression = (
+	parser: typeof Parser,
+	source: string,
+	start: number,
+	length: number,
+	label: string,
+	state: WalkState,
+): void => {
+	let expr: Node;
+	try {
+		expr = parser.parseExpressionAt(source.slice(0, start + length), start, {
+			ecmaVersion: 'latest',
+			sourceType: 'module',
+			locations: true,
+		});
+	} catch (err) {
+		state.diagnostics.push({
+			phase: 'extraction',
+			level: 'warning',
+			message: `Failed to parse ${label}: ${to_error_message(err, 'unknown error')}`,
+			suggestion: 'Check for syntax errors in the expression',
+			location: location_from_offset(state, start),
+		});
+		return;
+	}
+	state.in_class_context = true;
+	extract_from_expression(expr as unknown as AST.SvelteNode, state);
+	state.in_class_context = false;
+};
+
+/**
+ * Building blocks for custom extractors, backed by the same state as the built-in extractors.
+ * Positions are character offsets in the source, converted to locations with `source_index`.
+ */
+export interface ExtractionContext {
+	/** File path for locations and diagnostics */
+	file: string;
+	/** Converts offsets in the source to line/column locations */
+	source_index: SourceIndex;
+	/** Adds a class at an offset */
+	add_class: (class_name: string, offset: number) => void;
+	/** Adds a whitespace-separated class list at an offset, expanding variant groups */
+	add_class_list: (value: string, offset: number) => void;
+	/** Records an HTML element, like `dialog`, to include its base styles */
+	add_element: (name: string) => void;
+	/** Processes `@fuz-classes`, `@fuz-elements`, and `@fuz-variables` in comment text at an offset */
+	process_fuz_comment: (content: string, offset: number) => void;
+	/** Adds an extraction warning at an offset */
+	warn: (message: string, offset: number, suggestion?: string) => void;
+	/** Creates the extraction result */
+	finish: () => ExtractionResult;
+}
+
+/**
+ * Creates the building blocks for a custom extractor,
+ * for template languages registered with the `extractors` option.
+ *
+ * @example
+ * ```ts
+ * const ctx = create_extraction_context(source, file);
+ * for (const match of source.matchAll(/class="([^"]*)"/g)) {
+ * 	ctx.add_class_list(match[1]!, match.index + 7);
+ * }
+ * return ctx.finish();
+ * ```
+ *
+ * @param source - the file source code
+ * @param file - file path for location tracking
+ */
+export const create_extraction_context = (
+	source: string,
+	file = '<unknown>',
+): ExtractionContext => {
+	const source_index = new SourceIndex(source);
+	const state = create_walk_state(file, source_index);
+	return {
+		file,
+		source_index,
+		add_class: (class_name, offset) => {
+			add_class(state, class_name, location_from_offset(state, offset));
+		},
+		add_class_list: (value, offset) => {
+			add_class_list(state, value, location_from_offset(state, offset));
+		},
+		add_element: (name) => {
+			state.elements.add(name);
+		},
+		process_fuz_comment: (content, offset) => {
+			process_fuz_comment(content, location_from_offset(state, offset), state);
+		},
+		warn: (message, offset, suggestion) => {
+			state.diagnostics.push({
+				phase: 'extraction',
+				level: 'warning',
+				message,
+				suggestion: suggestion ?? null,
+				location: location_from_offset(state, offset),
+			});
+		},
+		finish: () => finalize_extraction_result(state),
+	};
+};
+
 /**
  * Unified extraction function that auto-detects file type.
  * Returns just the class names as a Set.
@@ -572,22 +1601,32 @@ export const extract_css_classes_with_locations = (
 	source: string,
 	options: ExtractCssClassesOptions = {},
 ): ExtractionResult => {
-	const {filename, acorn_plugins} = options;
+	const {filename, acorn_plugins, extractors} = options;
 	const ext = filename ? filename.slice(filename.lastIndexOf('.')) : '';
 	const file = filename ?? '<unknown>';
-
-	if (ext === '.svelte' || ext === '.html') {
-		return extract_from_svelte(source, file);
+	const detection = resolve_class_detection(options);
+
+	const extractor = filename ? find_extractor(filename, extractors) : null;
+	if (extractor) {
+		return extractor(source, file);
+	} else if (ext === '.svelte' || ext === '.html') {
+		return extract_from_svelte(source, file, detection);
+	} else if (ext === '.vue') {
+		return extract_from_vue(source, file, acorn_plugins, detection);
+	} else if (ext === '.astro') {
+		return extract_from_astro(source, file, acorn_plugins, detection);
+	} else if (ext === '.md' || ext === '.mdx' || ext === '.svx') {
+		return extract_from_markdown(source, file, acorn_plugins, detection);
 	} else if (ext === '.ts' || ext === '.js' || ext === '.tsx' || ext === '.jsx') {
-		return extract_from_ts(source, file, acorn_plugins);
+		return extract_from_ts(source, file, acorn_plugins, detection);
 	}
 
 	// Default to Svelte-style extraction (handles both)
-	const svelte_result = extract_from_svelte(source, file);
+	const svelte_result = extract_from_svelte(source, file, detection);
 	if (svelte_result.classes) {
 		return svelte_result;
 	}
-	return extract_from_ts(source, file, acorn_plugins);
+	return extract_from_ts(source, file, acorn_plugins, detection);
 };
 
 // Template AST walking
@@ -622,6 +1661,23 @@ const walk_template = (fragment: AST.Fragment, state: WalkState): void => {
 			process_element_attributes(node.attributes, state);
 			next();
 		},
+		// Each blocks over arrays narrow their item for class templates
+		EachBlock(node, {state, next}) {
+			if (node.context) collect_iteration_narrowing(node.context, node.expression, state);
+			if (node.index) add_narrowing_source(state, node.index, null);
+			next();
+		},
+		// Other template bindings for class templates
+		SnippetBlock(node, {state, next}) {
+			for (const param of node.parameters) collect_binding_narrowing(param, state);
+			next();
+		},
+		ConstTag(node, {state, next}) {
+			for (const declarator of node.declaration.declarations) {
+				collect_binding_narrowing(declarator.id, state);
+			}
+			next();
+		},
 		// SvelteHead injects children into document <head> - walk its fragment
 		SvelteHead(_node, {next}) {
 			next();
@@ -685,20 +1741,28 @@ const extract_from_attribute_value = (value: AST.Attribute['value'], state: Walk
 
 	// Handle array of Text and ExpressionTag (e.g., class="foo {expr} bar")
 	if (Array.isArray(value)) {
+		const statics: Array<string> = [''];
+		const expressions: Array<unknown> = [];
+		const locations: Array<SourceLocation> = [location_from_offset(state, value[0]!.start)];
 		for (const part of value) {
 			if (part.type === 'Text') {
 				// Static text: split on whitespace
-				const location = location_from_offset(state, part.start);
-				for (const cls of part.data.split(/\s+/).filter(Boolean)) {
-					add_class(state, cls, location);
-				}
+				add_class_list(state, part.data, location_from_offset(state, part.start));
+				statics[statics.length - 1] += part.data;
 			} else {
 				// ExpressionTag: extract from the expression
 				state.in_class_context = true;
 				extract_from_expression(part.expression, state);
 				state.in_class_context = false;
+				expressions.push(part.expression);
+				statics.push('');
+				locations.push(location_from_offset(state, part.end));
 			}
 		}
+		// Tokens spanning expressions like `p_{size}` become class templates
+		if (expressions.length > 0) {
+			add_class_templates(state, statics, expressions, locations);
+		}
 		return;
 	}
 
@@ -731,10 +1795,7 @@ const extract_from_expression = (expr: AST.SvelteNode, state: WalkState): void =
 			// String literal
 			const node = expr as unknown as {value: unknown};
 			if (typeof node.value === 'string') {
-				const location = get_location();
-				for (const cls of node.value.split(/\s+/).filter(Boolean)) {
-					add_class(state, cls, location);
-				}
+				add_class_list(state, node.value, get_location(), 1);
 			}
 			break;
 		}
@@ -752,23 +1813,34 @@ const extract_from_expression = (expr: AST.SvelteNode, state: WalkState): void =
 			};
 
 			const has_expressions = node.expressions.length > 0;
+			const locations = node.quasis.map((quasi) =>
+				quasi.loc
+					? {file: state.file, line: quasi.loc.start.line, column: quasi.loc.start.column + 1}
+					: quasi.start !== undefined
+						? location_from_offset(state, quasi.start)
+						: get_location(),
+			);
 
 			for (let i = 0; i < node.quasis.length; i++) {
 				const quasi = node.quasis[i]!;
 				if (!quasi.value.raw) continue;
 
-				const location = quasi.loc
-					? {file: state.file, line: quasi.loc.start.line, column: quasi.loc.start.column + 1}
-					: quasi.start !== undefined
-						? location_from_offset(state, quasi.start)
-						: get_location();
-
+				const location = locations[i]!;
 				const raw = quasi.value.raw;
 
 				if (!has_expressions) {
 					// No expressions - extract all tokens (pure static template literal)
-					for (const cls of raw.split(/\s+/).filter(Boolean)) {
-						add_class(state, cls, location);
+					add_class_list(state, raw, location);
+				} else if (has_variant_group(raw)) {
+					// Same boundary rules as below, applied to whole groups
+					const is_first = i === 0;
+					const is_last = i === node.quasis.length - 1;
+					for (const token of parse_class_list(raw)) {
+						const bounded_left = token.token_start > 0 || is_first;
+						const bounded_right = token.token_end < raw.length || is_last;
+						if (bounded_left && bounded_right) {
+							add_class(state, token.name, offset_location(location, raw, token.offset));
+						}
 					}
 				} else {
 					// Has expressions - only extract complete tokens
@@ -807,6 +1879,16 @@ const extract_from_expression = (expr: AST.SvelteNode, state: WalkState): void =
 				}
 			}
 
+			// Tokens spanning expressions like `p_${size}` become class templates
+			if (has_expressions) {
+				add_class_templates(
+					state,
+					node.quasis.map((quasi) => quasi.value.raw),
+					node.expressions,
+					locations,
+				);
+			}
+
 			// Also extract from expressions (e.g., ternaries inside the template)
 			for (const subexpr of node.expressions) {
 				extract_from_expression(subexpr as AST.SvelteNode, state);
@@ -849,9 +1931,7 @@ const extract_from_expression = (expr: AST.SvelteNode, state: WalkState): void =
 						add_class(state, key.name!, location);
 					} else if (key.type === 'Literal' && typeof key.value === 'string') {
 						// Handle string keys like { 'display:flex': condition }
-						for (const cls of key.value.split(/\s+/).filter(Boolean)) {
-							add_class(state, cls, location);
-						}
+						add_class_list(state, key.value, location, 1);
 					}
 				}
 			}
@@ -886,7 +1966,8 @@ const extract_from_expression = (expr: AST.SvelteNode, state: WalkState): void =
 			if (node.callee.type === 'Identifier') {
 				// Direct call: clsx(), cn(), $derived(), etc.
 				should_extract =
-					CLASS_UTILITY_FUNCTIONS.has(node.callee.name!) || SVELTE_RUNES.has(node.callee.name!);
+					state.detection.utility_functions.has(node.callee.name!) ||
+					SVELTE_RUNES.has(node.callee.name!);
 			} else if (node.callee.type === 'MemberExpression') {
 				// Member call: $derived.by(), etc.
 				const obj = node.callee.object;
@@ -982,9 +2063,7 @@ const extract_from_jsx_attribute_value = (value: unknown, state: WalkState): voi
 		const location: SourceLocation = node.loc
 			? {file: state.file, line: node.loc.start.line, column: node.loc.start.column + 1}
 			: {file: state.file, line: 1, column: 1};
-		for (const cls of node.value.split(/\s+/).filter(Boolean)) {
-			add_class(state, cls, location);
-		}
+		add_class_list(state, node.value, location, 1);
 	} else if (node.type === 'JSXExpressionContainer' && node.expression) {
 		// Dynamic className={expr} - enable variable tracking
 		const prev_context = state.in_class_context;
@@ -999,13 +2078,82 @@ const extract_from_jsx_attribute_value = (value: unknown, state: WalkState): voi
  */
 const walk_script = (ast: unknown, state: WalkState): void => {
 	const visitors: Visitors<Node, WalkState> = {
+		// Type aliases and interfaces for narrowing class templates
+		TSTypeAliasDeclaration(node, {state, next}) {
+			const alias = node as unknown as {id: {name: string}; typeAnnotation: unknown};
+			state.narrowing.types.set(alias.id.name, alias.typeAnnotation);
+			next();
+		},
+		TSInterfaceDeclaration(node, {state, next}) {
+			const declaration = node as unknown as {id: {name: string}; body: unknown};
+			state.narrowing.types.set(declaration.id.name, declaration.body);
+			next();
+		},
+
+		// Const arrays of strings for narrowing class templates
+		VariableDeclaration(node, {state, next}) {
+			const declaration = node as unknown as {
+				kind: string;
+				declarations: Array<{id: {type: string; name?: string}; init: unknown}>;
+			};
+			if (declaration.kind === 'const') {
+				for (const declarator of declaration.declarations) {
+					const values = declarator.init ? get_string_array_values(declarator.init) : null;
+					if (declarator.id.type === 'Identifier' && values) {
+						state.narrowing.arrays.set(declarator.id.name!, values);
+					}
+				}
+			}
+			next();
+		},
+
+		// Parameters, imports, and caught errors for narrowing class templates
+		FunctionDeclaration(node, {state, next, path}) {
+			collect_params_narrowing(node, path.at(-1), state);
+			next();
+		},
+		FunctionExpression(node, {state, next, path}) {
+			collect_params_narrowing(node, path.at(-1), state);
+			next();
+		},
+		ArrowFunctionExpression(node, {state, next, path}) {
+			collect_params_narrowing(node, path.at(-1), state);
+			next();
+		},
+		ImportDeclaration(node, {state, next}) {
+			for (const specifier of (node as unknown as {specifiers: Array<{local: unknown}>})
+				.specifiers) {
+				collect_unnarrowed_bindings(specifier.local, state);
+			}
+			next();
+		},
+		CatchClause(node, {state, next}) {
+			collect_unnarrowed_bindings((node as unknown as {param: unknown}).param, state);
+			next();
+		},
+
+		// Loop variables for narrowing class templates
+		ForOfStatement(node, {state, next}) {
+			const statement = node as unknown as {
+				left: {type: string; declarations?: Array<{id: unknown}>};
+				right: unknown;
+			};
+			const binding = statement.left.declarations?.[0]?.id;
+			if (binding) collect_iteration_narrowing(binding, statement.right, state);
+			next();
+		},
+
 		// Variable declarations
-		VariableDeclarator(node, {state, next}) {
+		VariableDeclarator(node, {state, next, path}) {
 			const declarator = node as unknown as {id: {type: string; name: string}; init: unknown};
+			// `for...of` bindings are narrowed by the loop
+			if (path.at(-2)?.type !== 'ForOfStatement') {
+				collect_binding_narrowing(declarator.id, state);
+			}
 			if (declarator.id.type === 'Identifier') {
 				const name = declarator.id.name;
 				// Check if variable name matches class pattern
-				if (CLASS_NAME_PATTERN.test(name)) {
+				if (state.detection.name_pattern.test(name)) {
 					state.class_name_vars.set(name, declarator.init);
 					if (declarator.init) {
 						extract_from_expression(declarator.init as AST.SvelteNode, state);
@@ -1022,14 +2170,32 @@ const walk_script = (ast: unknown, state: WalkState): void => {
 		// Call expressions (for clsx/cn calls outside of class attributes)
 		CallExpression(node, {state, next}) {
 			const call = node as unknown as {
-				callee: {type: string; name?: string};
-				arguments: Array<unknown>;
+				callee: {
+					type: string;
+					name?: string;
+					object?: unknown;
+					property?: {type: string; name?: string};
+					computed?: boolean;
+				};
+				arguments: Array<{type: string; params?: Array<unknown>}>;
 			};
-			if (call.callee.type === 'Identifier' && CLASS_UTILITY_FUNCTIONS.has(call.callee.name!)) {
+			if (
+				call.callee.type === 'Identifier' &&
+				state.detection.utility_functions.has(call.callee.name!)
+			) {
 				for (const arg of call.arguments) {
-					extract_from_expression(arg as AST.SvelteNode, state);
+					extract_from_expression(arg as unknown as AST.SvelteNode, state);
 				}
 			}
+			// Array iteration callbacks like `SIZES.map((size) => ...)` narrow their first parameter
+			if (
+				call.callee.type === 'MemberExpression' &&
+				!call.callee.computed &&
+				ARRAY_ITERATION_METHODS.has(call.callee.property?.name ?? '')
+			) {
+				const binding = call.arguments[0]?.params?.[0];
+				if (binding) collect_iteration_narrowing(binding, call.callee.object, state);
+			}
 			next();
 		},
 
@@ -1050,7 +2216,9 @@ const walk_script = (ast: unknown, state: WalkState): void => {
 				}
 				if (
 					key_name &&
-					(key_name === 'class' || key_name === 'className' || CLASS_NAME_PATTERN.test(key_name))
+					(key_name === 'class' ||
+						key_name === 'className' ||
+						state.detection.name_pattern.test(key_name))
 				) {
 					extract_from_expression(prop.value as AST.SvelteNode, state);
 				}
@@ -22,8 +22,14 @@ import {
 	ruleset_contains_class,
 } from './css_ruleset_parser.ts';
 import {resolve_class_definition} from './css_class_resolution.ts';
-import {get_modifier} from './modifiers.ts';
+import {extract_segments} from './css_literal.ts';
+import {get_modifier, default_modifier_index, type ModifierIndex} from './modifiers.ts';
 import {extract_css_variables} from './css_variable_utils.ts';
+import type {VariableDependencyGraph} from './variable_graph.ts';
+import type {CssValueIndex} from './css_value_validation.ts';
+import {is_class_pattern} from './class_patterns.ts';
+import type {UnknownClassChecker} from './unknown_classes.ts';
+import type {LiteralTokenChecker} from './literal_tokens.ts';
 
 //
 // CSS Utilities
@@ -75,6 +81,7 @@ const get_sort_index = (
 	class_name: string,
 	indexes: Map<string, number>,
 	property_to_last_index: Map<string, number>,
+	modifiers: ModifierIndex,
 ): number => {
 	const direct = indexes.get(class_name);
 	if (direct !== undefined) return direct;
@@ -86,10 +93,10 @@ const get_sort_index = (
 	// - `break` bails once the first non-modifier segment is reached, since
 	//   that segment is the CSS property (if known) or an unrecognized prefix
 	//   that can't be sorted by property — no point scanning further.
-	const segments = class_name.split(':');
+	const segments = extract_segments(class_name);
 	for (let i = 0; i < segments.length - 1; i++) {
 		const segment = segments[i]!;
-		if (get_modifier(segment)) continue; // skip modifier prefixes like `hover:`, `sm:`
+		if (get_modifier(segment, modifiers)) continue; // skip modifier prefixes like `hover:`, `sm:`
 		const property_index = property_to_last_index.get(segment);
 		if (property_index !== undefined) return property_index + 0.5;
 		break; // unrecognized non-modifier prefix — can't determine property sort order
@@ -101,13 +108,17 @@ const get_sort_index = (
 /**
  * Gets the maximum state modifier order from a class name.
  * Ensures proper cascade ordering: `hover` (order 5) before `active` (order 6).
+ * Group and peer modifiers carry the order of their state.
  */
-const get_state_modifier_order = (class_name: string): number => {
-	const parts = class_name.split(':');
+const get_state_modifier_order = (class_name: string, modifiers: ModifierIndex): number => {
+	const parts = extract_segments(class_name);
 	let max_order = 0;
 	for (let i = 0; i < parts.length - 1; i++) {
-		const modifier = get_modifier(parts[i]!);
-		if (modifier?.type === 'state' && modifier.order !== undefined) {
+		const modifier = get_modifier(parts[i]!, modifiers);
+		if (
+			(modifier?.type === 'state' || modifier?.type === 'group' || modifier?.type === 'peer') &&
+			modifier.order !== undefined
+		) {
 			max_order = Math.max(max_order, modifier.order);
 		}
 	}
@@ -165,6 +176,12 @@ export interface CssClassInterpreterContext {
 	class_definitions: Record<string, CssClassDefinition | undefined>;
 	/** Valid CSS properties for literal validation, or null to skip validation */
 	css_properties: Set<string> | null;
+	/** Modifiers recognized in class names like `hover:p_md` */
+	modifiers: ModifierIndex;
+	/** Theme variables for validating `$token` shorthand in literals, or null to skip validation */
+	variable_graph: VariableDependencyGraph | null;
+	/** Property value grammars for literal value validation, or null to skip validation */
+	css_value_index: CssValueIndex | null;
 }
 
 /** Interpreter for dynamic CSS class generation based on pattern matching. */
@@ -196,6 +213,12 @@ export interface GenerateClassesCssOptions {
 	interpreters: Array<CssClassDefinitionInterpreter>;
 	/** Valid CSS properties for literal validation, or null to skip validation */
 	css_properties: Set<string> | null;
+	/** Modifiers recognized in class names, defaults to the builtin `MODIFIERS` */
+	modifiers?: ModifierIndex;
+	/** Theme variables for validating `$token` shorthand in literals, or null to skip validation */
+	variable_graph?: VariableDependencyGraph | null;
+	/** Property value grammars for literal value validation, or null to skip validation */
+	css_value_index?: CssValueIndex | null;
 	log?: Logger;
 	class_locations?: Map<string, Array<SourceLocation> | null>;
 	/**
@@ -203,6 +226,16 @@ export interface GenerateClassesCssOptions {
 	 * Unresolved explicit classes produce warnings.
 	 */
 	explicit_classes?: Set<string> | null;
+	/**
+	 * Reports detected classes that look like tokens but don't resolve,
+	 * or null to skip them silently (see `create_unknown_class_checker`).
+	 */
+	unknown_class_checker?: UnknownClassChecker | null;
+	/**
+	 * Reports CSS literals that have an equivalent class,
+	 * or null to skip the check (see `create_literal_token_checker`).
+	 */
+	literal_token_checker?: LiteralTokenChecker | null;
 }
 
 export const generate_classes_css = (
@@ -213,9 +246,14 @@ export const generate_classes_css = (
 		class_definitions,
 		interpreters,
 		css_properties,
+		modifiers = default_modifier_index,
+		variable_graph = null,
+		css_value_index = null,
 		log,
 		class_locations,
 		explicit_classes,
+		unknown_class_checker = null,
+		literal_token_checker = null,
 	} = options;
 	const interpreter_diagnostics: Array<InterpreterDiagnostic> = [];
 	const diagnostics: Array<GenerationDiagnostic> = [];
@@ -227,6 +265,9 @@ export const generate_classes_css = (
 		diagnostics: interpreter_diagnostics,
 		class_definitions,
 		css_properties,
+		modifiers,
+		variable_graph,
+		css_value_index,
 	};
 
 	// Build index maps in a single pass:
@@ -250,12 +291,12 @@ export const generate_classes_css = (
 	// Sort classes: first by property-aware index, then by state modifier order, then alphabetically
 	const sorted_classes = (Array.isArray(class_names) ? class_names : Array.from(class_names)).sort(
 		(a, b) => {
-			const index_a = get_sort_index(a, indexes, property_to_last_index);
-			const index_b = get_sort_index(b, indexes, property_to_last_index);
+			const index_a = get_sort_index(a, indexes, property_to_last_index, modifiers);
+			const index_b = get_sort_index(b, indexes, property_to_last_index, modifiers);
 			if (index_a !== index_b) return index_a - index_b;
 			// For classes with modifiers, sort by state modifier order (for proper cascade)
-			const order_a = get_state_modifier_order(a);
-			const order_b = get_state_modifier_order(b);
+			const order_a = get_state_modifier_order(a, modifiers);
+			const order_b = get_state_modifier_order(b, modifiers);
 			if (order_a !== order_b) return order_a - order_b;
 			return a.localeCompare(b); // alphabetic tiebreaker for stable sort
 		},
@@ -292,6 +333,23 @@ export const generate_classes_css = (
 			}
 		}
 
+		// Explicit patterns that reach generation matched no class definitions,
+		// and aren't literals the interpreters generate, so report the pattern
+		// instead of the interpreters' errors
+		if (!v && explicit_classes?.has(c) && is_class_pattern(c)) {
+			interpreter_diagnostics.length = diag_count_before;
+			diagnostics.push({
+				phase: 'generation',
+				level: 'error',
+				message: 'No class definitions match the pattern',
+				identifier: c,
+				suggestion:
+					'Patterns match static class definitions, with wildcards only after the last modifier like "md:bg_*"',
+				locations: class_locations?.get(c) ?? null,
+			});
+			continue;
+		}
+
 		// Convert any new interpreter diagnostics to GenerationDiagnostic with locations
 		// For non-explicit classes, downgrade CSS property errors to warnings (may be from other CSS systems)
 		// Structural errors (circular refs, unknown composes) remain errors regardless
@@ -305,6 +363,14 @@ export const generate_classes_css = (
 			diagnostics.push(create_generation_diagnostic({...diag, level}, locations));
 		}
 
+		// Suggest the equivalent class for interpreted literals like `border-radius:50%`
+		if (v && interpreter_matched && literal_token_checker) {
+			const literal = literal_token_checker(c);
+			if (literal) {
+				diagnostics.push(create_generation_diagnostic(literal, class_locations?.get(c) ?? null));
+			}
+		}
+
 		if (!v) {
 			// Error if this was an explicitly requested class (via @fuz-classes or additional_classes)
 			// but only if no interpreter pattern matched (if one matched but failed, error already reported)
@@ -318,6 +384,15 @@ export const generate_classes_css = (
 					suggestion: 'Check spelling or add a custom class definition',
 					locations,
 				});
+			} else if (
+				unknown_class_checker &&
+				!explicit_classes?.has(c) &&
+				interpreter_diagnostics.length === diag_count_before
+			) {
+				const unknown = unknown_class_checker(c);
+				if (unknown) {
+					diagnostics.push(create_generation_diagnostic(unknown, class_locations?.get(c) ?? null));
+				}
 			}
 			continue;
 		}
@@ -337,7 +412,13 @@ export const generate_classes_css = (
 
 		// Handle composes-based or declaration-based definitions
 		if ('composes' in v || 'declaration' in v) {
-			const resolution_result = resolve_class_definition(v, c, class_definitions, css_properties);
+			const resolution_result = resolve_class_definition(
+				v,
+				c,
+				class_definitions,
+				css_properties,
+				modifiers,
+			);
 			if (!resolution_result.ok) {
 				// Add error diagnostic and skip this class
 				diagnostics.push({
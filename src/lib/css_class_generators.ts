@@ -75,6 +75,18 @@ export const generate_classes = <T1 = string, T2 = string, T3 = string>(
 export const CSS_DIRECTIONS = ['top', 'right', 'bottom', 'left'] as const;
 export type CssDirection = (typeof CSS_DIRECTIONS)[number];
 
+/**
+ * Options for generators of direction-dependent properties.
+ */
+export interface LogicalPropertyOptions {
+	/**
+	 * Also generate logical-property variants that follow the writing direction,
+	 * like `ms_md` for `margin-inline-start`, for right-to-left and vertical layouts.
+	 * Defaults to `false`.
+	 */
+	logical?: boolean;
+}
+
 // Helper to convert any string to a valid CSS variable name (snake_case)
 export const format_variable_name = (str: string): string => str.replace(/[-\s]+/g, '_');
 
@@ -135,16 +147,19 @@ export const generate_property_classes = (
 
 /**
  * Generate directional classes for properties like margin and padding.
- * Creates classes for all directions: base, top, right, bottom, left, x (horizontal), y (vertical).
+ * Creates classes for all directions: base, top, right, bottom, left, x (horizontal), y (vertical),
+ * plus s (inline start) and e (inline end) with the `logical` option.
  *
  * @param property - the base CSS property name (e.g. 'margin', 'padding')
  * @param values - the values to generate classes for
  * @param formatter - optional function to format values (defaults to identity)
+ * @param options - generation options, see `LogicalPropertyOptions`
  */
 export const generate_directional_classes = (
 	property: string,
 	values: Iterable<string>,
 	formatter?: (v: string) => string,
+	options?: LogicalPropertyOptions,
 ): Record<string, CssClassDefinition> => {
 	const prefix = property[0]; // 'm' for margin, 'p' for padding
 
@@ -179,25 +194,74 @@ export const generate_directional_classes = (
 					name: `${prefix}y_${format_variable_name(value)}`,
 					css: `${property}-top: ${formatted};\t${property}-bottom: ${formatted};`,
 				},
+				s: {
+					name: `${prefix}s_${format_variable_name(value)}`,
+					css: `${property}-inline-start: ${formatted};`,
+				},
+				e: {
+					name: `${prefix}e_${format_variable_name(value)}`,
+					css: `${property}-inline-end: ${formatted};`,
+				},
 			};
 
 			return configs[variant] || null;
 		},
-		['', 't', 'r', 'b', 'l', 'x', 'y'],
+		options?.logical
+			? ['', 't', 'r', 'b', 'l', 'x', 'y', 's', 'e']
+			: ['', 't', 'r', 'b', 'l', 'x', 'y'],
+		values,
+	);
+};
+
+/**
+ * Generate inset classes for the physical sides and the `inset` shorthand.
+ * Creates classes for top, right, bottom, left, and inset, plus inset-inline(-start/-end)
+ * and inset-block(-start/-end) with the `logical` option.
+ *
+ * @param values - the values to generate classes for
+ * @param formatter - optional function to format values
+ * @param options - generation options, see `LogicalPropertyOptions`
+ */
+export const generate_inset_classes = (
+	values: Iterable<string>,
+	formatter?: (value: string) => string,
+	options?: LogicalPropertyOptions,
+): Record<string, CssClassDefinition> => {
+	const properties = [...CSS_DIRECTIONS, 'inset'];
+	if (options?.logical) {
+		properties.push(
+			'inset-inline',
+			'inset-inline-start',
+			'inset-inline-end',
+			'inset-block',
+			'inset-block-start',
+			'inset-block-end',
+		);
+	}
+
+	return generate_classes(
+		(property: string, value: string) => ({
+			name: `${format_variable_name(property)}_${format_variable_name(value)}`,
+			css: `${property}: ${formatter?.(value) ?? value};`,
+		}),
+		properties,
 		values,
 	);
 };
 
 /**
  * Generate border radius corner classes for all four corners.
- * Creates classes for top-left, top-right, bottom-left, bottom-right corners.
+ * Creates classes for top-left, top-right, bottom-left, bottom-right corners,
+ * plus start-start, start-end, end-start, end-end corners with the `logical` option.
  *
  * @param values - the values to generate classes for
  * @param formatter - optional function to format values
+ * @param options - generation options, see `LogicalPropertyOptions`
  */
 export const generate_border_radius_corners = (
 	values: Iterable<string>,
 	formatter?: (value: string) => string,
+	options?: LogicalPropertyOptions,
 ): Record<string, CssClassDefinition> => {
 	const corners = [
 		{prop: 'border-top-left-radius', name: 'border_top_left_radius'},
@@ -205,6 +269,14 @@ export const generate_border_radius_corners = (
 		{prop: 'border-bottom-left-radius', name: 'border_bottom_left_radius'},
 		{prop: 'border-bottom-right-radius', name: 'border_bottom_right_radius'},
 	];
+	if (options?.logical) {
+		corners.push(
+			{prop: 'border-start-start-radius', name: 'border_start_start_radius'},
+			{prop: 'border-start-end-radius', name: 'border_start_end_radius'},
+			{prop: 'border-end-start-radius', name: 'border_end_start_radius'},
+			{prop: 'border-end-end-radius', name: 'border_end_end_radius'},
+		);
+	}
 
 	return generate_classes(
 		(corner: (typeof corners)[0], value: string) => ({
@@ -1,17 +1,24 @@
-import {escape_css_selector, type CssClassDefinitionInterpreter} from './css_class_generation.ts';
+import {
+	escape_css_selector,
+	type CssClassDefinitionInterpreter,
+	type CssClassInterpreterContext,
+} from './css_class_generation.ts';
+import type {InterpreterDiagnostic} from './diagnostics.ts';
 import {
 	is_possible_css_literal,
 	interpret_css_literal,
 	generate_css_literal_simple,
 	extract_segments,
 	extract_and_validate_modifiers,
+	generate_relational_prefix,
 	type CssLiteralOutput,
 } from './css_literal.ts';
 import {generate_modified_ruleset} from './css_ruleset_parser.ts';
 import {resolve_class_definition} from './css_class_resolution.ts';
 
 /**
- * Interpreter for modified token/composite classes (e.g., `hover:p_md`, `md:box`, `dark:hover:panel`).
+ * Interpreter for modified token/composite classes
+ * (e.g., `hover:p_md`, `md:box`, `dark:hover:panel`, `group-hover:opacity_100`).
  * Applies modifiers to existing declaration-based or ruleset-based classes.
  *
  * This interpreter must run BEFORE `css_literal_interpreter` to handle cases like `hover:box`
@@ -31,10 +38,14 @@ export const modified_class_interpreter: CssClassDefinitionInterpreter = {
 		const modifier_segments = segments.slice(0, -1);
 
 		// Extract modifiers from the preceding segments
-		const result = extract_and_validate_modifiers(modifier_segments, class_name);
+		const result = extract_and_validate_modifiers(modifier_segments, class_name, ctx.modifiers);
 
 		if (!result.ok) {
-			// Modifier validation error - let css_literal_interpreter try
+			// Ordering errors on known classes can be fixed automatically, so report them;
+			// otherwise let css_literal_interpreter try
+			if (result.error.fix && ctx.class_definitions[base_class_name]) {
+				ctx.diagnostics.push(result.error);
+			}
 			return null;
 		}
 
@@ -45,17 +56,27 @@ export const modified_class_interpreter: CssClassDefinitionInterpreter = {
 			return null;
 		}
 
-		// Check if the base class is known
-		const base_class = ctx.class_definitions[base_class_name];
+		// Check if the base class is known, including color classes with an alpha suffix
+		let base_class = ctx.class_definitions[base_class_name];
 		if (!base_class) {
-			return null;
+			const alpha_result = resolve_alpha_class(base_class_name, ctx);
+			if (!alpha_result?.ok) {
+				return null;
+			}
+			base_class = {declaration: alpha_result.declaration};
 		}
 
 		// Must have at least one modifier (otherwise it's just the base class)
 		const has_modifiers =
 			modifiers.media ||
+			modifiers.container ||
+			modifiers.supports ||
 			modifiers.ancestor ||
+			modifiers.at_rule ||
+			modifiers.group ||
+			modifiers.peer ||
 			modifiers.states.length > 0 ||
+			modifiers.selector ||
 			modifiers.pseudo_element;
 		if (!has_modifiers) {
 			return null;
@@ -68,7 +89,9 @@ export const modified_class_interpreter: CssClassDefinitionInterpreter = {
 		for (const state of modifiers.states) {
 			state_css += state.css;
 		}
+		const selector_css = modifiers.selector?.css ?? '';
 		const pseudo_element_css = modifiers.pseudo_element?.css ?? '';
+		const relational_prefix = generate_relational_prefix(modifiers.group, modifiers.peer);
 
 		// Handle composes-based or declaration-based definitions
 		if ('composes' in base_class || 'declaration' in base_class) {
@@ -77,6 +100,7 @@ export const modified_class_interpreter: CssClassDefinitionInterpreter = {
 				base_class_name,
 				ctx.class_definitions,
 				ctx.css_properties,
+				ctx.modifiers,
 			);
 			if (!resolution_result.ok) {
 				ctx.diagnostics.push(resolution_result.error);
@@ -93,8 +117,9 @@ export const modified_class_interpreter: CssClassDefinitionInterpreter = {
 			}
 
 			// Build the selector
-			let selector = `.${escaped_class_name}`;
+			let selector = `${relational_prefix}.${escaped_class_name}`;
 			selector += state_css;
+			if (selector_css) selector += ` ${selector_css}`;
 			selector += pseudo_element_css;
 
 			// Create output compatible with generate_css_literal_simple
@@ -102,7 +127,11 @@ export const modified_class_interpreter: CssClassDefinitionInterpreter = {
 				declaration: resolution_result.declaration,
 				selector,
 				media_wrapper: modifiers.media?.css ?? null,
+				container_wrapper: modifiers.container?.css ?? null,
+				supports_wrapper: modifiers.supports?.css ?? null,
 				ancestor_wrapper: modifiers.ancestor?.css ?? null,
+				ancestor_alternative: modifiers.ancestor?.alternative ?? null,
+				at_rule_wrapper: modifiers.at_rule?.css ?? null,
 			};
 
 			const css = generate_css_literal_simple(output);
@@ -115,10 +144,18 @@ export const modified_class_interpreter: CssClassDefinitionInterpreter = {
 				base_class.ruleset,
 				base_class_name,
 				escaped_class_name,
-				state_css,
-				pseudo_element_css,
-				modifiers.media?.css ?? null,
-				modifiers.ancestor?.css ?? null,
+				{
+					state_css,
+					pseudo_element_css,
+					relational_prefix,
+					selector_css,
+					media_wrapper: modifiers.media?.css ?? null,
+					container_wrapper: modifiers.container?.css ?? null,
+					supports_wrapper: modifiers.supports?.css ?? null,
+					ancestor_wrapper: modifiers.ancestor?.css ?? null,
+					ancestor_alternative: modifiers.ancestor?.alternative ?? null,
+					at_rule_wrapper: modifiers.at_rule?.css ?? null,
+				},
 			);
 
 			// Emit warnings for skipped modifiers
@@ -153,6 +190,121 @@ export const modified_class_interpreter: CssClassDefinitionInterpreter = {
 	},
 };
 
+/**
+ * Matches classes with an alpha suffix, like `bg_a_50/30`.
+ */
+const ALPHA_CLASS_PATTERN = /^([^:/]+)\/(\d{1,3})$/;
+
+/**
+ * Matches properties that take a color, like `background-color` and `--text_color`.
+ */
+const COLOR_PROPERTY_PATTERN = /(?:^|[-_])color$|^(?:fill|stroke)$/;
+
+/**
+ * Result from resolving a color class with an alpha suffix.
+ */
+export type ResolveAlphaClassResult =
+	{ok: true; declaration: string} | {ok: false; error: InterpreterDiagnostic};
+
+/**
+ * Resolves a color token class with an alpha suffix, like `bg_a_50/30`,
+ * by mixing the variables of the base class definition with `transparent`.
+ * Only declarations of color properties whose values are `var()` references are mixed,
+ * so the output keeps the variable references for dependency tracking.
+ *
+ * @example
+ * ```ts
+ * resolve_alpha_class('bg_a_50/30', ctx)
+ * // {ok: true, declaration: 'background-color: color-mix(in hsl, var(--color_a_50) 30%, transparent);'}
+ * ```
+ *
+ * @param class_name - the class name with an alpha suffix
+ * @param ctx - the interpreter context with the class definitions
+ * @returns the mixed declaration, an error if the alpha is out of range
+ * or the base class has no color variables, or null if the class name has no alpha suffix or the base class is unknown
+ */
+export const resolve_alpha_class = (
+	class_name: string,
+	ctx: CssClassInterpreterContext,
+): ResolveAlphaClassResult | null => {
+	const matched = ALPHA_CLASS_PATTERN.exec(class_name);
+	if (!matched) return null;
+	const [, base_class_name, alpha] = matched;
+	const base_class = ctx.class_definitions[base_class_name!];
+	if (!base_class || !('declaration' in base_class || 'composes' in base_class)) return null;
+
+	if (Number(alpha) > 100) {
+		return {
+			ok: false,
+			error: {
+				level: 'error',
+				identifier: class_name,
+				message: `Invalid alpha "${alpha}" in "${class_name}": expected a percentage from 0 to 100`,
+				suggestion: null,
+			},
+		};
+	}
+
+	const resolution_result = resolve_class_definition(
+		base_class,
+		base_class_name!,
+		ctx.class_definitions,
+		ctx.css_properties,
+		ctx.modifiers,
+	);
+	if (!resolution_result.ok) return resolution_result;
+
+	let mixed = false;
+	const declarations: Array<string> = [];
+	for (const part of resolution_result.declaration.split(';')) {
+		const declaration = part.trim();
+		if (!declaration) continue;
+		const colon_index = declaration.indexOf(':');
+		const property = declaration.slice(0, colon_index).trim();
+		const value = declaration.slice(colon_index + 1).trim();
+		if (colon_index !== -1 && COLOR_PROPERTY_PATTERN.test(property) && value.startsWith('var(')) {
+			declarations.push(`${property}: color-mix(in hsl, ${value} ${alpha}%, transparent);`);
+			mixed = true;
+		} else {
+			declarations.push(`${declaration};`);
+		}
+	}
+
+	if (!mixed) {
+		return {
+			ok: false,
+			error: {
+				level: 'error',
+				identifier: class_name,
+				message: `Class "${base_class_name}" has no color variable to apply alpha to`,
+				suggestion: 'Alpha suffixes like "/30" work with color classes like "bg_a_50/30"',
+			},
+		};
+	}
+
+	return {ok: true, declaration: declarations.join(' ')};
+};
+
+/**
+ * Interpreter for color token classes with an alpha suffix
+ * (e.g., `bg_a_50/30`, `color_b_60/80`, `border_color_a_50/50`).
+ * Modified forms like `hover:bg_a_50/30` are handled by `modified_class_interpreter`.
+ */
+export const alpha_class_interpreter: CssClassDefinitionInterpreter = {
+	pattern: ALPHA_CLASS_PATTERN,
+	interpret: (matched, ctx) => {
+		const result = resolve_alpha_class(matched[0], ctx);
+		if (!result) {
+			return null;
+		}
+		if (!result.ok) {
+			ctx.diagnostics.push(result.error);
+			return null;
+		}
+		return result.declaration;
+	},
+};
+
 /**
  * Interpreter for CSS-literal classes (e.g., `display:flex`, `hover:opacity:80%`).
  * Generates full CSS rulesets including any modifier wrappers.
@@ -167,7 +319,14 @@ export const css_literal_interpreter: CssClassDefinitionInterpreter = {
 		}
 
 		const escaped_class_name = escape_css_selector(class_name);
-		const result = interpret_css_literal(class_name, escaped_class_name, ctx.css_properties);
+		const result = interpret_css_literal(
+			class_name,
+			escaped_class_name,
+			ctx.css_properties,
+			ctx.modifiers,
+			ctx.variable_graph,
+			ctx.css_value_index,
+		);
 
 		if (!result.ok) {
 			ctx.diagnostics.push(result.error);
@@ -191,10 +350,11 @@ export const css_literal_interpreter: CssClassDefinitionInterpreter = {
 
 /**
  * Collection of all builtin interpreters for dynamic CSS class generation.
- * Order matters: `modified_class_interpreter` runs first to handle `hover:box` before
+ * Order matters: `modified_class_interpreter` runs to handle `hover:box` before
  * `css_literal_interpreter` tries to interpret it as `hover:box` (property:value).
  */
 export const css_class_interpreters: Array<CssClassDefinitionInterpreter> = [
+	alpha_class_interpreter,
 	modified_class_interpreter,
 	css_literal_interpreter,
 ];
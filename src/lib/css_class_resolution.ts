@@ -18,6 +18,7 @@ import {
 	has_extracted_modifiers,
 	suggest_modifier,
 } from './css_literal.ts';
+import {default_modifier_index, type ModifierIndex} from './modifiers.ts';
 
 /**
  * Result from resolving a `composes` array to combined declarations.
@@ -37,6 +38,7 @@ export type ResolveComposesResult =
  * @param class_name - the name of the class being resolved (for error messages)
  * @param definitions - record of all known class definitions
  * @param css_properties - set of valid CSS properties for literal validation, or null to skip
+ * @param modifiers - the modifier index for detecting modified classes in `composes`
  * @returns combined declaration or an error
  */
 export const resolve_class_definition = (
@@ -44,6 +46,7 @@ export const resolve_class_definition = (
 	class_name: string,
 	definitions: Record<string, CssClassDefinition | undefined>,
 	css_properties: Set<string> | null = null,
+	modifiers: ModifierIndex = default_modifier_index,
 ): ResolveComposesResult => {
 	let warnings: Array<InterpreterDiagnostic> | null = null;
 
@@ -56,6 +59,7 @@ export const resolve_class_definition = (
 			new Set(),
 			class_name,
 			css_properties,
+			modifiers,
 		);
 		if (!result.ok) return result;
 
@@ -119,6 +123,7 @@ export const resolve_class_definition = (
  * @param visited - set of all class names already resolved (for deduplication)
  * @param original_class_name - the class name being defined (for error messages)
  * @param css_properties - set of valid CSS properties for literal validation, or null to skip
+ * @param modifiers - the modifier index for detecting modified classes
  * @returns combined declarations or an error
  * @mutates `resolution_stack` - temporarily adds/removes names during recursion
  * @mutates `visited` - adds resolved class names for deduplication
@@ -130,6 +135,7 @@ export const resolve_composes = (
 	visited: Set<string>,
 	original_class_name: string,
 	css_properties: Set<string> | null = null,
+	modifiers: ModifierIndex = default_modifier_index,
 ): ResolveComposesResult => {
 	const declarations: Array<string> = [];
 	let warnings: Array<InterpreterDiagnostic> | null = null;
@@ -172,7 +178,7 @@ export const resolve_composes = (
 			// Check if this looks like a modified class (hover:box, md:p_lg)
 			const segments = extract_segments(name);
 			if (segments.length >= 2) {
-				const mod_result = extract_and_validate_modifiers(segments, name);
+				const mod_result = extract_and_validate_modifiers(segments, name, modifiers);
 				if (
 					mod_result.ok &&
 					mod_result.remaining.length === 1 &&
@@ -207,7 +213,12 @@ export const resolve_composes = (
 			}
 
 			// Try parsing as CSS literal
-			const literal_result = try_resolve_literal(name, css_properties, original_class_name);
+			const literal_result = try_resolve_literal(
+				name,
+				css_properties,
+				original_class_name,
+				modifiers,
+			);
 			if (literal_result.ok) {
 				visited.add(name);
 				declarations.push(literal_result.declaration);
@@ -224,7 +235,7 @@ export const resolve_composes = (
 				const prop_match = /Unknown CSS property "([^"]+)"/.exec(literal_result.error.message);
 				if (prop_match) {
 					const failed_prop = prop_match[1]!;
-					const suggested = suggest_modifier(failed_prop);
+					const suggested = suggest_modifier(failed_prop, modifiers);
 					// Only suggest if it's a close typo (edit distance 1)
 					if (suggested && levenshtein_distance(failed_prop, suggested) === 1) {
 						// Check if the last segment is a known class
@@ -301,6 +312,7 @@ export const resolve_composes = (
 				visited,
 				original_class_name,
 				css_properties,
+				modifiers,
 			);
 			resolution_stack.delete(name);
 			if (!nested.ok) return nested; // Propagate error
@@ -9,6 +9,18 @@
 
 import type {SourceLocation, ExtractionDiagnostic} from './diagnostics.ts';
 import type {ExtractionData} from './css_class_extractor.ts';
+import type {CssClassDefinition} from './css_class_generation.ts';
+import {
+	create_class_matcher,
+	expand_class_pattern,
+	is_class_pattern,
+	type ClassMatcher,
+} from './class_patterns.ts';
+
+/**
+ * Default maximum number of classes a dynamic template like `p_${size}` can expand to.
+ */
+export const DEFAULT_TEMPLATE_CLASS_LIMIT = 100;
 
 /**
  * Collection of CSS classes extracted from source files.
@@ -18,7 +30,9 @@ import type {ExtractionData} from './css_class_extractor.ts';
  */
 export class CssClasses {
 	#additional_classes: Set<string> | null;
-	#exclude_classes: Set<string> | null;
+	#exclude: ClassMatcher | null;
+	#class_definitions: Record<string, CssClassDefinition | undefined> | null;
+	#template_class_limit: number;
 
 	#all: Set<string> = new Set();
 
@@ -36,9 +50,15 @@ export class CssClasses {
 	/** Aggregated explicit classes (from extraction + `additional_classes`, minus `exclude_classes`) */
 	#explicit: Set<string> | null = null;
 
+	/** Class patterns from dynamic templates by file id */
+	#class_patterns_by_id: Map<string, Map<string, Array<SourceLocation>>> = new Map();
+
 	/** Diagnostics stored per-file so they're replaced when a file is updated */
 	#diagnostics_by_id: Map<string, Array<ExtractionDiagnostic>> = new Map();
 
+	/** Diagnostics for class patterns that expand past the limit */
+	#template_diagnostics: Array<ExtractionDiagnostic> = [];
+
 	/** HTML elements by file id */
 	#elements_by_id: Map<string, Set<string>> = new Map();
 
@@ -63,14 +83,22 @@ export class CssClasses {
 	 * Creates a new `CssClasses` collection.
 	 *
 	 * @param additional_classes - classes to always include (also treated as explicit for warnings)
-	 * @param exclude_classes - classes to exclude from output (also suppresses warnings)
+	 * @param exclude_classes - classes, patterns, and regexps to exclude from output
+	 * (also suppresses warnings)
+	 * @param class_definitions - definitions to expand explicit class patterns
+	 * and dynamic templates against, or null to keep patterns as-is and skip templates
+	 * @param template_class_limit - maximum number of classes a dynamic template can expand to
 	 */
 	constructor(
 		additional_classes: Set<string> | null = null,
-		exclude_classes: Set<string> | null = null,
+		exclude_classes: Iterable<string | RegExp> | null = null,
+		class_definitions: Record<string, CssClassDefinition | undefined> | null = null,
+		template_class_limit = DEFAULT_TEMPLATE_CLASS_LIMIT,
 	) {
 		this.#additional_classes = additional_classes;
-		this.#exclude_classes = exclude_classes;
+		this.#exclude = exclude_classes ? create_class_matcher(exclude_classes) : null;
+		this.#class_definitions = class_definitions;
+		this.#template_class_limit = template_class_limit;
 	}
 
 	/**
@@ -92,6 +120,11 @@ export class CssClasses {
 		} else {
 			this.#explicit_by_id.delete(id);
 		}
+		if (data.class_patterns) {
+			this.#class_patterns_by_id.set(id, data.class_patterns);
+		} else {
+			this.#class_patterns_by_id.delete(id);
+		}
 		if (data.diagnostics) {
 			this.#diagnostics_by_id.set(id, data.diagnostics);
 		} else {
@@ -119,6 +152,7 @@ export class CssClasses {
 		this.#dirty = true;
 		this.#by_id.delete(id);
 		this.#explicit_by_id.delete(id);
+		this.#class_patterns_by_id.delete(id);
 		this.#diagnostics_by_id.delete(id);
 		this.#elements_by_id.delete(id);
 		this.#explicit_elements_by_id.delete(id);
@@ -178,13 +212,19 @@ export class CssClasses {
 	}
 
 	/**
-	 * Gets all extraction diagnostics from all files.
+	 * Gets all extraction diagnostics from all files,
+	 * including warnings for dynamic templates that expand past the limit.
 	 */
 	get_diagnostics(): Array<ExtractionDiagnostic> {
+		if (this.#dirty) {
+			this.#dirty = false;
+			this.#recalculate();
+		}
 		const result: Array<ExtractionDiagnostic> = [];
 		for (const diagnostics of this.#diagnostics_by_id.values()) {
 			result.push(...diagnostics);
 		}
+		result.push(...this.#template_diagnostics);
 		return result;
 	}
 
@@ -196,43 +236,60 @@ export class CssClasses {
 		this.#all_elements.clear();
 		this.#explicit_elements = null;
 		this.#explicit_variables = null;
+		this.#template_diagnostics = [];
 
-		const exclude = this.#exclude_classes;
+		const exclude = this.#exclude;
 
 		// Add additional_classes first (with null locations - no source)
 		if (this.#additional_classes) {
-			for (const c of this.#additional_classes) {
-				if (exclude?.has(c)) continue;
-				this.#all.add(c);
-				this.#all_with_locations_including_includes.set(c, null);
-				// additional_classes are also explicit (user explicitly wants them)
-				(this.#explicit ??= new Set()).add(c);
+			for (const pattern of this.#additional_classes) {
+				for (const c of this.#expand(pattern)) {
+					if (exclude?.(c)) continue;
+					this.#all.add(c);
+					this.#all_with_locations_including_includes.set(c, null);
+					// additional_classes are also explicit (user explicitly wants them)
+					(this.#explicit ??= new Set()).add(c);
+				}
 			}
 		}
 
-		// Aggregate from all files
-		for (const classes of this.#by_id.values()) {
-			for (const [cls, locations] of classes) {
-				if (exclude?.has(cls)) continue;
-				this.#all.add(cls);
-				const existing = this.#all_with_locations.get(cls);
-				if (existing) {
-					existing.push(...locations);
-				} else {
-					this.#all_with_locations.set(cls, [...locations]);
-				}
-				// Add to combined map only if not already from additional_classes
-				if (!this.#all_with_locations_including_includes.has(cls)) {
-					this.#all_with_locations_including_includes.set(cls, this.#all_with_locations.get(cls)!);
+		// Aggregate from all files, expanding `@fuz-classes` patterns
+		for (const [id, classes] of this.#by_id) {
+			const explicit = this.#explicit_by_id.get(id);
+			for (const [pattern, locations] of classes) {
+				const expanded = explicit?.has(pattern) ? this.#expand(pattern) : [pattern];
+				this.#add_located(expanded, locations);
+			}
+		}
+
+		// Expand class patterns from dynamic templates like `p_${size}`
+		if (this.#class_definitions) {
+			for (const class_patterns of this.#class_patterns_by_id.values()) {
+				for (const [pattern, locations] of class_patterns) {
+					const expanded = expand_class_pattern(pattern, this.#class_definitions);
+					if (expanded.length > this.#template_class_limit) {
+						this.#template_diagnostics.push({
+							phase: 'extraction',
+							level: 'warning',
+							message: `Dynamic class "${pattern}" matches ${expanded.length} classes, more than the limit of ${this.#template_class_limit}, so none are included`,
+							suggestion:
+								'Narrow the value with a literal union type or a const array, list the classes with @fuz-classes, or raise template_class_limit',
+							location: locations[0]!,
+						});
+						continue;
+					}
+					this.#add_located(expanded, locations);
 				}
 			}
 		}
 
 		// Aggregate explicit classes from all files (minus excludes)
 		for (const explicit of this.#explicit_by_id.values()) {
-			for (const cls of explicit) {
-				if (exclude?.has(cls)) continue;
-				(this.#explicit ??= new Set()).add(cls);
+			for (const pattern of explicit) {
+				for (const cls of this.#expand(pattern)) {
+					if (exclude?.(cls)) continue;
+					(this.#explicit ??= new Set()).add(cls);
+				}
 			}
 		}
 
@@ -257,4 +314,35 @@ export class CssClasses {
 			}
 		}
 	}
+
+	/**
+	 * Adds detected classes with their source locations, skipping excluded ones.
+	 */
+	#add_located(class_names: Array<string>, locations: Array<SourceLocation>): void {
+		const exclude = this.#exclude;
+		for (const cls of class_names) {
+			if (exclude?.(cls)) continue;
+			this.#all.add(cls);
+			const existing = this.#all_with_locations.get(cls);
+			if (existing) {
+				existing.push(...locations);
+			} else {
+				this.#all_with_locations.set(cls, [...locations]);
+			}
+			// Add to combined map only if not already from additional_classes
+			if (!this.#all_with_locations_including_includes.has(cls)) {
+				this.#all_with_locations_including_includes.set(cls, this.#all_with_locations.get(cls)!);
+			}
+		}
+	}
+
+	/**
+	 * Expands an explicit class pattern against the class definitions.
+	 * Patterns that match nothing are kept as-is so generation reports them.
+	 */
+	#expand(pattern: string): Array<string> {
+		if (!this.#class_definitions || !is_class_pattern(pattern)) return [pattern];
+		const expanded = expand_class_pattern(pattern, this.#class_definitions);
+		return expanded.length > 0 ? expanded : [pattern];
+	}
 }
@@ -0,0 +1,115 @@
+/**
+ * Custom extractors for template languages without built-in support,
+ * like Handlebars, Nunjucks, Liquid, or Go templates.
+ *
+ * Extractors are registered by extension or matcher in the `extractors` option
+ * and take precedence over the built-in extractors.
+ * Use `create_extraction_context` from `css_class_extractor.ts` to build results,
+ * and `scan_html` from `html_scanner.ts` for HTML-like templates.
+ *
+ * @example
+ * ```ts
+ * import {create_extraction_context} from '@fuzdev/fuz_css/css_class_extractor.js';
+ * import {scan_html} from '@fuzdev/fuz_css/html_scanner.js';
+ *
+ * const extract_handlebars: CssExtractor = (source, file) => {
+ * 	const ctx = create_extraction_context(source, file);
+ * 	for (const node of scan_html(source)) {
+ * 		if (node.type === 'comment') {
+ * 			ctx.process_fuz_comment(node.data, node.start);
+ * 			continue;
+ * 		}
+ * 		ctx.add_element(node.name);
+ * 		const attr = node.attributes.find((a) => a.name === 'class');
+ * 		if (attr?.value) ctx.add_class_list(attr.value, attr.value_start);
+ * 	}
+ * 	return ctx.finish();
+ * };
+ *
+ * vite_plugin_fuz_css({extractors: {'.hbs': extract_handlebars}});
+ * ```
+ *
+ * @module
+ */
+
+import type {ExtractionResult} from './css_class_extractor.ts';
+
+/**
+ * Extracts classes, elements, and diagnostics from a source file.
+ *
+ * @param source - the file source code
+ * @param file - file path for locations and diagnostics
+ */
+export type CssExtractor = (source: string, file: string) => ExtractionResult;
+
+/**
+ * Selects the files for an extractor: a string suffix like `.hbs` or `.html.njk`,
+ * a regexp tested against the path, or a function.
+ */
+export type CssExtractorMatcher = string | RegExp | ((path: string) => boolean);
+
+/**
+ * Custom extractors by extension, or by matcher as a `Map` or array of entries.
+ * The first match wins.
+ *
+ * @example
+ * ```ts
+ * const by_extension: CssExtractors = {'.hbs': extract_handlebars, '.liquid': extract_liquid};
+ * const by_matcher: CssExtractors = [[/\.go\.?html$/, extract_go_template]];
+ * ```
+ */
+export type CssExtractors =
+	Record<string, CssExtractor> | Iterable<readonly [CssExtractorMatcher, CssExtractor]>;
+
+/**
+ * Normalizes custom extractors to entries in match order.
+ */
+export const to_extractor_entries = (
+	extractors: CssExtractors,
+): Array<readonly [CssExtractorMatcher, CssExtractor]> =>
+	Symbol.iterator in extractors
+		? Array.from(extractors as Iterable<readonly [CssExtractorMatcher, CssExtractor]>)
+		: Object.entries(extractors);
+
+/**
+ * Finds the custom extractor for a path.
+ *
+ * @returns the first matching extractor, or null if none match
+ */
+export const find_extractor = (
+	path: string,
+	extractors: CssExtractors | null | undefined,
+): CssExtractor | null => {
+	if (!extractors) return null;
+	for (const [matcher, extractor] of to_extractor_entries(extractors)) {
+		if (match_path(matcher, path)) return extractor;
+	}
+	return null;
+};
+
+/**
+ * Creates a stable string for custom extractors, for cache keys.
+ * Functions are identified by their source, so changes to an extractor's code
+ * invalidate the cache, but changes to values it closes over don't.
+ *
+ * @returns the fingerprint, or null if there are no extractors
+ */
+export const to_extractors_fingerprint = (
+	extractors: CssExtractors | null | undefined,
+): string | null => {
+	if (!extractors) return null;
+	const entries = to_extractor_entries(extractors);
+	if (!entries.length) return null;
+	return entries
+		.map(([matcher, extractor]) => `${matcher.toString()}=>${extractor.toString()}`)
+		.join('\n');
+};
+
+const match_path = (matcher: CssExtractorMatcher, path: string): boolean => {
+	if (typeof matcher === 'string') return path.endsWith(matcher);
+	if (matcher instanceof RegExp) {
+		matcher.lastIndex = 0; // ignore the state of global regexps
+		return matcher.test(path);
+	}
+	return matcher(path);
+};
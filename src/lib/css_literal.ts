@@ -6,6 +6,11 @@
  * - `display:flex` → `.display\:flex { display: flex; }`
  * - `hover:opacity:80%` → `.hover\:opacity\:80\%:hover { opacity: 80%; }`
  * - `md:dark:hover:before:opacity:80%` → nested CSS with media query, ancestor, state, pseudo-element
+ * - `group-hover:opacity:100%` → `.group:hover .group-hover\:opacity\:100\%` selector
+ * - `children:margin:0` → `.children\:margin\:0 > *` selector
+ * - `cq-md:display:grid` → `@container (width >= 48rem)` wrapper
+ * - `supports(display:grid):display:grid` → `@supports (display:grid)` wrapper
+ * - `starting:opacity:0` → `@starting-style` wrapper
  *
  * @see {@link https://github.com/fuzdev/fuz_css} for documentation
  * @module
@@ -13,8 +18,20 @@
 
 import {levenshtein_distance} from '@fuzdev/fuz_util/string.ts';
 
-import {type InterpreterDiagnostic} from './diagnostics.ts';
-import {get_modifier, get_all_modifier_names, type ModifierDefinition} from './modifiers.ts';
+import {type DiagnosticFix, type InterpreterDiagnostic} from './diagnostics.ts';
+import {
+	get_modifier,
+	get_all_modifier_names,
+	compare_media_modifiers,
+	find_media_conflict,
+	combine_media_modifiers,
+	default_modifier_index,
+	type ModifierDefinition,
+	type ModifierIndex,
+	type ModifierType,
+} from './modifiers.ts';
+import {find_similar_variable, type VariableDependencyGraph} from './variable_graph.ts';
+import {find_invalid_css_value_token, type CssValueIndex} from './css_value_validation.ts';
 
 //
 // Types
@@ -28,12 +45,39 @@ export interface ParsedCssLiteral {
 	class_name: string;
 	/** Media modifier (breakpoint or feature query) */
 	media: ModifierDefinition | null;
+	/** Container modifier (container query) */
+	container: ModifierDefinition | null;
+	/** Supports modifier (feature query) */
+	supports: ModifierDefinition | null;
 	/** Ancestor modifier (dark/light) */
 	ancestor: ModifierDefinition | null;
+	/** At-rule modifier (`starting:` for `@starting-style`) */
+	at_rule: ModifierDefinition | null;
+	/** Group modifier (state of a `.group` ancestor) */
+	group: ModifierDefinition | null;
+	/** Peer modifier (state of a preceding `.peer` sibling) */
+	peer: ModifierDefinition | null;
 	/** State modifiers in alphabetical order (can have multiple) */
 	states: Array<ModifierDefinition>;
+	/** Selector modifier (children, descendants, `sel(...)`) */
+	selector: ModifierDefinition | null;
 	/** Pseudo-element modifier (before, after, etc.) */
 	pseudo_element: ModifierDefinition | null;
+	/** CSS property name, the first of `declarations` for multi-declaration literals */
+	property: string;
+	/** CSS value (with ~ replaced by spaces), the first of `declarations` for multi-declaration literals */
+	value: string;
+	/**
+	 * All declarations in order, one for `property:value`
+	 * and several for multi-declaration literals like `[color:red;opacity:80%]`.
+	 */
+	declarations: Array<CssLiteralDeclaration>;
+}
+
+/**
+ * A single declaration of a CSS-literal class.
+ */
+export interface CssLiteralDeclaration {
 	/** CSS property name */
 	property: string;
 	/** CSS value (with ~ replaced by spaces) */
@@ -62,10 +106,22 @@ export type CssLiteralParseResult =
 export interface ExtractedModifiers {
 	/** Media modifier (breakpoint or feature query) */
 	media: ModifierDefinition | null;
+	/** Container modifier (container query) */
+	container: ModifierDefinition | null;
+	/** Supports modifier (feature query) */
+	supports: ModifierDefinition | null;
 	/** Ancestor modifier (dark/light) */
 	ancestor: ModifierDefinition | null;
+	/** At-rule modifier (`starting:` for `@starting-style`) */
+	at_rule: ModifierDefinition | null;
+	/** Group modifier (state of a `.group` ancestor) */
+	group: ModifierDefinition | null;
+	/** Peer modifier (state of a preceding `.peer` sibling) */
+	peer: ModifierDefinition | null;
 	/** State modifiers in alphabetical order (can have multiple) */
 	states: Array<ModifierDefinition>;
+	/** Selector modifier (children, descendants, `sel(...)`) */
+	selector: ModifierDefinition | null;
 	/** Pseudo-element modifier (before, after, etc.) */
 	pseudo_element: ModifierDefinition | null;
 }
@@ -149,29 +205,98 @@ export const suggest_css_property = (
 	properties: Set<string> | null,
 ): string | null => (properties ? find_closest_match(typo, properties) : null);
 
+/**
+ * Suggests a correct keyword for a mistyped value using Levenshtein distance.
+ *
+ * @param typo - the mistyped value keyword
+ * @param property - the CSS property the value is for
+ * @param index - flattened value grammars from `load_css_value_index()`
+ * @returns the suggested keyword or null if no close match (Levenshtein distance > 2)
+ */
+export const suggest_css_value = (
+	typo: string,
+	property: string,
+	index: CssValueIndex,
+): string | null => {
+	const syntax = index.get(property);
+	return syntax ? find_closest_match(typo.toLowerCase(), syntax.keywords) : null;
+};
+
 /**
  * Suggests a correct modifier name for a typo using Levenshtein distance.
  *
  * @param typo - the mistyped modifier name
+ * @param modifiers - the modifier index to suggest from
  * @returns the suggested modifier or null if no close match (Levenshtein distance > 2)
  */
-export const suggest_modifier = (typo: string): string | null =>
-	find_closest_match(typo, get_all_modifier_names());
+export const suggest_modifier = (
+	typo: string,
+	modifiers: ModifierIndex = default_modifier_index,
+): string | null => find_closest_match(typo, get_all_modifier_names(modifiers));
 
 //
 // Value Formatting
 //
 
+/**
+ * Matches quoted strings in values, used to skip them when handling `$token` shorthand.
+ */
+const QUOTED_STRING_PATTERN = /("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/;
+
+/**
+ * Matches `$token` shorthand for theme variables, capturing the variable name.
+ */
+const VARIABLE_TOKEN_PATTERN = /\$([a-zA-Z_][\w-]*)/g;
+
+/**
+ * Expands `$token` shorthand to `var(--token)`, leaving quoted strings untouched.
+ *
+ * @example
+ * ```ts
+ * expand_variable_tokens('$space_md') // 'var(--space_md)'
+ * expand_variable_tokens('1px~solid~$border_color') // '1px~solid~var(--border_color)'
+ * ```
+ *
+ * @param value - the CSS-literal value
+ * @returns the value with tokens expanded
+ */
+export const expand_variable_tokens = (value: string): string => {
+	if (!value.includes('$')) return value;
+	return value
+		.split(QUOTED_STRING_PATTERN)
+		.map((part, i) => (i % 2 === 0 ? part.replace(VARIABLE_TOKEN_PATTERN, 'var(--$1)') : part))
+		.join('');
+};
+
+/**
+ * Extracts the variable names referenced by `$token` shorthand, skipping quoted strings.
+ *
+ * @param value - the CSS-literal value
+ * @returns the variable names without the `$` prefix, in order of appearance
+ */
+export const extract_variable_tokens = (value: string): Array<string> => {
+	const names: Array<string> = [];
+	if (!value.includes('$')) return names;
+	const parts = value.split(QUOTED_STRING_PATTERN);
+	for (let i = 0; i < parts.length; i += 2) {
+		for (const match of parts[i]!.matchAll(VARIABLE_TOKEN_PATTERN)) {
+			names.push(match[1]!);
+		}
+	}
+	return names;
+};
+
 /**
  * Formats a CSS-literal value for CSS output.
  * - Replaces `~` with space
+ * - Expands `$token` shorthand to `var(--token)`
  * - Ensures space before `!important`
  *
  * @param value - raw value from class name
  * @returns formatted CSS value
  */
 export const format_css_value = (value: string): string => {
-	let result = value.replace(/~/g, ' ');
+	let result = expand_variable_tokens(value.replace(/~/g, ' '));
 	result = result.replace(/\s*!important$/, ' !important');
 	return result;
 };
@@ -227,14 +352,15 @@ export const is_possible_css_literal = (class_name: string): boolean => {
 };
 
 /**
- * Extracts colon-separated segments from a class name, handling parentheses.
- * Parenthesized content (like function arguments) is kept intact.
+ * Extracts colon-separated segments from a class name, handling parentheses and brackets.
+ * Parenthesized content (like function arguments) and bracketed declarations are kept intact.
  *
  * @example
  * ```ts
  * extract_segments('md:hover:display:flex') // → ['md', 'hover', 'display', 'flex']
  * extract_segments('nth-child(2n+1):color:red') // → ['nth-child(2n+1)', 'color', 'red']
  * extract_segments('width:calc(100%-20px)') // → ['width', 'calc(100%-20px)']
+ * extract_segments('hover:[color:red;opacity:80%]') // → ['hover', '[color:red;opacity:80%]']
  * ```
  */
 export const extract_segments = (class_name: string): Array<string> => {
@@ -243,10 +369,10 @@ export const extract_segments = (class_name: string): Array<string> => {
 	let paren_depth = 0;
 
 	for (const char of class_name) {
-		if (char === '(') {
+		if (char === '(' || char === '[') {
 			paren_depth++;
 			current += char;
-		} else if (char === ')') {
+		} else if (char === ')' || char === ']') {
 			paren_depth--;
 			current += char;
 		} else if (char === ':' && paren_depth === 0) {
@@ -266,6 +392,81 @@ export const extract_segments = (class_name: string): Array<string> => {
 	return segments;
 };
 
+/**
+ * Canonical order of modifier types in class names, with the labels used in ordering errors.
+ * Single-valued types report `duplicate` when repeated; media modifiers may repeat
+ * in canonical order (see `compare_media_modifiers`) and states in alphabetical order.
+ */
+const MODIFIER_TYPE_ORDER: Array<{
+	type: ModifierType;
+	/** Used as "{subject} must come before ..." */
+	subject: string;
+	/** Used as "... must come before {object}" */
+	object: string;
+	/** Error message for a second modifier of this type, null if repeatable */
+	duplicate: ((prev: string, segment: string) => string) | null;
+}> = [
+	{
+		type: 'media',
+		subject: 'Media modifier',
+		object: 'media modifier',
+		duplicate: null,
+	},
+	{
+		type: 'container',
+		subject: 'Container modifier',
+		object: 'container modifier',
+		duplicate: () => `Multiple container modifiers not allowed`,
+	},
+	{
+		type: 'supports',
+		subject: 'Supports modifier',
+		object: 'supports modifier',
+		duplicate: () => `Multiple supports modifiers not allowed`,
+	},
+	{
+		type: 'ancestor',
+		subject: 'Ancestor modifier',
+		object: 'ancestor modifier',
+		duplicate: (prev, segment) => `Modifiers "${prev}" and "${segment}" are mutually exclusive`,
+	},
+	{
+		type: 'at-rule',
+		subject: 'At-rule modifier',
+		object: 'at-rule modifier',
+		duplicate: () => `Multiple at-rule modifiers not allowed`,
+	},
+	{
+		type: 'group',
+		subject: 'Group modifier',
+		object: 'group modifier',
+		duplicate: () => `Multiple group modifiers not allowed`,
+	},
+	{
+		type: 'peer',
+		subject: 'Peer modifier',
+		object: 'peer modifier',
+		duplicate: () => `Multiple peer modifiers not allowed`,
+	},
+	{type: 'state', subject: 'State modifiers', object: 'state modifiers', duplicate: null},
+	{
+		type: 'selector',
+		subject: 'Selector modifier',
+		object: 'selector modifier',
+		duplicate: () => `Multiple selector modifiers not allowed`,
+	},
+	{
+		type: 'pseudo-element',
+		subject: 'Pseudo-element',
+		object: 'pseudo-element',
+		duplicate: () => `Multiple pseudo-element modifiers not allowed`,
+	},
+];
+
+const MODIFIER_TYPE_RANKS: Map<ModifierType, number> = new Map(
+	MODIFIER_TYPE_ORDER.map((t, i) => [t.type, i]),
+);
+
 /**
  * Extracts and validates modifiers from the beginning of a segments array.
  * Modifiers are consumed from the front until a non-modifier segment is found.
@@ -274,189 +475,253 @@ export const extract_segments = (class_name: string): Array<string> => {
  *
  * @param segments - array of colon-separated segments
  * @param class_name - original class name for error messages
+ * @param modifiers - the modifier index to look up modifiers in
  * @returns `ModifierExtractionResult` with modifiers and remaining segments, or error
  */
 export const extract_and_validate_modifiers = (
 	segments: Array<string>,
 	class_name: string,
+	modifiers: ModifierIndex = default_modifier_index,
 ): ModifierExtractionResult => {
-	let media: ModifierDefinition | null = null;
-	let ancestor: ModifierDefinition | null = null;
-	const states: Array<ModifierDefinition> = [];
-	let pseudo_element: ModifierDefinition | null = null;
+	const extracted: ExtractedModifiers = {
+		media: null,
+		container: null,
+		supports: null,
+		ancestor: null,
+		at_rule: null,
+		group: null,
+		peer: null,
+		states: [],
+		selector: null,
+		pseudo_element: null,
+	};
+	// All modifiers consumed so far, in class name order
+	const seen: Array<ModifierDefinition> = [];
+	// Media modifiers are combined into a single query after validation
+	const media: Array<ModifierDefinition> = [];
 
 	let i = 0;
 	for (; i < segments.length; i++) {
 		const segment = segments[i]!;
-		const modifier = get_modifier(segment);
+		const modifier = get_modifier(segment, modifiers);
 
 		// If not a modifier, stop - remaining segments are the base class/property:value
 		if (!modifier) {
 			break;
 		}
 
-		// Validate order based on modifier type
+		const rank = MODIFIER_TYPE_RANKS.get(modifier.type)!;
+		const order = MODIFIER_TYPE_ORDER[rank]!;
+
+		// Single-valued types can't repeat
+		if (order.duplicate) {
+			const prev = seen.find((m) => m.type === modifier.type);
+			if (prev) {
+				return {
+					ok: false,
+					error: {
+						level: 'error',
+						message: order.duplicate(prev.name, segment),
+						identifier: class_name,
+						suggestion: null,
+					},
+				};
+			}
+		}
+
+		// Validate order: nothing of a later type may precede this modifier
+		const later = seen.find((m) => MODIFIER_TYPE_RANKS.get(m.type)! > rank);
+		if (later) {
+			return {
+				ok: false,
+				error: {
+					level: 'error',
+					message: `${order.subject} must come before ${
+						MODIFIER_TYPE_ORDER[MODIFIER_TYPE_RANKS.get(later.type)!]!.object
+					}`,
+					identifier: class_name,
+					suggestion: `Move "${segment}" before "${later.name}"`,
+					...create_modifier_order_fix(class_name, modifiers),
+				},
+			};
+		}
+
 		switch (modifier.type) {
 			case 'media': {
-				if (media) {
-					return {
-						ok: false,
-						error: {
-							level: 'error',
-							message: `Multiple media modifiers not allowed`,
-							identifier: class_name,
-							suggestion: null,
-						},
-					};
-				}
-				if (ancestor) {
-					return {
-						ok: false,
-						error: {
-							level: 'error',
-							message: `Media modifier must come before ancestor modifier`,
-							identifier: class_name,
-							suggestion: `Move "${segment}" before "${ancestor.name}"`,
-						},
-					};
-				}
-				if (states.length > 0) {
-					return {
-						ok: false,
-						error: {
-							level: 'error',
-							message: `Media modifier must come before state modifiers`,
-							identifier: class_name,
-							suggestion: `Move "${segment}" before "${states[0]!.name}"`,
-						},
-					};
+				for (const prev of media) {
+					const conflict = find_media_conflict(prev, modifier);
+					if (conflict) {
+						return {
+							ok: false,
+							error: {
+								level: 'error',
+								message: conflict,
+								identifier: class_name,
+								suggestion: `Use only one of "${prev.name}" or "${segment}"`,
+							},
+						};
+					}
 				}
-				if (pseudo_element) {
+				const prev = media.at(-1);
+				if (prev && compare_media_modifiers(prev, modifier) > 0) {
 					return {
 						ok: false,
 						error: {
 							level: 'error',
-							message: `Media modifier must come before pseudo-element`,
+							message: `Media modifiers must be in canonical order: "${prev.name}:${
+								segment
+							}" should be "${segment}:${prev.name}"`,
 							identifier: class_name,
-							suggestion: `Move "${segment}" before "${pseudo_element.name}"`,
+							suggestion: `Reorder to: ...${segment}:${prev.name}:...`,
+							...create_modifier_order_fix(class_name, modifiers),
 						},
 					};
 				}
-				media = modifier;
+				media.push(modifier);
 				break;
 			}
-
-			case 'ancestor': {
-				if (ancestor) {
-					return {
-						ok: false,
-						error: {
-							level: 'error',
-							message: `Modifiers "${ancestor.name}" and "${segment}" are mutually exclusive`,
-							identifier: class_name,
-							suggestion: null,
-						},
-					};
-				}
-				if (states.length > 0) {
-					return {
-						ok: false,
-						error: {
-							level: 'error',
-							message: `Ancestor modifier must come before state modifiers`,
-							identifier: class_name,
-							suggestion: `Move "${segment}" before "${states[0]!.name}"`,
-						},
-					};
-				}
-				if (pseudo_element) {
-					return {
-						ok: false,
-						error: {
-							level: 'error',
-							message: `Ancestor modifier must come before pseudo-element`,
-							identifier: class_name,
-							suggestion: `Move "${segment}" before "${pseudo_element.name}"`,
-						},
-					};
-				}
-				ancestor = modifier;
+			case 'container':
+				extracted.container = modifier;
+				break;
+			case 'supports':
+				extracted.supports = modifier;
+				break;
+			case 'ancestor':
+				extracted.ancestor = modifier;
+				break;
+			case 'at-rule':
+				extracted.at_rule = modifier;
+				break;
+			case 'group':
+				extracted.group = modifier;
+				break;
+			case 'peer':
+				extracted.peer = modifier;
 				break;
-			}
-
 			case 'state': {
-				if (pseudo_element) {
+				// Check alphabetical order (full string comparison, including any parameter)
+				const prev = extracted.states.at(-1);
+				if (prev && segment < prev.name) {
 					return {
 						ok: false,
 						error: {
 							level: 'error',
-							message: `State modifiers must come before pseudo-element`,
+							message: `State modifiers must be in alphabetical order: "${prev.name}:${
+								segment
+							}" should be "${segment}:${prev.name}"`,
 							identifier: class_name,
-							suggestion: `Move "${segment}" before "${pseudo_element.name}"`,
+							suggestion: `Reorder to: ...${segment}:${prev.name}:...`,
+							...create_modifier_order_fix(class_name, modifiers),
 						},
 					};
 				}
-				// Check alphabetical order (full string comparison)
-				if (states.length > 0) {
-					const prev = states[states.length - 1]!;
-					if (segment < prev.name) {
-						return {
-							ok: false,
-							error: {
-								level: 'error',
-								message: `State modifiers must be in alphabetical order: "${prev.name}:${
-									segment
-								}" should be "${segment}:${prev.name}"`,
-								identifier: class_name,
-								suggestion: `Reorder to: ...${segment}:${prev.name}:...`,
-							},
-						};
-					}
-				}
-				states.push(modifier);
+				extracted.states.push(modifier);
 				break;
 			}
-
-			case 'pseudo-element': {
-				if (pseudo_element) {
-					return {
-						ok: false,
-						error: {
-							level: 'error',
-							message: `Multiple pseudo-element modifiers not allowed`,
-							identifier: class_name,
-							suggestion: null,
-						},
-					};
-				}
-				pseudo_element = modifier;
+			case 'selector':
+				extracted.selector = modifier;
+				break;
+			case 'pseudo-element':
+				extracted.pseudo_element = modifier;
 				break;
-			}
 		}
+		seen.push(modifier);
+	}
+
+	if (media.length > 0) {
+		extracted.media = combine_media_modifiers(media);
 	}
 
 	return {
 		ok: true,
-		modifiers: {media, ancestor, states, pseudo_element},
+		modifiers: extracted,
 		remaining: segments.slice(i),
 	};
 };
 
+/**
+ * Reorders the leading modifiers of a class name into canonical order:
+ * by modifier type as validated by `extract_and_validate_modifiers`,
+ * media modifiers by `compare_media_modifiers`, and states alphabetically.
+ * Only the order changes, so classes with duplicate or conflicting modifiers stay invalid.
+ *
+ * @example
+ * ```ts
+ * canonicalize_modifier_order('hover:md:p_lg') // 'md:hover:p_lg'
+ * canonicalize_modifier_order('focus:active:dark:color:red') // 'dark:active:focus:color:red'
+ * ```
+ *
+ * @param class_name - the class name to reorder
+ * @param modifiers - the modifier index to look up modifiers in
+ * @returns the class name in canonical order, or `class_name` if it already is
+ */
+export const canonicalize_modifier_order = (
+	class_name: string,
+	modifiers: ModifierIndex = default_modifier_index,
+): string => {
+	const segments = extract_segments(class_name);
+	const found: Array<{segment: string; modifier: ModifierDefinition}> = [];
+	// The last segment is the base class or the value, never a modifier
+	for (let i = 0; i < segments.length - 1; i++) {
+		const segment = segments[i]!;
+		const modifier = get_modifier(segment, modifiers);
+		if (!modifier) break;
+		found.push({segment, modifier});
+	}
+	if (found.length < 2) return class_name;
+
+	const sorted = [...found].sort((a, b) => {
+		const rank_diff =
+			MODIFIER_TYPE_RANKS.get(a.modifier.type)! - MODIFIER_TYPE_RANKS.get(b.modifier.type)!;
+		if (rank_diff !== 0) return rank_diff;
+		if (a.modifier.type === 'media') return compare_media_modifiers(a.modifier, b.modifier);
+		if (a.modifier.type === 'state') {
+			return a.segment < b.segment ? -1 : a.segment > b.segment ? 1 : 0;
+		}
+		return 0;
+	});
+	if (sorted.every((entry, i) => entry === found[i])) return class_name;
+
+	return [...sorted.map((entry) => entry.segment), ...segments.slice(found.length)].join(':');
+};
+
+/**
+ * Creates the quick-fix for a modifier ordering error, empty if reordering doesn't change it.
+ */
+const create_modifier_order_fix = (
+	class_name: string,
+	modifiers: ModifierIndex,
+): {fix?: DiagnosticFix} => {
+	const replacement = canonicalize_modifier_order(class_name, modifiers);
+	if (replacement === class_name) return {};
+	return {fix: {message: `Reorder to "${replacement}"`, replacement}};
+};
+
 /**
  * Parses a CSS-literal class name into its components.
  *
  * @param class_name - the class name to parse
  * @param css_properties - Set of valid CSS properties from `load_css_properties()`
  *                         Pass `null` to skip property validation.
+ * @param modifiers - the modifier index to look up modifiers in
+ * @param variable_graph - theme variables to validate `$token` shorthand against,
+ *                         or `null` to skip validation
+ * @param css_value_index - value grammars from `load_css_value_index()`,
+ *                          mismatches are warnings. Pass `null` to skip value validation.
  * @returns `CssLiteralParseResult` with parsed data or error
  */
 export const parse_css_literal = (
 	class_name: string,
 	css_properties: Set<string> | null,
+	modifiers: ModifierIndex = default_modifier_index,
+	variable_graph: VariableDependencyGraph | null = null,
+	css_value_index: CssValueIndex | null = null,
 ): CssLiteralParseResult => {
 	const segments = extract_segments(class_name);
+	const last = segments.at(-1);
+	const is_multi_declaration = !!last && last.startsWith('[') && last.endsWith(']');
 
-	if (segments.length < 2) {
+	if (!is_multi_declaration && segments.length < 2) {
 		return {
 			ok: false,
 			error: {
@@ -468,16 +733,14 @@ export const parse_css_literal = (
 		};
 	}
 
-	// Work backwards from end to find property:value
+	// Work backwards from end to find property:value, or the bracketed declarations.
 	// Everything before that is modifiers
-	const value = segments[segments.length - 1]!;
-	const property = segments[segments.length - 2]!;
-	const modifier_segments = segments.slice(0, -2);
+	const modifier_segments = segments.slice(0, is_multi_declaration ? -1 : -2);
 
 	let diagnostics: Array<InterpreterDiagnostic> | null = null;
 
 	// Validate modifiers using shared validation logic
-	const modifier_result = extract_and_validate_modifiers(modifier_segments, class_name);
+	const modifier_result = extract_and_validate_modifiers(modifier_segments, class_name, modifiers);
 
 	if (!modifier_result.ok) {
 		return {ok: false, error: modifier_result.error};
@@ -487,7 +750,7 @@ export const parse_css_literal = (
 	// If any remain, they're unknown modifiers (since we already separated property:value)
 	if (modifier_result.remaining.length > 0) {
 		const unknown = modifier_result.remaining[0]!;
-		const suggestion = suggest_modifier(unknown);
+		const suggestion = suggest_modifier(unknown, modifiers);
 		return {
 			ok: false,
 			error: {
@@ -499,7 +762,153 @@ export const parse_css_literal = (
 		};
 	}
 
-	const {media, ancestor, states, pseudo_element} = modifier_result.modifiers;
+	const {
+		media,
+		container,
+		supports,
+		ancestor,
+		at_rule,
+		group,
+		peer,
+		states,
+		selector,
+		pseudo_element,
+	} = modifier_result.modifiers;
+
+	let raw_declarations: Array<[property: string, value: string]>;
+	if (is_multi_declaration) {
+		const result = split_multi_declaration(last.slice(1, -1), class_name);
+		if (!result.ok) return result;
+		raw_declarations = result.declarations;
+	} else {
+		raw_declarations = [[segments.at(-2)!, last!]];
+	}
+
+	const declarations: Array<CssLiteralDeclaration> = [];
+	for (const [property, value] of raw_declarations) {
+		const result = parse_declaration(
+			class_name,
+			property,
+			value,
+			css_properties,
+			variable_graph,
+			css_value_index,
+		);
+		if (!result.ok) return result;
+		declarations.push(result.declaration);
+		if (result.diagnostics) (diagnostics ??= []).push(...result.diagnostics);
+	}
+
+	return {
+		ok: true,
+		parsed: {
+			class_name,
+			media,
+			container,
+			supports,
+			ancestor,
+			at_rule,
+			group,
+			peer,
+			states,
+			selector,
+			pseudo_element,
+			property: declarations[0]!.property,
+			value: declarations[0]!.value,
+			declarations,
+		},
+		diagnostics,
+	};
+};
+
+/**
+ * Splits the bracketed content of a multi-declaration literal like `[color:red;opacity:80%]`
+ * into property/value pairs. Semicolons in parentheses and quotes are kept, and empty
+ * declarations are skipped so a trailing semicolon is fine.
+ */
+const split_multi_declaration = (
+	content: string,
+	class_name: string,
+):
+	| {ok: true; declarations: Array<[property: string, value: string]>}
+	| {ok: false; error: InterpreterDiagnostic} => {
+	const parts: Array<string> = [];
+	let current = '';
+	let depth = 0;
+	let quote: string | null = null;
+	for (const char of content) {
+		if (quote) {
+			if (char === quote) quote = null;
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === '(') {
+			depth++;
+		} else if (char === ')') {
+			depth--;
+		}
+		if (char === ';' && depth === 0 && !quote) {
+			parts.push(current);
+			current = '';
+		} else {
+			current += char;
+		}
+	}
+	parts.push(current);
+
+	const declarations: Array<[property: string, value: string]> = [];
+	for (const part of parts) {
+		if (!part) continue;
+		const segments = extract_segments(part);
+		if (segments.length !== 2) {
+			return {
+				ok: false,
+				error: {
+					level: 'error',
+					message: `Invalid declaration "${part}" in multi-declaration literal: expected "property:value" format`,
+					identifier: class_name,
+					suggestion:
+						segments.length > 2
+							? `Modifiers go before the brackets, like "hover:[color:red;opacity:80%]"`
+							: null,
+				},
+			};
+		}
+		declarations.push([segments[0]!, segments[1]!]);
+	}
+
+	if (!declarations.length) {
+		return {
+			ok: false,
+			error: {
+				level: 'error',
+				message: `Empty multi-declaration literal: expected "[property:value;...]" format`,
+				identifier: class_name,
+				suggestion: null,
+			},
+		};
+	}
+
+	return {ok: true, declarations};
+};
+
+/**
+ * Validates and formats one declaration of a CSS-literal class.
+ */
+const parse_declaration = (
+	class_name: string,
+	property: string,
+	value: string,
+	css_properties: Set<string> | null,
+	variable_graph: VariableDependencyGraph | null,
+	css_value_index: CssValueIndex | null,
+):
+	| {
+			ok: true;
+			declaration: CssLiteralDeclaration;
+			diagnostics: Array<InterpreterDiagnostic> | null;
+	  }
+	| {ok: false; error: InterpreterDiagnostic} => {
+	let diagnostics: Array<InterpreterDiagnostic> | null = null;
 
 	// Validate property
 	if (!is_valid_css_property(property, css_properties)) {
@@ -515,6 +924,25 @@ export const parse_css_literal = (
 		};
 	}
 
+	// Validate theme variable tokens
+	if (variable_graph) {
+		for (const name of extract_variable_tokens(value)) {
+			if (variable_graph.variables.has(name)) continue;
+			const similar = find_similar_variable(variable_graph, name);
+			return {
+				ok: false,
+				error: {
+					level: 'error',
+					message: `Unknown theme variable "$${name}"`,
+					identifier: class_name,
+					suggestion: similar
+						? `Did you mean "$${similar}"?`
+						: `Use var(--${name}) for variables outside the theme`,
+				},
+			};
+		}
+	}
+
 	// Format value
 	const formatted_value = format_css_value(value);
 
@@ -529,37 +957,66 @@ export const parse_css_literal = (
 		});
 	}
 
-	return {
-		ok: true,
-		parsed: {
-			class_name,
-			media,
-			ancestor,
-			states,
-			pseudo_element,
-			property,
-			value: formatted_value,
-		},
-		diagnostics,
-	};
+	// Check the value against the property's grammar
+	if (css_value_index) {
+		const invalid = find_invalid_css_value_token(property, formatted_value, css_value_index);
+		if (invalid !== null) {
+			const suggestion = suggest_css_value(invalid, property, css_value_index);
+			(diagnostics ??= []).push({
+				level: 'warning',
+				message: `Invalid value "${invalid}" for CSS property "${property}"`,
+				identifier: class_name,
+				suggestion: suggestion ? `Did you mean "${suggestion}"?` : null,
+			});
+		}
+	}
+
+	return {ok: true, declaration: {property, value: formatted_value}, diagnostics};
 };
 
 //
 // CSS Generation
 //
 
+/**
+ * Generates the selector prefix for group and peer modifiers.
+ * Group markers are ancestors (descendant combinator),
+ * peer markers are preceding siblings (subsequent-sibling combinator).
+ *
+ * @example
+ * ```ts
+ * generate_relational_prefix(group_hover, null) // '.group:hover '
+ * generate_relational_prefix(null, peer_checked) // '.peer:checked ~ '
+ * ```
+ */
+export const generate_relational_prefix = (
+	group: ModifierDefinition | null,
+	peer: ModifierDefinition | null,
+): string => {
+	let prefix = '';
+	if (group) prefix += `${group.css} `;
+	if (peer) prefix += `${peer.css} ~ `;
+	return prefix;
+};
+
 /**
  * Generates the CSS selector for a parsed CSS-literal class.
- * Includes state pseudo-classes and pseudo-element in the selector.
+ * Includes group/peer markers, state pseudo-classes, the selector modifier's
+ * combinator and compound selector, and pseudo-element in the selector.
  */
 export const generate_selector = (escaped_class_name: string, parsed: ParsedCssLiteral): string => {
-	let selector = `.${escaped_class_name}`;
+	let selector = `${generate_relational_prefix(parsed.group, parsed.peer)}.${escaped_class_name}`;
 
 	// Add state pseudo-classes
 	for (const state of parsed.states) {
 		selector += state.css;
 	}
 
+	// Add the selector modifier, targeting related elements
+	if (parsed.selector) {
+		selector += ` ${parsed.selector.css}`;
+	}
+
 	// Add pseudo-element (must come last)
 	if (parsed.pseudo_element) {
 		selector += parsed.pseudo_element.css;
@@ -569,10 +1026,10 @@ export const generate_selector = (escaped_class_name: string, parsed: ParsedCssL
 };
 
 /**
- * Generates the CSS declaration for a parsed CSS-literal class.
+ * Generates the CSS declarations for a parsed CSS-literal class.
  */
 export const generate_declaration = (parsed: ParsedCssLiteral): string => {
-	return `${parsed.property}: ${parsed.value};`;
+	return parsed.declarations.map((d) => `${d.property}: ${d.value};`).join(' ');
 };
 
 /**
@@ -585,8 +1042,16 @@ export interface CssLiteralOutput {
 	selector: string;
 	/** Media query wrapper if any */
 	media_wrapper: string | null;
+	/** Container query wrapper if any, nested inside the media wrapper */
+	container_wrapper: string | null;
+	/** Feature query wrapper if any, nested inside the container wrapper */
+	supports_wrapper: string | null;
 	/** Ancestor wrapper if any */
 	ancestor_wrapper: string | null;
+	/** Alternative ancestor wrapper chain if any, rendered as a copy of the rule */
+	ancestor_alternative: Array<string> | null;
+	/** At-rule wrapper if any, nested innermost inside the ancestor wrapper */
+	at_rule_wrapper: string | null;
 }
 
 /**
@@ -598,14 +1063,28 @@ export interface CssLiteralOutput {
  * @param escaped_class_name - the CSS-escaped version of the class name
  * @param css_properties - Set of valid CSS properties from `load_css_properties()`
  *                         Pass `null` to skip property validation.
+ * @param modifiers - the modifier index to look up modifiers in
+ * @param variable_graph - theme variables to validate `$token` shorthand against,
+ *                         or `null` to skip validation
+ * @param css_value_index - value grammars from `load_css_value_index()`,
+ *                          or `null` to skip value validation
  * @returns result with output and warnings on success, or error on failure
  */
 export const interpret_css_literal = (
 	class_name: string,
 	escaped_class_name: string,
 	css_properties: Set<string> | null,
+	modifiers: ModifierIndex = default_modifier_index,
+	variable_graph: VariableDependencyGraph | null = null,
+	css_value_index: CssValueIndex | null = null,
 ): InterpretCssLiteralResult => {
-	const result = parse_css_literal(class_name, css_properties);
+	const result = parse_css_literal(
+		class_name,
+		css_properties,
+		modifiers,
+		variable_graph,
+		css_value_index,
+	);
 
 	if (!result.ok) {
 		return {ok: false, error: result.error};
@@ -619,7 +1098,11 @@ export const interpret_css_literal = (
 			declaration: generate_declaration(parsed),
 			selector: generate_selector(escaped_class_name, parsed),
 			media_wrapper: parsed.media?.css ?? null,
+			container_wrapper: parsed.container?.css ?? null,
+			supports_wrapper: parsed.supports?.css ?? null,
 			ancestor_wrapper: parsed.ancestor?.css ?? null,
+			ancestor_alternative: parsed.ancestor?.alternative ?? null,
+			at_rule_wrapper: parsed.at_rule?.css ?? null,
 		},
 		warnings: diagnostics,
 	};
@@ -640,7 +1123,18 @@ export type LiteralResolutionResult =
  * Checks if a parsed CSS literal has any modifiers.
  */
 export const has_modifiers = (parsed: ParsedCssLiteral): boolean => {
-	return !!(parsed.media || parsed.ancestor || parsed.states.length > 0 || parsed.pseudo_element);
+	return !!(
+		parsed.media ||
+		parsed.container ||
+		parsed.supports ||
+		parsed.ancestor ||
+		parsed.at_rule ||
+		parsed.group ||
+		parsed.peer ||
+		parsed.states.length > 0 ||
+		parsed.selector ||
+		parsed.pseudo_element
+	);
 };
 
 /**
@@ -650,8 +1144,14 @@ export const has_modifiers = (parsed: ParsedCssLiteral): boolean => {
 export const has_extracted_modifiers = (modifiers: ExtractedModifiers): boolean => {
 	return !!(
 		modifiers.media ||
+		modifiers.container ||
+		modifiers.supports ||
 		modifiers.ancestor ||
+		modifiers.at_rule ||
+		modifiers.group ||
+		modifiers.peer ||
 		modifiers.states.length > 0 ||
+		modifiers.selector ||
 		modifiers.pseudo_element
 	);
 };
@@ -666,12 +1166,14 @@ export const has_extracted_modifiers = (modifiers: ExtractedModifiers): boolean
  * @param class_name - the class name to try resolving
  * @param css_properties - set of valid CSS properties, or null to skip validation
  * @param context_class_name - the class being defined (for error messages)
+ * @param modifiers - the modifier index to look up modifiers in
  * @returns resolution result with declaration, or error, or null if not a literal
  */
 export const try_resolve_literal = (
 	class_name: string,
 	css_properties: Set<string> | null,
 	context_class_name: string,
+	modifiers: ModifierIndex = default_modifier_index,
 ): LiteralResolutionResult => {
 	// Quick check - must look like a CSS literal
 	if (!is_possible_css_literal(class_name)) {
@@ -679,7 +1181,7 @@ export const try_resolve_literal = (
 	}
 
 	// Parse the literal
-	const result = parse_css_literal(class_name, css_properties);
+	const result = parse_css_literal(class_name, css_properties, modifiers);
 
 	if (!result.ok) {
 		return {ok: false, error: contextualize_error(result.error, context_class_name)};
@@ -727,33 +1229,31 @@ const contextualize_error = (
  * @returns CSS string for this class
  */
 export const generate_css_literal_simple = (output: CssLiteralOutput): string => {
-	let css = '';
-	let indent = '';
-
-	// Open media wrapper if present
-	if (output.media_wrapper) {
-		css += `${output.media_wrapper} {\n`;
-		indent = '\t';
-	}
-
-	// Open ancestor wrapper if present
-	if (output.ancestor_wrapper) {
-		css += `${indent}${output.ancestor_wrapper} {\n`;
-		indent += '\t';
+	const wrappers = [output.media_wrapper, output.container_wrapper, output.supports_wrapper];
+	const chains = [[...wrappers, output.ancestor_wrapper, output.at_rule_wrapper]];
+	if (output.ancestor_alternative) {
+		chains.push([...wrappers, ...output.ancestor_alternative, output.at_rule_wrapper]);
 	}
 
-	// Write the rule
-	css += `${indent}${output.selector} { ${output.declaration} }\n`;
+	let css = '';
+	for (const chain of chains) {
+		let indent = '';
+
+		// Open wrappers outermost first: media, container, supports, ancestor, then at-rule
+		for (const wrapper of chain) {
+			if (!wrapper) continue;
+			css += `${indent}${wrapper} {\n`;
+			indent += '\t';
+		}
 
-	// Close ancestor wrapper
-	if (output.ancestor_wrapper) {
-		indent = indent.slice(0, -1);
-		css += `${indent}}\n`;
-	}
+		// Write the rule
+		css += `${indent}${output.selector} { ${output.declaration} }\n`;
 
-	// Close media wrapper
-	if (output.media_wrapper) {
-		css += '}\n';
+		// Close wrappers innermost first
+		while (indent) {
+			indent = indent.slice(0, -1);
+			css += `${indent}}\n`;
+		}
 	}
 
 	return css;
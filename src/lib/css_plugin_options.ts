@@ -20,7 +20,7 @@
  * - **`undefined`** - Use framework defaults. The feature is enabled with standard behavior.
  * - **`null`** - Explicitly disable the feature. No output is generated for that layer.
  *
- * This applies to `BaseCssOption` and `VariablesOption`.
+ * This applies to `BaseCssOption`, `VariablesOption`, and `ModifiersOption`.
  * Setting both to `null` enables "utility-only mode" where you manage
  * your own theme and base styles via direct imports (`@fuzdev/fuz_css/style.css`
  * and `theme.css`, which include all content).
@@ -29,19 +29,27 @@
  */
 
 import type {FileFilter} from './file_filter.ts';
+import type {CssExtractors} from './css_extractors.ts';
+import type {ClassDetectionOptions} from './class_detection.ts';
 import type {AcornPlugin} from './css_class_extractor.ts';
 import type {CssClassDefinition, CssClassDefinitionInterpreter} from './css_class_generation.ts';
 import type {StyleVariable} from './variable.ts';
+import type {ModifierDefinition} from './modifiers.ts';
 import type {CacheDeps} from './deps.ts';
+import type {ColorSchemeStrategy} from './color_scheme.ts';
+import type {UnknownClassesLevel} from './unknown_classes.ts';
+import type {LiteralTokensLevel} from './literal_tokens.ts';
 
 /**
  * Options for CSS class extraction from source files.
- * Controls which files to scan and how to parse them.
+ * Controls which files to scan and how to parse them,
+ * including the class utility functions and class-like variable names recognized in scripts.
  */
-export interface CssExtractionOptions {
+export interface CssExtractionOptions extends ClassDetectionOptions {
 	/**
 	 * Filter function to determine which files to extract classes from.
-	 * By default, extracts from .svelte, .html, .ts, .js, .tsx, .jsx files,
+	 * By default, extracts from .svelte, .vue, .astro, .html, .md, .mdx, .svx,
+	 * .ts, .js, .tsx, .jsx files and the files of custom `extractors`,
 	 * excluding test files and .gen files.
 	 */
 	filter_file?: FileFilter;
@@ -56,6 +64,18 @@ export interface CssExtractionOptions {
 	 * ```
 	 */
 	acorn_plugins?: Array<AcornPlugin>;
+	/**
+	 * Custom extractors for other template languages, by extension or matcher.
+	 * They take precedence over the built-in extractors, are included by the default
+	 * `filter_file`, and are part of the cache key, so editing one re-extracts its files.
+	 * See `create_extraction_context` for building results.
+	 *
+	 * @example
+	 * ```ts
+	 * gen_fuz_css({ extractors: {'.hbs': extract_handlebars} });
+	 * ```
+	 */
+	extractors?: CssExtractors | null;
 }
 
 /**
@@ -79,6 +99,34 @@ export interface CssClassOptions {
 	 * Replaces the builtin interpreters entirely if provided.
 	 */
 	class_interpreters?: Array<CssClassDefinitionInterpreter>;
+	/**
+	 * Modifier definitions (breakpoints, states, ancestors, pseudo-elements)
+	 * recognized in class names like `md:p_lg` and `hover:color:red`.
+	 * - `undefined` (default): Use the builtin `MODIFIERS`
+	 * - `null`: Disable static modifiers, only dynamic ones like `min-width(800px):` remain
+	 * - `Array<ModifierDefinition>`: Custom modifiers (replaces defaults)
+	 * - `(defaults) => Array<ModifierDefinition>`: Callback to modify defaults
+	 *
+	 * @example
+	 * ```ts
+	 * // Replace the viewport breakpoints, keeping everything else
+	 * modifiers: (defaults) => [
+	 *   ...defaults.filter((m) => !/^(max-)?(sm|md|lg|xl|2xl)$/.test(m.name)),
+	 *   {name: 'sm', type: 'media', css: '@media (width >= 36rem)', order: 1},
+	 *   {name: 'md', type: 'media', css: '@media (width >= 60rem)', order: 2},
+	 *   {name: 'lg', type: 'media', css: '@media (width >= 90rem)', order: 3},
+	 * ]
+	 * ```
+	 */
+	modifiers?: ModifiersOption;
+	/**
+	 * Maximum number of classes a dynamic template like `` `p_${size}` `` can expand to.
+	 * Templates whose values can't be narrowed by a literal union type or a const array
+	 * in the same file match every class definition with the static prefix and suffix,
+	 * and templates past the limit are skipped with a warning.
+	 * @default 100
+	 */
+	template_class_limit?: number;
 }
 
 /**
@@ -111,6 +159,23 @@ export type VariablesOption =
 	| null
 	| undefined;
 
+/**
+ * Type for the modifiers option used by CSS generators.
+ *
+ * Supports four forms:
+ * - `undefined` - Use the builtin `MODIFIERS` (framework defaults)
+ * - `null` - Disable static modifiers (dynamic patterns like `nth-child(2n):` still work)
+ * - `Array<ModifierDefinition>` - Custom modifiers array (replaces defaults)
+ * - `(defaults) => Array<ModifierDefinition>` - Callback to modify defaults
+ *
+ * See module documentation for the `undefined` vs `null` convention.
+ */
+export type ModifiersOption =
+	| Array<ModifierDefinition>
+	| ((defaults: Array<ModifierDefinition>) => Array<ModifierDefinition>)
+	| null
+	| undefined;
+
 /**
  * Options for CSS output generation (theme + base + utilities).
  * Controls how the three CSS layers are combined.
@@ -160,9 +225,22 @@ export interface CssOutputOptions {
 	 * Defaults to 1 which generates `:root`, higher values generate more specific selectors (e.g., `:root:root`).
 	 */
 	theme_specificity?: number;
+	/**
+	 * How dark and light styles are scoped, for both the `dark:`/`light:` modifiers
+	 * and the dark theme variables.
+	 * - `'class'` (default): `:root.dark` and `:root.light`
+	 * - `'attribute'`: `:root[data-theme="dark"]` and `:root[data-theme="light"]`
+	 * - `'media'`: `@media (prefers-color-scheme: dark)`, no JS needed
+	 * - `'hybrid'`: `prefers-color-scheme` by default, overridden by the `.dark`/`.light` class
+	 *
+	 * Use `get_color_scheme_marker` to set the matching class or attribute for a `ColorScheme`.
+	 */
+	color_scheme_strategy?: ColorSchemeStrategy;
 	/**
 	 * Classes to always include in the output, regardless of detection.
 	 * Useful for dynamically generated class names that can't be statically extracted.
+	 * Supports glob and brace patterns like `bg_*_50`, `p{t,b}_{sm,md,lg}`, and `md:hover:*`,
+	 * expanded against the class definitions.
 	 */
 	additional_classes?: Iterable<string>;
 	/**
@@ -180,8 +258,9 @@ export interface CssOutputOptions {
 	/**
 	 * Classes to exclude from the output, even if detected.
 	 * Useful for filtering out false positives from extraction.
+	 * Supports glob and brace patterns like `md:*` and regexps like `/^shade_\d+$/`.
 	 */
-	exclude_classes?: Iterable<string>;
+	exclude_classes?: Iterable<string | RegExp>;
 	/**
 	 * Elements to exclude from base CSS output, even if detected.
 	 * Useful for filtering out elements you don't want styles for.
@@ -213,6 +292,30 @@ export interface CssDiagnosticsOptions {
 	 * @default 'log'
 	 */
 	on_warning?: 'log' | 'throw' | 'ignore';
+	/**
+	 * Reports detected classes that look like fuz_css tokens but don't resolve,
+	 * like the typos `p_mdd` and `shade_105`, with a suggestion of the nearest class.
+	 * A class is token-like when its name up to the last underscore, like `p_`,
+	 * matches a family of class definitions.
+	 * - `undefined` (default): Skip unknown classes silently
+	 * - `'warn'`: Report them as warnings
+	 * - `'error'`: Report them as errors
+	 */
+	unknown_classes?: UnknownClassesLevel;
+	/**
+	 * Classes to never report as unknown, like token-like classes owned by other CSS systems.
+	 * Supports glob and brace patterns like `icon_*` and regexps like `/^app_/`.
+	 */
+	unknown_classes_ignore?: Iterable<string | RegExp>;
+	/**
+	 * Reports CSS literals that have an equivalent token or composite class,
+	 * like `padding:var(--space_md)` for `p_md` and `border-radius:50%` for `circular`,
+	 * with a suggestion and quick-fix for the class.
+	 * - `undefined` (default): Skip the check
+	 * - `'warn'`: Report them as warnings
+	 * - `'error'`: Report them as errors
+	 */
+	literal_tokens?: LiteralTokensLevel;
 }
 
 /**
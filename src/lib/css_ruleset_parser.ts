@@ -419,6 +419,36 @@ export const find_compound_end = (selector: string, class_pos: number): number =
 	return pos;
 };
 
+/**
+ * Finds the start position of the compound selector containing the class at class_pos,
+ * after the last combinator or whitespace outside of brackets, parentheses, and strings.
+ *
+ * @param selector - the CSS selector string
+ * @param class_pos - position of the `.` in `.class_name`
+ * @returns position where relational prefixes should be inserted
+ */
+const find_compound_start = (selector: string, class_pos: number): number => {
+	let start = 0;
+	let depth = 0;
+	let in_string: '"' | "'" | null = null;
+	for (let i = 0; i < class_pos; i++) {
+		const char = selector[i]!;
+		if (in_string) {
+			if (char === '\\') i++;
+			else if (char === in_string) in_string = null;
+		} else if (char === '"' || char === "'") {
+			in_string = char;
+		} else if (char === '(' || char === '[') {
+			depth++;
+		} else if (char === ')' || char === ']') {
+			depth--;
+		} else if (depth === 0 && /[\s>+~]/.test(char)) {
+			start = i + 1;
+		}
+	}
+	return start;
+};
+
 /**
  * Modifies a single CSS selector to add modifiers.
  *
@@ -427,6 +457,10 @@ export const find_compound_end = (selector: string, class_pos: number): number =
  * @param new_class_escaped - the escaped new class name (e.g., "hover\\:menuitem")
  * @param state_css - state modifier CSS to insert (e.g., ":hover")
  * @param pseudo_element_css - pseudo-element modifier CSS to insert (e.g., "::before")
+ * @param relational_prefix - group/peer marker prefix inserted before the compound selector
+ *                            containing the class (e.g., ".group:hover ")
+ * @param selector_css - selector modifier combinator and compound selector to insert
+ *                       before the pseudo-element (e.g., "> *")
  * @returns modified selector
  *
  * @example
@@ -439,6 +473,15 @@ export const find_compound_end = (selector: string, class_pos: number): number =
  *
  * modify_single_selector('.menuitem.selected', 'menuitem', 'hover\\:menuitem', ':hover', '')
  * // → '.hover\\:menuitem.selected:hover'
+ *
+ * modify_single_selector('.menuitem', 'menuitem', 'group-hover\\:menuitem', '', '', '.group:hover ')
+ * // → '.group:hover .group-hover\\:menuitem'
+ *
+ * modify_single_selector('.foo > .menuitem', 'menuitem', 'peer-checked\\:menuitem', '', '', '.peer:checked ~ ')
+ * // → '.foo > .peer:checked ~ .peer-checked\\:menuitem'
+ *
+ * modify_single_selector('.menuitem .icon', 'menuitem', 'children\\:menuitem', '', '', '', '> *')
+ * // → '.children\\:menuitem > * .icon'
  * ```
  */
 export const modify_single_selector = (
@@ -447,6 +490,8 @@ export const modify_single_selector = (
 	new_class_escaped: string,
 	state_css: string,
 	pseudo_element_css: string,
+	relational_prefix: string = '',
+	selector_css: string = '',
 ): string => {
 	// Find the target class (must match the class name exactly, not as part of another class)
 	const class_pattern = new RegExp(`\\.${escape_regexp(original_class)}(?![\\w-])`);
@@ -455,13 +500,20 @@ export const modify_single_selector = (
 
 	const class_pos = match.index;
 
-	// Find where the compound selector ends (where to insert state)
+	// Find where the compound selector starts and ends (where to insert the prefix and state)
+	const compound_start = find_compound_start(selector, class_pos);
 	const compound_end = find_compound_end(selector, class_pos);
 
 	// Build the modified selector
-	// Insert state and pseudo-element at compound_end (before any existing pseudo-element)
-	const suffix = state_css + pseudo_element_css;
-	let result = selector.slice(0, compound_end) + suffix + selector.slice(compound_end);
+	// Insert state, selector modifier, and pseudo-element at compound_end
+	// (before any existing pseudo-element), and the relational prefix at compound_start
+	const suffix = state_css + (selector_css ? ` ${selector_css}` : '') + pseudo_element_css;
+	let result =
+		selector.slice(0, compound_start) +
+		relational_prefix +
+		selector.slice(compound_start, compound_end) +
+		suffix +
+		selector.slice(compound_end);
 
 	// Replace the class name with the new escaped name
 	result = result.replace(class_pattern, `.${new_class_escaped}`);
@@ -479,6 +531,9 @@ export const modify_single_selector = (
  * @param new_class_escaped - the escaped new class name
  * @param states_to_add - individual state modifiers (e.g., [":hover", ":focus"])
  * @param pseudo_element_css - pseudo-element modifier CSS to insert (e.g., "::before")
+ * @param relational_prefix - group/peer marker prefix (e.g., ".group:hover ")
+ * @param selector_css - selector modifier CSS to insert (e.g., "> *"),
+ *                       skipped for selectors that already contain a pseudo-element
  * @returns result with modified selector list and information about skipped modifiers
  */
 export const modify_selector_group = (
@@ -487,17 +542,22 @@ export const modify_selector_group = (
 	new_class_escaped: string,
 	states_to_add: Array<string>,
 	pseudo_element_css: string,
+	relational_prefix: string = '',
+	selector_css: string = '',
 ): ModifiedSelectorGroupResult => {
 	const selectors = split_selector_list(selector_group);
 	let skipped_modifiers: Array<SkippedModifierInfo> | null = null;
 	const adding_pseudo_element = pseudo_element_css !== '';
+	const adding_selector = selector_css !== '';
 
 	const modified_selectors = selectors.map((selector) => {
 		const trimmed = selector.trim();
 
 		// Check pseudo-element conflict for this specific selector
-		const has_pseudo_element_conflict =
-			adding_pseudo_element && selector_has_pseudo_element(trimmed);
+		const has_pseudo_element = selector_has_pseudo_element(trimmed);
+		const has_pseudo_element_conflict = adding_pseudo_element && has_pseudo_element;
+		// Nothing can be selected after a pseudo-element
+		const has_selector_conflict = adding_selector && has_pseudo_element;
 
 		// Check state conflicts for this specific selector - filter to non-conflicting states
 		const non_conflicting_states: Array<string> = [];
@@ -522,6 +582,13 @@ export const modify_selector_group = (
 				conflicting_modifier: pseudo_element_css,
 			});
 		}
+		if (has_selector_conflict) {
+			(skipped_modifiers ??= []).push({
+				selector: trimmed,
+				reason: 'pseudo_element_conflict',
+				conflicting_modifier: selector_css,
+			});
+		}
 
 		// Build effective modifiers for this selector
 		const effective_state_css = non_conflicting_states.join('');
@@ -533,6 +600,8 @@ export const modify_selector_group = (
 			new_class_escaped,
 			effective_state_css,
 			effective_pseudo_element_css,
+			relational_prefix,
+			has_selector_conflict ? '' : selector_css,
 		);
 	});
 
@@ -542,6 +611,64 @@ export const modify_selector_group = (
 	};
 };
 
+/**
+ * Splits concatenated state CSS into individual simple selectors,
+ * keeping functional arguments and attribute selectors intact.
+ *
+ * @example
+ * ```ts
+ * split_state_css(':hover:focus') // → [':hover', ':focus']
+ * split_state_css(':has(input:invalid):hover') // → [':has(input:invalid)', ':hover']
+ * split_state_css('[open]:hover') // → ['[open]', ':hover']
+ * ```
+ */
+const split_state_css = (state_css: string): Array<string> => {
+	const states: Array<string> = [];
+	let current = '';
+	let depth = 0;
+
+	for (const char of state_css) {
+		if (depth === 0 && (char === ':' || char === '[' || char === '.') && current) {
+			states.push(current);
+			current = '';
+		}
+		if (char === '(' || char === '[') depth++;
+		else if (char === ')' || char === ']') depth--;
+		current += char;
+	}
+
+	if (current) states.push(current);
+
+	return states;
+};
+
+/**
+ * Modifier CSS for `generate_modified_ruleset`, with wrappers shaped like `CssLiteralOutput`.
+ * Omitted fields apply nothing.
+ */
+export interface ModifiedRulesetOptions {
+	/** State modifier CSS (e.g., ":hover" or ":hover:focus") */
+	state_css?: string;
+	/** Pseudo-element modifier CSS (e.g., "::before") */
+	pseudo_element_css?: string;
+	/** Group/peer marker prefix for each selector containing the class (e.g., ".group:hover ") */
+	relational_prefix?: string;
+	/** Selector modifier CSS appended after the class and its states (e.g., "> *" or "svg") */
+	selector_css?: string;
+	/** Media query wrapper (e.g., "@media (width >= 48rem)") */
+	media_wrapper?: string | null;
+	/** Container query wrapper nested inside the media wrapper (e.g., "@container (width >= 48rem)") */
+	container_wrapper?: string | null;
+	/** Feature query wrapper nested inside the container wrapper (e.g., "@supports (display:grid)") */
+	supports_wrapper?: string | null;
+	/** Ancestor wrapper (e.g., ":root.dark") */
+	ancestor_wrapper?: string | null;
+	/** Alternative ancestor wrapper chain rendered as a copy of the rules */
+	ancestor_alternative?: Array<string> | null;
+	/** Block at-rule wrapper nested innermost (e.g., "@starting-style") */
+	at_rule_wrapper?: string | null;
+}
+
 /**
  * Generates CSS for a modified ruleset with applied modifiers.
  *
@@ -554,43 +681,35 @@ export const modify_selector_group = (
  * @param original_ruleset - the original CSS ruleset string
  * @param original_class - the base class name
  * @param new_class_escaped - the escaped new class name with modifiers
- * @param state_css - state modifier CSS (e.g., ":hover" or ":hover:focus")
- * @param pseudo_element_css - pseudo-element modifier CSS (e.g., "::before")
- * @param media_wrapper - media query wrapper (e.g., "@media (width >= 48rem)")
- * @param ancestor_wrapper - ancestor wrapper (e.g., ":root.dark")
+ * @param options - the modifier CSS to apply
  * @returns result with generated CSS and information about skipped modifiers
  */
 export const generate_modified_ruleset = (
 	original_ruleset: string,
 	original_class: string,
 	new_class_escaped: string,
-	state_css: string,
-	pseudo_element_css: string,
-	media_wrapper: string | null,
-	ancestor_wrapper: string | null,
+	options: ModifiedRulesetOptions = {},
 ): ModifiedRulesetResult => {
+	const {
+		state_css = '',
+		pseudo_element_css = '',
+		relational_prefix = '',
+		selector_css = '',
+		media_wrapper = null,
+		container_wrapper = null,
+		supports_wrapper = null,
+		ancestor_wrapper = null,
+		ancestor_alternative = null,
+		at_rule_wrapper = null,
+	} = options;
 	const parsed = parse_ruleset(original_ruleset);
 	let skipped_modifiers: Array<SkippedModifierInfo> | null = null;
 
 	// Extract individual states for per-selector conflict detection (e.g., ":hover:focus" → [":hover", ":focus"])
-	const states_to_add = state_css.match(/:[a-z-]+/g) ?? [];
-
-	let css = '';
-	let indent = '';
-
-	// Open media wrapper if present
-	if (media_wrapper) {
-		css += `${media_wrapper} {\n`;
-		indent = '\t';
-	}
-
-	// Open ancestor wrapper if present
-	if (ancestor_wrapper) {
-		css += `${indent}${ancestor_wrapper} {\n`;
-		indent += '\t';
-	}
+	const states_to_add = split_state_css(state_css);
 
 	// Generate each rule with modified selector (conflict detection happens per-selector in modify_selector_group)
+	const rules: Array<string> = [];
 	for (const rule of parsed.rules) {
 		const result = modify_selector_group(
 			rule.selector,
@@ -598,6 +717,8 @@ export const generate_modified_ruleset = (
 			new_class_escaped,
 			states_to_add,
 			pseudo_element_css,
+			relational_prefix,
+			selector_css,
 		);
 
 		// Collect skip info from per-selector conflict detection
@@ -605,18 +726,33 @@ export const generate_modified_ruleset = (
 			(skipped_modifiers ??= []).push(...result.skipped_modifiers);
 		}
 
-		css += `${indent}${result.selector} { ${rule.declarations} }\n`;
+		rules.push(`${result.selector} { ${rule.declarations} }`);
 	}
 
-	// Close ancestor wrapper
-	if (ancestor_wrapper) {
-		indent = indent.slice(0, -1);
-		css += `${indent}}\n`;
-	}
+	const wrappers = [media_wrapper, container_wrapper, supports_wrapper];
+	const chains = [[...wrappers, ancestor_wrapper, at_rule_wrapper]];
+	if (ancestor_alternative) chains.push([...wrappers, ...ancestor_alternative, at_rule_wrapper]);
 
-	// Close media wrapper
-	if (media_wrapper) {
-		css += '}\n';
+	let css = '';
+	for (const chain of chains) {
+		let indent = '';
+
+		// Open wrappers outermost first: media, container, supports, ancestor, then at-rule
+		for (const wrapper of chain) {
+			if (!wrapper) continue;
+			css += `${indent}${wrapper} {\n`;
+			indent += '\t';
+		}
+
+		for (const rule of rules) {
+			css += `${indent}${rule}\n`;
+		}
+
+		// Close wrappers innermost first
+		while (indent) {
+			indent = indent.slice(0, -1);
+			css += `${indent}}\n`;
+		}
 	}
 
 	return {css, skipped_modifiers};
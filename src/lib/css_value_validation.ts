@@ -0,0 +1,322 @@
+/**
+ * CSS value validation against the property value grammars from `@webref/css`.
+ *
+ * The grammars are flattened to the keywords and basic types each property accepts,
+ * which catches typos like `display:flexx` without a full grammar matcher.
+ * Properties whose grammars accept arbitrary identifiers or strings
+ * (like `font-family` or `grid-area`) can't be checked this way and are skipped,
+ * as are values with functions like `var()` and `calc()`.
+ *
+ * @module
+ */
+
+/**
+ * Basic value types checked by `find_invalid_css_value_token`.
+ * Other types in a grammar either expand to keywords and these types,
+ * or make the property unverifiable.
+ */
+export type CssValueType =
+	| 'length'
+	| 'percentage'
+	| 'number'
+	| 'integer'
+	| 'angle'
+	| 'time'
+	| 'frequency'
+	| 'resolution'
+	| 'flex'
+	| 'hex-color';
+
+/**
+ * What a property's value grammar accepts, flattened from `@webref/css`.
+ */
+export interface CssValueSyntax {
+	/** Lowercased keywords */
+	keywords: Set<string>;
+	types: Set<CssValueType>;
+}
+
+/**
+ * Maps property names to their flattened value grammars,
+ * `null` for properties that can't be checked.
+ */
+export type CssValueIndex = Map<string, CssValueSyntax | null>;
+
+const CSS_VALUE_TYPES: Set<string> = new Set<CssValueType>([
+	'length',
+	'percentage',
+	'number',
+	'integer',
+	'angle',
+	'time',
+	'frequency',
+	'resolution',
+	'flex',
+	'hex-color',
+]);
+
+/**
+ * Keywords every property accepts.
+ */
+const CSS_WIDE_KEYWORDS = new Set(['inherit', 'initial', 'unset', 'revert', 'revert-layer']);
+
+/**
+ * Matches grammar components: function notation like `fit-content(` (group 1),
+ * type and property references like `<length [0,∞]>` or `<'margin-top'>` (group 2),
+ * and keywords (group 3). Multipliers and combinators are ignored.
+ */
+const SYNTAX_COMPONENT_PATTERN = /([a-zA-Z-]+)\(|<([^>]+)>|([a-zA-Z][\w-]*)/g;
+
+/**
+ * Flattens the value grammars of all properties.
+ *
+ * @param property_syntaxes - value grammar by property name, `undefined` if unspecified
+ * @param type_syntaxes - grammar by type name (without `<>`), `undefined` for primitive types
+ * @returns the index for `find_invalid_css_value_token`
+ */
+export const create_css_value_index = (
+	property_syntaxes: Record<string, string | undefined>,
+	type_syntaxes: Record<string, string | undefined>,
+): CssValueIndex => {
+	const cache: Map<string, CssValueSyntax | null> = new Map();
+	const in_progress: Set<string> = new Set();
+
+	const expand = (key: string, syntax: string | undefined): CssValueSyntax | null => {
+		const cached = cache.get(key);
+		if (cached !== undefined) return cached;
+		if (syntax === undefined) {
+			cache.set(key, null);
+			return null;
+		}
+
+		in_progress.add(key);
+		let result: CssValueSyntax | null = {keywords: new Set(), types: new Set()};
+		const pattern = new RegExp(SYNTAX_COMPONENT_PATTERN);
+		let match: RegExpExecArray | null;
+		while ((match = pattern.exec(syntax))) {
+			const [, fn, reference, keyword] = match;
+			if (fn !== undefined) {
+				// Values with functions are skipped, so function arguments don't matter
+				pattern.lastIndex = skip_parens(syntax, pattern.lastIndex);
+				continue;
+			}
+			if (keyword !== undefined) {
+				result.keywords.add(keyword.toLowerCase());
+				continue;
+			}
+			const name = reference!.replace(/\s*\[.*\]$/, ''); // strip ranges like `[0,∞]`
+			if (name.endsWith('()')) continue; // function types
+			if (CSS_VALUE_TYPES.has(name)) {
+				result.types.add(name as CssValueType);
+				continue;
+			}
+			const is_property = name.startsWith("'");
+			const ref_key = is_property ? name : `<${name}>`;
+			// A cycle adds nothing the outer expansion doesn't already have
+			if (in_progress.has(ref_key)) continue;
+			const expanded = expand(
+				ref_key,
+				is_property ? property_syntaxes[name.slice(1, -1)] : type_syntaxes[name],
+			);
+			if (!expanded) {
+				result = null;
+				break;
+			}
+			for (const k of expanded.keywords) result.keywords.add(k);
+			for (const t of expanded.types) result.types.add(t);
+		}
+		in_progress.delete(key);
+		cache.set(key, result);
+		return result;
+	};
+
+	const index: CssValueIndex = new Map();
+	for (const [property, syntax] of Object.entries(property_syntaxes)) {
+		index.set(property, expand(`'${property}'`, syntax));
+	}
+	return index;
+};
+
+/**
+ * Alternatives missing from incomplete `@webref/css` type grammars, merged in when loading.
+ * `<paint>` only has the CSS Fill and Stroke definition, without the colors and keywords from SVG 2.
+ */
+const WEBREF_TYPE_ADDITIONS: Record<string, string> = {
+	paint: '<color> | <url> | context-fill | context-stroke',
+};
+
+/**
+ * Loads and flattens the property value grammars from `@webref/css`.
+ * Returns a fresh index each time - callers should cache the result if needed.
+ */
+export const load_css_value_index = async (): Promise<CssValueIndex> => {
+	const webref = await import('@webref/css');
+	const indexed = await webref.default.index();
+	const property_syntaxes: Record<string, string | undefined> = {};
+	for (const [name, property] of Object.entries(indexed.properties)) {
+		property_syntaxes[name] = property.syntax;
+	}
+	const type_syntaxes: Record<string, string | undefined> = {};
+	for (const [name, type] of Object.entries(indexed.types)) {
+		type_syntaxes[name] = type.syntax;
+	}
+	for (const [name, addition] of Object.entries(WEBREF_TYPE_ADDITIONS)) {
+		const syntax = type_syntaxes[name];
+		if (syntax !== undefined) type_syntaxes[name] = `${syntax} | ${addition}`;
+	}
+	return create_css_value_index(property_syntaxes, type_syntaxes);
+};
+
+const skip_parens = (syntax: string, start: number): number => {
+	let depth = 1;
+	let i = start;
+	while (i < syntax.length && depth > 0) {
+		if (syntax[i] === '(') depth++;
+		else if (syntax[i] === ')') depth--;
+		i++;
+	}
+	return i;
+};
+
+const LENGTH_UNITS = new Set([
+	'px',
+	'cm',
+	'mm',
+	'q',
+	'in',
+	'pt',
+	'pc',
+	'em',
+	'rem',
+	'ex',
+	'rex',
+	'ch',
+	'rch',
+	'ic',
+	'ric',
+	'cap',
+	'rcap',
+	'lh',
+	'rlh',
+	'vw',
+	'vh',
+	'vi',
+	'vb',
+	'vmin',
+	'vmax',
+	'svw',
+	'svh',
+	'svi',
+	'svb',
+	'svmin',
+	'svmax',
+	'lvw',
+	'lvh',
+	'lvi',
+	'lvb',
+	'lvmin',
+	'lvmax',
+	'dvw',
+	'dvh',
+	'dvi',
+	'dvb',
+	'dvmin',
+	'dvmax',
+	'cqw',
+	'cqh',
+	'cqi',
+	'cqb',
+	'cqmin',
+	'cqmax',
+]);
+
+/**
+ * Maps non-length units to their types.
+ */
+const UNIT_TYPES: Record<string, CssValueType | undefined> = {
+	deg: 'angle',
+	grad: 'angle',
+	rad: 'angle',
+	turn: 'angle',
+	s: 'time',
+	ms: 'time',
+	hz: 'frequency',
+	khz: 'frequency',
+	dpi: 'resolution',
+	dpcm: 'resolution',
+	dppx: 'resolution',
+	x: 'resolution',
+	fr: 'flex',
+};
+
+const NUMERIC_PATTERN = /^[+-]?(\d*\.?\d+(?:e[+-]?\d+)?)([a-z]+|%)?$/i;
+
+const KEYWORD_PATTERN = /^-?[a-zA-Z][\w-]*$/;
+
+/**
+ * Matches vendor-prefixed keywords like `-webkit-optimize-contrast`, which aren't in the grammars.
+ */
+const VENDOR_KEYWORD_PATTERN = /^-[a-z]+-/i;
+
+const HEX_COLOR_PATTERN = /^#(?:[\da-f]{3,4}|[\da-f]{6}|[\da-f]{8})$/i;
+
+/**
+ * Checks if a single value token matches the flattened grammar.
+ */
+const is_valid_token = (token: string, syntax: CssValueSyntax): boolean => {
+	if (KEYWORD_PATTERN.test(token)) {
+		return syntax.keywords.has(token.toLowerCase()) || VENDOR_KEYWORD_PATTERN.test(token);
+	}
+	if (token.startsWith('#')) return syntax.types.has('hex-color') && HEX_COLOR_PATTERN.test(token);
+	const numeric = NUMERIC_PATTERN.exec(token);
+	if (!numeric) return false;
+	const [, number, unit] = numeric;
+	const {types} = syntax;
+	if (unit === undefined) {
+		if (types.has('number')) return true;
+		if (types.has('integer') && !number!.includes('.') && !/e/i.test(number!)) return true;
+		// Unitless zero is a valid length
+		return types.has('length') && Number(number) === 0;
+	}
+	if (unit === '%') return types.has('percentage');
+	const lower = unit.toLowerCase();
+	if (LENGTH_UNITS.has(lower)) return types.has('length');
+	const type = UNIT_TYPES[lower];
+	return type !== undefined && types.has(type);
+};
+
+/**
+ * Finds the first token in a formatted CSS-literal value that the property's grammar rejects.
+ * Custom properties, unverifiable properties, and values with functions or strings are skipped.
+ *
+ * The check is per token, so it catches invalid keywords and units
+ * but not invalid combinations like `display:flex~flex`.
+ *
+ * @example
+ * ```ts
+ * find_invalid_css_value_token('display', 'flexx', index) // 'flexx'
+ * find_invalid_css_value_token('margin', '0 auto', index) // null
+ * find_invalid_css_value_token('width', 'calc(100% - 1px)', index) // null
+ * ```
+ *
+ * @param property - the CSS property name
+ * @param value - the formatted value, like the output of `format_css_value`
+ * @param index - the index from `load_css_value_index()`
+ * @returns the invalid token, or null if the value is valid or can't be checked
+ */
+export const find_invalid_css_value_token = (
+	property: string,
+	value: string,
+	index: CssValueIndex,
+): string | null => {
+	if (property.startsWith('--')) return null;
+	const syntax = index.get(property);
+	if (!syntax) return null;
+	const trimmed = value.replace(/\s*!important$/, '').trim();
+	if (/[("']/.test(trimmed)) return null;
+	if (CSS_WIDE_KEYWORDS.has(trimmed.toLowerCase())) return null;
+	for (const token of trimmed.split(/[\s,/]+/)) {
+		if (token && !is_valid_token(token, syntax)) return token;
+	}
+	return null;
+};
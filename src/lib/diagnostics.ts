@@ -36,6 +36,17 @@ export interface BaseDiagnostic {
 	suggestion: string | null;
 }
 
+/**
+ * Machine-applicable fix for a diagnostic,
+ * replacing the identifier at each of its source locations.
+ */
+export interface DiagnosticFix {
+	/** Description of the fix, like `Reorder to "md:hover:p_lg"` */
+	message: string;
+	/** Text that replaces the identifier */
+	replacement: string;
+}
+
 /**
  * Diagnostic from the extraction phase.
  */
@@ -56,6 +67,8 @@ export interface GenerationDiagnostic {
 	identifier: string;
 	/** Source locations where this class was used, or null if from `additional_classes` */
 	locations: Array<SourceLocation> | null;
+	/** Quick-fix for editors and codemods, if the problem can be fixed automatically */
+	fix?: DiagnosticFix;
 }
 
 /**
@@ -73,6 +86,8 @@ export interface InterpreterDiagnostic {
 	/** The class name, element name, or variable name this diagnostic refers to */
 	identifier: string;
 	suggestion: string | null;
+	/** Quick-fix for editors and codemods, if the problem can be fixed automatically */
+	fix?: DiagnosticFix;
 }
 
 //
@@ -95,6 +110,7 @@ export const create_generation_diagnostic = (
 	identifier: diagnostic.identifier,
 	suggestion: diagnostic.suggestion ?? null,
 	locations,
+	...(diagnostic.fix && {fix: diagnostic.fix}),
 });
 
 /**
@@ -15,10 +15,12 @@ import {
 	type ExtractionData,
 	type AcornPlugin,
 } from './css_class_extractor.ts';
+import type {CssExtractors} from './css_extractors.ts';
+import type {ClassDetectionOptions} from './class_detection.ts';
 import {load_cached_extraction, from_cached_extraction} from './css_cache.ts';
 import type {CacheDeps} from './deps.ts';
 
-export interface ExtractFileCachedOptions {
+export interface ExtractFileCachedOptions extends ClassDetectionOptions {
 	deps: CacheDeps;
 	/** Source file contents. */
 	content: string;
@@ -29,6 +31,9 @@ export interface ExtractFileCachedOptions {
 	/** File path, for parser selection and diagnostic locations. */
 	filename: string;
 	acorn_plugins?: Array<AcornPlugin>;
+	extractors?: CssExtractors | null;
+	/** Fingerprint of the extraction options from `create_extraction_fingerprint`. */
+	fingerprint?: string | null;
 }
 
 export interface ExtractFileCachedResult {
@@ -40,18 +45,29 @@ export interface ExtractFileCachedResult {
 }
 
 /**
- * Loads the cached extraction when its content hash matches, otherwise extracts
+ * Loads the cached extraction when its content hash and options fingerprint match, otherwise extracts
  * fresh. On a miss with caching enabled, `cache_path_to_write` carries the path
  * the caller should write.
  */
 export const extract_file_cached = async (
 	options: ExtractFileCachedOptions,
 ): Promise<ExtractFileCachedResult> => {
-	const {deps, content, content_hash, cache_path, filename, acorn_plugins} = options;
+	const {
+		deps,
+		content,
+		content_hash,
+		cache_path,
+		filename,
+		acorn_plugins,
+		extractors,
+		class_utility_functions,
+		class_name_pattern,
+		fingerprint = null,
+	} = options;
 
 	if (cache_path) {
 		const cached = await load_cached_extraction(deps, cache_path);
-		if (cached?.content_hash === content_hash) {
+		if (cached?.content_hash === content_hash && cached.fingerprint === fingerprint) {
 			return {
 				extraction: from_cached_extraction(cached),
 				from_cache: true,
@@ -60,6 +76,12 @@ export const extract_file_cached = async (
 		}
 	}
 
-	const extraction = extract_css_classes_with_locations(content, {filename, acorn_plugins});
+	const extraction = extract_css_classes_with_locations(content, {
+		filename,
+		acorn_plugins,
+		extractors,
+		class_utility_functions,
+		class_name_pattern,
+	});
 	return {extraction, from_cache: false, cache_path_to_write: cache_path};
 };
@@ -4,6 +4,8 @@
  * @module
  */
 
+import {find_extractor, type CssExtractors} from './css_extractors.ts';
+
 /**
  * Filter function to determine which files to process for CSS class extraction.
  */
@@ -11,33 +13,53 @@ export type FileFilter = (path: string) => boolean;
 
 /**
  * Default file filter for CSS class extraction.
- * Includes .svelte, .html, .ts, .js, .tsx, .jsx files.
+ * Includes .svelte, .vue, .astro, .html, .md, .mdx, .svx, .ts, .js, .tsx, .jsx files.
  * Excludes test files (.test.ts, .spec.ts) and generated files (.gen.ts).
  * Excludes files in test directories (`/test/`, `/tests/`, `/__tests__/`, `/__mocks__/`).
  */
 export const filter_file_default: FileFilter = (path) => {
-	if (
-		path.includes('.test.') ||
-		path.includes('.spec.') ||
-		path.includes('/test/') ||
-		path.includes('/tests/') ||
-		path.includes('/__tests__/') ||
-		path.includes('/__mocks__/') ||
-		path.startsWith('test/') ||
-		path.startsWith('tests/') ||
-		path.startsWith('__tests__/') ||
-		path.startsWith('__mocks__/') ||
-		path.includes('.gen.')
-	) {
+	if (is_test_or_generated(path)) {
 		return false;
 	}
 	const ext = path.slice(path.lastIndexOf('.'));
 	return (
 		ext === '.svelte' ||
+		ext === '.vue' ||
+		ext === '.astro' ||
 		ext === '.html' ||
+		ext === '.md' ||
+		ext === '.mdx' ||
+		ext === '.svx' ||
 		ext === '.ts' ||
 		ext === '.js' ||
 		ext === '.tsx' ||
 		ext === '.jsx'
 	);
 };
+
+/**
+ * Creates the default file filter extended with the files of custom extractors,
+ * like `.hbs` for a Handlebars extractor. Test and generated files are still excluded.
+ *
+ * @param extractors - custom extractors by extension or matcher
+ * @returns `filter_file_default` if there are no extractors
+ */
+export const create_filter_file = (extractors: CssExtractors | null | undefined): FileFilter => {
+	if (!extractors) return filter_file_default;
+	return (path) =>
+		filter_file_default(path) ||
+		(!is_test_or_generated(path) && find_extractor(path, extractors) !== null);
+};
+
+const is_test_or_generated = (path: string): boolean =>
+	path.includes('.test.') ||
+	path.includes('.spec.') ||
+	path.includes('/test/') ||
+	path.includes('/tests/') ||
+	path.includes('/__tests__/') ||
+	path.includes('/__mocks__/') ||
+	path.startsWith('test/') ||
+	path.startsWith('tests/') ||
+	path.startsWith('__tests__/') ||
+	path.startsWith('__mocks__/') ||
+	path.includes('.gen.');
@@ -0,0 +1,119 @@
+/**
+ * [Gro task](https://github.com/fuzdev/gro) that rewrites class names in source files
+ * into canonical modifier order, like `hover:md:p_lg` to `md:hover:p_lg`.
+ *
+ * Run `gro fix_modifier_order` to fix the files in `src`,
+ * or pass files and directories, and `--check` to report without writing.
+ * Uses the builtin modifiers and the default file filter and class detection.
+ * Projects with custom options create their own task with `create_fix_modifier_order_task`,
+ * passing the same options as their `gen_fuz_css` or `vite_plugin_fuz_css` config.
+ *
+ * @module
+ */
+
+import {readdir, readFile, stat, writeFile} from 'node:fs/promises';
+import {join} from 'node:path';
+import {z} from 'zod';
+import {TaskError, type Task} from '@fuzdev/gro/task.ts';
+
+import {create_filter_file} from './file_filter.ts';
+import {fix_modifier_order} from './modifier_order.ts';
+import {resolve_modifier_index} from './modifiers.ts';
+import type {
+	CssExtractionOptions,
+	CssClassOptions,
+	CssOutputOptions,
+} from './css_plugin_options.ts';
+
+export const Args = z.strictObject({
+	_: z.array(z.string()).meta({description: 'files and directories to fix'}).default(['src']),
+	check: z
+		.boolean()
+		.meta({description: 'report misordered classes without writing, failing if any'})
+		.default(false),
+});
+export type Args = z.infer<typeof Args>;
+
+/**
+ * Options for `create_fix_modifier_order_task`, a subset of the CSS generator options.
+ */
+export interface FixModifierOrderTaskOptions
+	extends
+		CssExtractionOptions,
+		Pick<CssClassOptions, 'modifiers'>,
+		Pick<CssOutputOptions, 'color_scheme_strategy'> {}
+
+/**
+ * Creates the `fix_modifier_order` task with the project's modifiers and extraction options.
+ *
+ * @example
+ * ```ts
+ * // src/lib/fix_modifier_order.task.ts
+ * import {create_fix_modifier_order_task} from '@fuzdev/fuz_css/fix_modifier_order.task.js';
+ *
+ * export const task = create_fix_modifier_order_task({
+ * 	modifiers: (defaults) => [...defaults, {name: 'print', type: 'media', css: '@media print'}],
+ * 	extractors: {'.hbs': extract_handlebars},
+ * });
+ * ```
+ */
+export const create_fix_modifier_order_task = (
+	options: FixModifierOrderTaskOptions = {},
+): Task<Args> => {
+	const {
+		filter_file: filter_file_option,
+		modifiers,
+		color_scheme_strategy,
+		...extraction_options
+	} = options;
+	const filter_file = filter_file_option ?? create_filter_file(extraction_options.extractors);
+	const modifier_index = resolve_modifier_index(modifiers, color_scheme_strategy);
+
+	return {
+		summary: 'rewrite class names into canonical modifier order',
+		Args,
+		run: async ({args, log}) => {
+			const {_: paths, check} = args;
+
+			const files: Array<string> = [];
+			for (const path of paths) {
+				if ((await stat(path)).isDirectory()) {
+					for (const entry of await readdir(path, {recursive: true})) {
+						const file = join(path, entry);
+						if (!file.includes('node_modules') && filter_file(file)) files.push(file);
+					}
+				} else {
+					files.push(path);
+				}
+			}
+
+			let edit_count = 0;
+			let file_count = 0;
+			for (const file of files) {
+				const source = await readFile(file, 'utf8');
+				const {content, edits} = fix_modifier_order(source, {
+					...extraction_options,
+					filename: file,
+					modifiers: modifier_index,
+				});
+				if (edits.length === 0) continue;
+				edit_count += edits.length;
+				file_count++;
+				for (const {class_name, replacement, location} of edits) {
+					log.info(
+						`  - ${file}:${location.line}:${location.column}: ${class_name} → ${replacement}`,
+					);
+				}
+				if (!check) await writeFile(file, content);
+			}
+
+			const summary = `${edit_count} misordered class${edit_count === 1 ? '' : 'es'} in ${file_count} file${file_count === 1 ? '' : 's'}`;
+			if (check && edit_count > 0) {
+				throw new TaskError(`Found ${summary}, run \`gro fix_modifier_order\` to fix`);
+			}
+			log.info(check ? `Found ${summary}` : `Fixed ${summary}`);
+		},
+	};
+};
+
+export const task: Task<Args> = create_fix_modifier_order_task();
@@ -11,7 +11,7 @@ import {join} from 'node:path';
 import type {Gen} from '@fuzdev/gro/gen.ts';
 import {map_concurrent, each_concurrent} from '@fuzdev/fuz_util/async.ts';
 
-import {filter_file_default} from './file_filter.ts';
+import {create_filter_file} from './file_filter.ts';
 import {type ExtractionData, has_extraction_data} from './css_class_extractor.ts';
 import {format_diagnostic, CssGenerationError} from './diagnostics.ts';
 import {CssClasses} from './css_classes.ts';
@@ -21,14 +21,19 @@ import {extract_file_cached} from './extract_file_cached.ts';
 import {merge_class_definitions} from './css_class_definitions.ts';
 import {css_class_interpreters} from './css_class_interpreters.ts';
 import {load_css_properties} from './css_literal.ts';
+import {load_css_value_index, type CssValueIndex} from './css_value_validation.ts';
+import {resolve_modifier_index} from './modifiers.ts';
+import {create_unknown_class_checker} from './unknown_classes.ts';
+import {create_literal_token_checker} from './literal_tokens.ts';
 import {
 	DEFAULT_CACHE_DIR,
 	get_file_cache_path,
+	create_extraction_fingerprint,
 	save_cached_extraction,
 	delete_cached_extraction,
 } from './css_cache.ts';
 import {default_cache_deps} from './deps_defaults.ts';
-import {get_all_variable_names} from './variable_graph.ts';
+import {get_all_variable_names, build_variable_graph_from_options} from './variable_graph.ts';
 import {extract_css_variables} from './css_variable_utils.ts';
 import type {CssGeneratorBaseOptions} from './css_plugin_options.ts';
 
@@ -97,13 +102,18 @@ export interface GenFuzCssOptions extends CssGeneratorBaseOptions {
 
 export const gen_fuz_css = (options: GenFuzCssOptions = {}): Gen => {
 	const {
-		filter_file = filter_file_default,
+		filter_file: filter_file_option,
 		include_stats = false,
 		class_definitions: user_class_definitions,
 		include_default_classes = true,
 		class_interpreters = css_class_interpreters,
+		modifiers,
+		template_class_limit,
 		on_error = is_ci ? 'throw' : 'log',
 		on_warning = 'log',
+		unknown_classes,
+		unknown_classes_ignore,
+		literal_tokens,
 		additional_classes,
 		exclude_classes,
 		cache_dir = DEFAULT_CACHE_DIR,
@@ -111,9 +121,13 @@ export const gen_fuz_css = (options: GenFuzCssOptions = {}): Gen => {
 		concurrency = DEFAULT_CONCURRENCY,
 		cache_io_concurrency = DEFAULT_CACHE_IO_CONCURRENCY,
 		acorn_plugins,
+		extractors,
+		class_utility_functions,
+		class_name_pattern,
 		base_css,
 		variables,
 		theme_specificity = 1,
+		color_scheme_strategy = 'class',
 		additional_elements,
 		additional_variables,
 		exclude_elements,
@@ -121,23 +135,58 @@ export const gen_fuz_css = (options: GenFuzCssOptions = {}): Gen => {
 		deps = default_cache_deps,
 	} = options;
 
+	// Custom extractors add their files to the default filter,
+	// and options that change extraction output are part of the cache key
+	const filter_file = filter_file_option ?? create_filter_file(extractors);
+	const fingerprint = create_extraction_fingerprint({
+		extractors,
+		class_utility_functions,
+		class_name_pattern,
+	});
+
 	// Derive include flags from null check
 	const include_base = base_css !== null;
 	const include_theme = variables !== null;
 
+	// Theme variables validate `$token` shorthand even without theme output
+	const variable_graph = build_variable_graph_from_options(variables);
+
 	// Convert to Sets for efficient lookup
 	const include_set = additional_classes ? new Set(additional_classes) : null;
 	const exclude_set = exclude_classes ? new Set(exclude_classes) : null;
 
+	// Resolve modifiers upfront (validates names are unique)
+	const modifier_index = resolve_modifier_index(modifiers, color_scheme_strategy);
+
 	// Merge class definitions upfront (validates that definitions exist when needed)
 	const all_class_definitions = merge_class_definitions(
 		user_class_definitions,
 		include_default_classes,
 	);
 
+	// Strict mode for token-like classes that don't resolve
+	const unknown_class_checker = unknown_classes
+		? create_unknown_class_checker({
+				level: unknown_classes,
+				class_definitions: all_class_definitions,
+				modifiers: modifier_index,
+				ignore: unknown_classes_ignore,
+			})
+		: null;
+
+	// Lint for literals that have an equivalent class
+	const literal_token_checker = literal_tokens
+		? create_literal_token_checker({
+				level: literal_tokens,
+				class_definitions: all_class_definitions,
+				modifiers: modifier_index,
+			})
+		: null;
+
 	// Lazy-load expensive resources, cached per generator instance so watch-mode
 	// rebuilds don't re-parse style.css or rebuild the graphs.
 	let css_properties: Set<string> | null = null;
+	let css_value_index: CssValueIndex | null = null;
 	let bundled_resources: BundledCssResources | null = null;
 
 	const get_css_properties = async (): Promise<Set<string>> => {
@@ -147,11 +196,19 @@ export const gen_fuz_css = (options: GenFuzCssOptions = {}): Gen => {
 		return css_properties;
 	};
 
+	const get_css_value_index = async (): Promise<CssValueIndex> => {
+		if (!css_value_index) {
+			css_value_index = await load_css_value_index();
+		}
+		return css_value_index;
+	};
+
 	const get_bundled_resources = async (): Promise<BundledCssResources> => {
 		if (!bundled_resources) {
 			bundled_resources = await create_bundled_resources({
 				base_css,
 				variables,
+				variable_graph,
 				class_definitions: all_class_definitions,
 				deps,
 			});
@@ -174,8 +231,9 @@ export const gen_fuz_css = (options: GenFuzCssOptions = {}): Gen => {
 		generate: async ({filer, log, origin_path}) => {
 			log.info('generating fuz_css classes...');
 
-			// Load CSS properties for validation (cached per instance)
+			// Load CSS properties and value grammars for validation (cached per instance)
 			const cached_css_properties = await get_css_properties();
+			const cached_css_value_index = await get_css_value_index();
 
 			await filer.init();
 
@@ -186,7 +244,12 @@ export const gen_fuz_css = (options: GenFuzCssOptions = {}): Gen => {
 				: raw_project_root + '/';
 			const resolved_cache_dir = join(project_root, cache_dir);
 
-			const css_classes = new CssClasses(include_set, exclude_set);
+			const css_classes = new CssClasses(
+				include_set,
+				exclude_set,
+				all_class_definitions,
+				template_class_limit,
+			);
 			const current_paths: Set<string> = new Set();
 
 			const stats = {
@@ -247,6 +310,10 @@ export const gen_fuz_css = (options: GenFuzCssOptions = {}): Gen => {
 						cache_path,
 						filename: node.id,
 						acorn_plugins,
+						extractors,
+						class_utility_functions,
+						class_name_pattern,
+						fingerprint,
 					});
 
 					if (from_cache) {
@@ -263,6 +330,7 @@ export const gen_fuz_css = (options: GenFuzCssOptions = {}): Gen => {
 						elements: extraction.elements,
 						explicit_elements: extraction.explicit_elements,
 						explicit_variables: extraction.explicit_variables,
+						class_patterns: extraction.class_patterns,
 						cache_path: cache_path_to_write,
 						content_hash: node.content_hash,
 					};
@@ -292,6 +360,7 @@ export const gen_fuz_css = (options: GenFuzCssOptions = {}): Gen => {
 						extraction.cache_path,
 						extraction.content_hash,
 						extraction,
+						fingerprint,
 					);
 				}).catch((err) => log.warn('Cache write error:', err));
 			}
@@ -361,7 +430,12 @@ export const gen_fuz_css = (options: GenFuzCssOptions = {}): Gen => {
 				detected_css_variables,
 				class_definitions: all_class_definitions,
 				interpreters: class_interpreters,
+				modifiers: modifier_index,
+				unknown_class_checker,
+				literal_token_checker,
 				css_properties: cached_css_properties,
+				css_value_index: cached_css_value_index,
+				variable_graph,
 				include_base,
 				include_theme,
 				resources,
@@ -370,6 +444,7 @@ export const gen_fuz_css = (options: GenFuzCssOptions = {}): Gen => {
 				exclude_elements,
 				exclude_variables,
 				theme_specificity,
+				color_scheme_strategy,
 				log,
 				include_stats,
 			});
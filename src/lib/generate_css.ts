@@ -19,8 +19,13 @@ import {
 	type CssClassDefinitionInterpreter,
 } from './css_class_generation.ts';
 import {resolve_css, generate_bundled_css} from './css_bundled_resolution.ts';
-import {get_all_variable_names} from './variable_graph.ts';
+import {get_all_variable_names, type VariableDependencyGraph} from './variable_graph.ts';
 import type {BundledCssResources} from './bundled_resources.ts';
+import type {ModifierIndex} from './modifiers.ts';
+import type {ColorSchemeStrategy} from './color_scheme.ts';
+import type {CssValueIndex} from './css_value_validation.ts';
+import type {UnknownClassChecker} from './unknown_classes.ts';
+import type {LiteralTokenChecker} from './literal_tokens.ts';
 
 /**
  * Inputs to `generate_css`. The first group mirrors the shape returned by
@@ -52,6 +57,16 @@ export interface GenerateCssOptions {
 	interpreters: Array<CssClassDefinitionInterpreter>;
 	/** Valid CSS properties for literal validation, or null to skip. */
 	css_properties: Set<string> | null;
+	/** Property value grammars for literal value validation, or null to skip. */
+	css_value_index?: CssValueIndex | null;
+	/** Theme variables for `$token` validation, independent of theme output, or null to skip. */
+	variable_graph?: VariableDependencyGraph | null;
+	/** Modifiers recognized in class names, defaults to the builtin `MODIFIERS`. */
+	modifiers?: ModifierIndex;
+	/** Reports unresolved token-like classes, or null to skip them silently. */
+	unknown_class_checker?: UnknownClassChecker | null;
+	/** Reports CSS literals that have an equivalent class, or null to skip the check. */
+	literal_token_checker?: LiteralTokenChecker | null;
 
 	include_base: boolean;
 	include_theme: boolean;
@@ -63,6 +78,8 @@ export interface GenerateCssOptions {
 	exclude_elements?: Iterable<string>;
 	exclude_variables?: Iterable<string>;
 	theme_specificity?: number;
+	/** How dark theme variables are scoped, defaults to `'class'`. */
+	color_scheme_strategy?: ColorSchemeStrategy;
 
 	/** Optional logger; only used to emit resolution stats when `include_stats`. */
 	log?: Logger;
@@ -97,6 +114,11 @@ export const generate_css = (options: GenerateCssOptions): GenerateCssResult =>
 		class_definitions,
 		interpreters,
 		css_properties,
+		css_value_index = null,
+		variable_graph = null,
+		modifiers,
+		unknown_class_checker = null,
+		literal_token_checker = null,
 		include_base,
 		include_theme,
 		resources,
@@ -105,6 +127,7 @@ export const generate_css = (options: GenerateCssOptions): GenerateCssResult =>
 		exclude_elements,
 		exclude_variables,
 		theme_specificity = 1,
+		color_scheme_strategy = 'class',
 		log,
 		include_stats = false,
 	} = options;
@@ -114,9 +137,14 @@ export const generate_css = (options: GenerateCssOptions): GenerateCssResult =>
 		class_definitions,
 		interpreters,
 		css_properties,
+		modifiers,
+		variable_graph,
+		css_value_index,
 		log,
 		class_locations: all_classes_with_locations,
 		explicit_classes,
+		unknown_class_checker,
+		literal_token_checker,
 	});
 
 	const diagnostics: Array<Diagnostic> = [...extraction_diagnostics, ...utility_result.diagnostics];
@@ -143,6 +171,7 @@ export const generate_css = (options: GenerateCssOptions): GenerateCssResult =>
 			additional_elements,
 			additional_variables,
 			theme_specificity,
+			color_scheme_strategy,
 			include_stats,
 			exclude_elements,
 			exclude_variables,
@@ -0,0 +1,287 @@
+/**
+ * Minimal HTML tokenizer for template languages without a bundled parser, like Vue and Astro.
+ *
+ * Finds start tags with their attributes and comments, with character offsets
+ * for source locations. It doesn't build a tree, decode entities, or validate nesting,
+ * which is all class extraction needs. The contents of `script` and `style` elements
+ * are kept as raw text so tags in scripts aren't mistaken for markup.
+ *
+ * @module
+ */
+
+/**
+ * An attribute of a start tag.
+ */
+export interface HtmlAttribute {
+	/** The attribute name as written, like `class`, `:class`, or `v-bind:class` */
+	name: string;
+	/** The value without quotes or expression braces, or null for attributes without a value */
+	value: string | null;
+	/** Whether the value is an expression in braces, like `class={classes}` */
+	expression: boolean;
+	/** Offset of the attribute name */
+	start: number;
+	/** Offset of the value after any opening quote, or the end of the name if there's no value */
+	value_start: number;
+}
+
+/**
+ * A start tag, with the content of raw text elements like `script`.
+ */
+export interface HtmlElementNode {
+	type: 'element';
+	/** The tag name as written, like `div` or `MyComponent` */
+	name: string;
+	attributes: Array<HtmlAttribute>;
+	/** Offset of the `<` */
+	start: number;
+	/** Text content of `script` and `style` elements, null for other elements */
+	content: string | null;
+	/** Offset of `content`, or the end of the start tag */
+	content_start: number;
+	/** Whether the element has no content in the source, like `<br>` or `<Icon />` */
+	self_closing: boolean;
+}
+
+/**
+ * An HTML comment like `<!-- @fuz-classes box -->`.
+ */
+export interface HtmlCommentNode {
+	type: 'comment';
+	/** The text between `<!--` and `-->` */
+	data: string;
+	/** Offset of the `<!--` */
+	start: number;
+}
+
+export type HtmlNode = HtmlElementNode | HtmlCommentNode;
+
+export interface ScanHtmlOptions {
+	/** Offset to start scanning from */
+	start?: number;
+	/** Offset to stop scanning at, defaults to the end of the source */
+	end?: number;
+	/**
+	 * Whether attribute values can be JSX-style expressions in braces, like `class={classes}`,
+	 * and attributes can be spreads like `{...props}`.
+	 */
+	expressions?: boolean;
+}
+
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+const WHITESPACE_PATTERN = /\s/;
+
+const TAG_NAME_START_PATTERN = /[a-zA-Z]/;
+
+/**
+ * Scans HTML-like markup for start tags and comments in source order.
+ * Unclosed tags and comments end at the end of the source.
+ *
+ * @example
+ * ```ts
+ * scan_html('<div class="box"><!-- note --></div>')
+ * // [{type: 'element', name: 'div', attributes: [{name: 'class', value: 'box', ...}], ...},
+ * //  {type: 'comment', data: ' note ', start: 17}]
+ * ```
+ *
+ * @param source - the markup
+ * @param options - the range to scan and the syntax to support
+ * @returns the start tags and comments
+ */
+export const scan_html = (source: string, options: ScanHtmlOptions = {}): Array<HtmlNode> => {
+	const {start = 0, end = source.length, expressions = false} = options;
+	const nodes: Array<HtmlNode> = [];
+	let i = start;
+
+	while (i < end) {
+		const lt = source.indexOf('<', i);
+		if (lt === -1 || lt >= end) break;
+		i = lt + 1;
+
+		// Comments
+		if (source.startsWith('!--', i)) {
+			const close = source.indexOf('-->', i + 3);
+			const data_end = close === -1 || close > end ? end : close;
+			nodes.push({type: 'comment', data: source.slice(i + 3, data_end), start: lt});
+			i = data_end + 3;
+			continue;
+		}
+
+		// Closing tags, doctypes, CDATA, and processing instructions
+		if (source[i] === '/' || source[i] === '!' || source[i] === '?') {
+			const gt = source.indexOf('>', i);
+			i = gt === -1 ? end : gt + 1;
+			continue;
+		}
+
+		// Anything else that isn't a tag name is text, like `a < b`
+		if (!TAG_NAME_START_PATTERN.test(source[i] ?? '')) continue;
+
+		const name_start = i;
+		while (i < end && !WHITESPACE_PATTERN.test(source[i]!) && source[i] !== '>') {
+			if (source[i] === '/' && source[i + 1] === '>') break;
+			i++;
+		}
+		const name = source.slice(name_start, i);
+
+		const attributes: Array<HtmlAttribute> = [];
+		let self_closing = false;
+		while (i < end) {
+			const char = source[i]!;
+			if (WHITESPACE_PATTERN.test(char)) {
+				i++;
+				continue;
+			}
+			if (char === '>') {
+				i++;
+				break;
+			}
+			if (char === '/' && source[i + 1] === '>') {
+				self_closing = true;
+				i += 2;
+				break;
+			}
+			i = scan_attribute(source, i, end, expressions, attributes);
+		}
+
+		let content: string | null = null;
+		const content_start = i;
+		if (!self_closing && RAW_TEXT_ELEMENTS.has(name.toLowerCase())) {
+			const close = find_closing_tag(source, name, i, end);
+			content = source.slice(i, close);
+			i = close;
+		}
+
+		nodes.push({
+			type: 'element',
+			name,
+			attributes,
+			start: lt,
+			content,
+			content_start,
+			self_closing,
+		});
+	}
+
+	return nodes;
+};
+
+/**
+ * Scans an attribute starting at `start`, adding it to `attributes`.
+ *
+ * @returns the offset after the attribute
+ */
+const scan_attribute = (
+	source: string,
+	start: number,
+	end: number,
+	expressions: boolean,
+	attributes: Array<HtmlAttribute>,
+): number => {
+	// Spreads and shorthands like `{...props}` are expressions without a name
+	if (expressions && source[start] === '{') {
+		const close = find_closing_brace(source, start, end);
+		attributes.push({
+			name: '',
+			value: source.slice(start + 1, close),
+			expression: true,
+			start,
+			value_start: start + 1,
+		});
+		return close + 1;
+	}
+
+	// The first character is always part of the name, so names like `=foo` can't loop forever
+	let name_end = start + 1;
+	while (name_end < end) {
+		const char = source[name_end]!;
+		if (WHITESPACE_PATTERN.test(char) || char === '=' || char === '>') break;
+		if (char === '/' && source[name_end + 1] === '>') break;
+		name_end++;
+	}
+	const name = source.slice(start, name_end);
+
+	// Look past whitespace for a value
+	let j = name_end;
+	while (j < end && WHITESPACE_PATTERN.test(source[j]!)) j++;
+	if (source[j] !== '=') {
+		attributes.push({name, value: null, expression: false, start, value_start: name_end});
+		return name_end;
+	}
+	j++;
+	while (j < end && WHITESPACE_PATTERN.test(source[j]!)) j++;
+
+	const quote = source[j];
+	if (quote === '"' || quote === "'") {
+		const close = source.indexOf(quote, j + 1);
+		const value_end = close === -1 || close > end ? end : close;
+		attributes.push({
+			name,
+			value: source.slice(j + 1, value_end),
+			expression: false,
+			start,
+			value_start: j + 1,
+		});
+		return value_end + 1;
+	}
+	if (quote === '{' && expressions) {
+		const close = find_closing_brace(source, j, end);
+		attributes.push({
+			name,
+			value: source.slice(j + 1, close),
+			expression: true,
+			start,
+			value_start: j + 1,
+		});
+		return close + 1;
+	}
+
+	const value_start = j;
+	while (j < end && !WHITESPACE_PATTERN.test(source[j]!) && source[j] !== '>') j++;
+	attributes.push({
+		name,
+		value: source.slice(value_start, j),
+		expression: false,
+		start,
+		value_start,
+	});
+	return j;
+};
+
+/**
+ * Finds the closing tag of a raw text element, case-insensitively.
+ *
+ * @returns the offset of the closing tag, or `end` if it's unclosed
+ */
+const find_closing_tag = (source: string, name: string, i: number, end: number): number => {
+	const pattern = new RegExp(`</${name}[\\s>]`, 'gi');
+	pattern.lastIndex = i;
+	const match = pattern.exec(source);
+	return match && match.index < end ? match.index : end;
+};
+
+/**
+ * Finds the brace that closes the one at `open`, skipping braces in strings.
+ * Template literals are skipped whole, which is fine because their `${}` braces are balanced.
+ *
+ * @returns the offset of the closing brace, or `end` if it's unclosed
+ */
+const find_closing_brace = (source: string, open: number, end: number): number => {
+	let depth = 0;
+	for (let i = open; i < end; i++) {
+		const char = source[i];
+		if (char === '{') {
+			depth++;
+		} else if (char === '}') {
+			depth--;
+			if (depth === 0) return i;
+		} else if (char === '"' || char === "'" || char === '`') {
+			// Skip the string, including escaped quotes
+			for (i++; i < end && source[i] !== char; i++) {
+				if (source[i] === '\\') i++;
+			}
+		}
+	}
+	return end;
+};
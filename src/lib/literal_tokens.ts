@@ -0,0 +1,136 @@
+/**
+ * Lint for CSS literals that have an equivalent class,
+ * like `padding:var(--space_md)` for `p_md` and `[display:flex;flex-direction:column]` for `column`.
+ *
+ * Literals are compared to the declarations of the static class definitions,
+ * including resolved `composes`, ignoring declaration order and whitespace.
+ * Ruleset and interpreter definitions can't be compared and are skipped.
+ *
+ * @module
+ */
+
+import type {InterpreterDiagnostic} from './diagnostics.ts';
+import type {CssClassDefinition} from './css_class_generation.ts';
+import {resolve_class_definition} from './css_class_resolution.ts';
+import {extract_segments, parse_css_literal} from './css_literal.ts';
+import {default_modifier_index, type ModifierIndex} from './modifiers.ts';
+
+/**
+ * How to report CSS literals that have an equivalent class.
+ */
+export type LiteralTokensLevel = 'warn' | 'error';
+
+/**
+ * Checks a CSS-literal class name, returning a diagnostic if a class has the same declarations.
+ */
+export type LiteralTokenChecker = (class_name: string) => InterpreterDiagnostic | null;
+
+export interface CreateLiteralTokenCheckerOptions {
+	/** Whether literals with an equivalent class are warnings or errors */
+	level: LiteralTokensLevel;
+	/** The class definitions to suggest, usually the merged definitions */
+	class_definitions: Record<string, CssClassDefinition | undefined>;
+	/** Modifiers recognized in literals, like `hover:` in `hover:border-radius:50%` */
+	modifiers?: ModifierIndex;
+}
+
+/**
+ * Creates a checker that suggests the equivalent token or composite class for a CSS literal.
+ * When several classes have the same declarations, the first definition is suggested.
+ *
+ * @example
+ * ```ts
+ * const check = create_literal_token_checker({level: 'warn', class_definitions: css_class_definitions});
+ * check('hover:padding:$space_md')?.suggestion // 'Use "hover:p_md"'
+ * check('[display:flex;flex-direction:column]')?.suggestion // 'Use "column"'
+ * check('padding:3px') // null
+ * ```
+ */
+export const create_literal_token_checker = (
+	options: CreateLiteralTokenCheckerOptions,
+): LiteralTokenChecker => {
+	const {level, class_definitions, modifiers = default_modifier_index} = options;
+
+	// Reverse index of normalized declarations to class names
+	const index: Map<string, string> = new Map();
+	for (const name in class_definitions) {
+		const definition = class_definitions[name];
+		if (!definition || !('composes' in definition || 'declaration' in definition)) continue;
+		const resolved = resolve_class_definition(definition, name, class_definitions, null, modifiers);
+		if (!resolved.ok) continue;
+		const declarations = split_declarations(resolved.declaration);
+		if (!declarations.length) continue;
+		const key = to_declarations_key(declarations);
+		if (!index.has(key)) index.set(key, name);
+	}
+
+	return (class_name) => {
+		const result = parse_css_literal(class_name, null, modifiers);
+		if (!result.ok) return null;
+		const {declarations} = result.parsed;
+		const name = index.get(
+			to_declarations_key(declarations.map((d) => [d.property, d.value] as const)),
+		);
+		if (!name) return null;
+
+		const segments = extract_segments(class_name);
+		const is_multi_declaration = segments.at(-1)!.startsWith('[');
+		const prefix = segments
+			.slice(0, is_multi_declaration ? -1 : -2)
+			.map((s) => s + ':')
+			.join('');
+		const replacement = prefix + name;
+		return {
+			level: level === 'error' ? 'error' : 'warning',
+			message: `CSS literal is equivalent to the "${name}" class`,
+			identifier: class_name,
+			suggestion: `Use "${replacement}"`,
+			fix: {message: `Replace with "${replacement}"`, replacement},
+		};
+	};
+};
+
+/**
+ * Splits a declaration block into property/value pairs,
+ * skipping comments and keeping semicolons in parentheses.
+ */
+const split_declarations = (
+	declaration: string,
+): Array<readonly [property: string, value: string]> => {
+	const declarations: Array<readonly [property: string, value: string]> = [];
+	let current = '';
+	let depth = 0;
+	const add = () => {
+		const colon = current.indexOf(':');
+		if (colon > 0) {
+			declarations.push([current.slice(0, colon), current.slice(colon + 1)]);
+		}
+		current = '';
+	};
+	for (const char of declaration.replace(/\/\*[\s\S]*?\*\//g, '')) {
+		if (char === '(') depth++;
+		else if (char === ')') depth--;
+		if (char === ';' && depth === 0) add();
+		else current += char;
+	}
+	add();
+	return declarations;
+};
+
+/**
+ * Creates an order-independent key for declarations, normalizing whitespace in values
+ * so `rgb(0,0,0)` and `rgb(0, 0, 0)` match.
+ */
+const to_declarations_key = (
+	declarations: Array<readonly [property: string, value: string]>,
+): string =>
+	declarations
+		.map(([property, value]) => {
+			const normalized = value
+				.trim()
+				.replace(/\s+/g, ' ')
+				.replace(/\s*([(),])\s*/g, '$1');
+			return `${property.trim().toLowerCase()}:${normalized}`;
+		})
+		.sort()
+		.join(';');
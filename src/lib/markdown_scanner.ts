@@ -0,0 +1,223 @@
+/**
+ * Markdown scanning for class extraction from `.md`, `.mdx`, and mdsvex `.svx` files.
+ *
+ * Markdown renders elements implicitly, like `table` for a pipe table and `blockquote` for `>`,
+ * so their base styles are needed even though no tag is written.
+ * This maps markdown constructs to the elements they render,
+ * and blanks out frontmatter and code so embedded HTML and JSX can be scanned
+ * at the same offsets without matching tags inside code.
+ * It's line-based and approximate, erring toward including elements.
+ *
+ * @module
+ */
+
+/**
+ * The result of scanning markdown.
+ */
+export interface MarkdownScanResult {
+	/** Elements rendered by markdown syntax, like `h2` for `## heading` */
+	elements: Set<string>;
+	/** The source with frontmatter and code replaced by spaces, keeping offsets and newlines */
+	markup: string;
+}
+
+const FRONTMATTER_PATTERN = /^---[ \t]*\r?\n[\s\S]*?\n---[ \t]*(?=\r?\n|$)/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const CLOSING_FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})[ \t]*\r?$/;
+const RAW_BLOCK_PATTERN = /^\s*<(script|style)(?=[\s>])/i;
+const INLINE_CODE_PATTERN = /(`+)(?!`)[^\n]*?[^`]\1(?!`)/g;
+const HEADING_PATTERN = /^(#{1,6})(?=\s|$)/;
+const SETEXT_PATTERN = /^(=+|-+)\s*$/;
+const THEMATIC_BREAK_PATTERN = /^([-*_])(\s*\1){2,}\s*$/;
+const TABLE_DELIMITER_PATTERN = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const BLOCKQUOTE_PATTERN = /^>\s?/;
+const BULLET_PATTERN = /^[-*+]\s+/;
+const ORDERED_PATTERN = /^\d{1,9}[.)]\s+/;
+const TASK_PATTERN = /^\[[ xX]\]\s/;
+const HTML_PATTERN = /^<\/?[a-zA-Z]/;
+const HARD_BREAK_PATTERN = /( {2,}|\\)$/;
+
+/**
+ * Inline constructs and the elements they render.
+ */
+const INLINE_PATTERNS: Array<[pattern: RegExp, elements: Array<string>]> = [
+	[/(\*\*|__)(?=\S)[^\n]*?\S\1/, ['strong']],
+	[/(?:^|[^*\\])\*(?![\s*])[^*]*?[^\s\\]\*(?!\*)|(?:^|[^\w])_(?![\s_])[^_]*?\S_(?!\w)/, ['em']],
+	[/~~(?=\S)[^~]*?\S~~/, ['del']],
+	[/!\[[^\]]*\][([]/, ['img']],
+	[/(?:^|[^!])\[[^\]]+\][([]|<(?:https?|mailto):[^\s>]+>/, ['a']],
+];
+
+/**
+ * Replaces everything but newlines with spaces.
+ */
+const blank = (text: string): string => text.replace(/[^\n]/g, ' ');
+
+/**
+ * Scans markdown for the elements it renders and the markup to scan for tags.
+ *
+ * @example
+ * ```ts
+ * const {elements} = scan_markdown('## Notes\n\n> quoted `code`\n');
+ * elements // Set {'h2', 'code', 'blockquote', 'p'}
+ * ```
+ *
+ * @param source - the markdown source
+ * @returns the rendered elements and the markup with code blanked out
+ */
+export const scan_markdown = (source: string): MarkdownScanResult => {
+	const elements: Set<string> = new Set();
+	let markup = '';
+
+	const frontmatter = FRONTMATTER_PATTERN.exec(source);
+	if (frontmatter) markup = blank(frontmatter[0]);
+	const lines = source.slice(markup.length).split('\n');
+
+	let fence: string | null = null; // the open code fence, like ```
+	let raw_close: RegExp | null = null; // the closing tag of an open script or style block
+	let in_paragraph = false;
+	let paragraph_pending = false; // whether the open paragraph hasn't been added as `p` yet
+	let paragraph_lines = 0;
+	let hard_break = false; // whether the previous paragraph line ends with a hard break
+	let in_table = false;
+
+	const end_paragraph = (): void => {
+		if (paragraph_pending) elements.add('p');
+		in_paragraph = false;
+		paragraph_pending = false;
+		paragraph_lines = 0;
+		hard_break = false;
+	};
+
+	const masked_lines = lines.map((line) => {
+		// Fenced code blocks
+		if (fence) {
+			// Closed by the same character, at least as many times, with nothing after
+			const close = CLOSING_FENCE_PATTERN.exec(line)?.[1];
+			if (close && close[0] === fence[0] && close.length >= fence.length) {
+				fence = null;
+			}
+			return blank(line);
+		}
+		const fence_match = FENCE_PATTERN.exec(line);
+		if (fence_match) {
+			end_paragraph();
+			in_table = false;
+			fence = fence_match[1]!;
+			elements.add('pre');
+			elements.add('code');
+			return blank(line);
+		}
+
+		// Script and style blocks are left for the HTML scanner
+		if (raw_close) {
+			if (raw_close.test(line)) raw_close = null;
+			return line;
+		}
+		const raw_match = RAW_BLOCK_PATTERN.exec(line);
+		if (raw_match) {
+			end_paragraph();
+			in_table = false;
+			const close = new RegExp(`</${raw_match[1]}\\s*>`, 'i');
+			if (!close.test(line)) raw_close = close;
+			return line;
+		}
+
+		const masked = line.replace(INLINE_CODE_PATTERN, (code) => {
+			elements.add('code');
+			return blank(code);
+		});
+		let text = masked.trim();
+
+		if (!text) {
+			end_paragraph();
+			in_table = false;
+			return masked;
+		}
+
+		// Setext headings and table delimiters turn the open paragraph into something else
+		if (in_paragraph && SETEXT_PATTERN.test(text)) {
+			paragraph_pending = false;
+			elements.add(text.startsWith('=') ? 'h1' : 'h2');
+			end_paragraph();
+			return masked;
+		}
+		if (in_paragraph && paragraph_lines === 1 && text.includes('|')) {
+			if (TABLE_DELIMITER_PATTERN.test(text)) {
+				paragraph_pending = false;
+				end_paragraph();
+				in_table = true;
+				for (const el of ['table', 'thead', 'tr', 'th']) elements.add(el);
+				return masked;
+			}
+		}
+		if (in_table) {
+			if (text.includes('|')) {
+				for (const el of ['tbody', 'tr', 'td']) elements.add(el);
+				add_inline_elements(text, elements);
+				return masked;
+			}
+			in_table = false;
+		}
+
+		if (THEMATIC_BREAK_PATTERN.test(text)) {
+			end_paragraph();
+			elements.add('hr');
+			return masked;
+		}
+
+		// Container markers, which can nest like `> - item`
+		let in_list = false;
+		for (;;) {
+			const quote = BLOCKQUOTE_PATTERN.exec(text);
+			if (quote) {
+				elements.add('blockquote');
+				text = text.slice(quote[0].length);
+				continue;
+			}
+			const bullet = BULLET_PATTERN.exec(text) ?? ORDERED_PATTERN.exec(text);
+			if (bullet) {
+				elements.add(bullet[0].startsWith('-') || /^[*+]/.test(bullet[0]) ? 'ul' : 'ol');
+				elements.add('li');
+				in_list = true;
+				text = text.slice(bullet[0].length);
+				if (TASK_PATTERN.test(text)) elements.add('input');
+				continue;
+			}
+			break;
+		}
+		if (in_list || text.length < masked.trim().length) end_paragraph();
+
+		const heading = HEADING_PATTERN.exec(text);
+		if (heading) {
+			end_paragraph();
+			elements.add(`h${heading[1]!.length}`);
+		} else if (HTML_PATTERN.test(text)) {
+			end_paragraph();
+		} else if (text && !in_list) {
+			if (!in_paragraph) {
+				in_paragraph = true;
+				paragraph_pending = true;
+			} else if (hard_break) {
+				elements.add('br');
+			}
+			paragraph_lines++;
+			hard_break = HARD_BREAK_PATTERN.test(masked);
+		}
+
+		add_inline_elements(text, elements);
+		return masked;
+	});
+	end_paragraph();
+
+	markup += masked_lines.join('\n');
+	return {elements, markup};
+};
+
+const add_inline_elements = (text: string, elements: Set<string>): void => {
+	for (const [pattern, names] of INLINE_PATTERNS) {
+		if (pattern.test(text)) {
+			for (const name of names) elements.add(name);
+		}
+	}
+};
@@ -0,0 +1,149 @@
+/**
+ * Rewrites class names in source files into canonical modifier order,
+ * fixing the ordering errors reported for classes like `hover:md:p_lg`.
+ *
+ * Uses the extractor's source locations to edit only the class names it finds,
+ * so other text that happens to look like a class is left alone.
+ * See `canonicalize_modifier_order` for the order.
+ *
+ * @module
+ */
+
+import type {SourceLocation} from './diagnostics.ts';
+import {
+	SourceIndex,
+	extract_css_classes_with_locations,
+	type ExtractCssClassesOptions,
+} from './css_class_extractor.ts';
+import {canonicalize_modifier_order} from './css_literal.ts';
+import {default_modifier_index, type ModifierIndex} from './modifiers.ts';
+
+/**
+ * A class name rewritten into canonical modifier order.
+ */
+export interface ModifierOrderEdit {
+	/** The class name as written */
+	class_name: string;
+	/** The class name in canonical order */
+	replacement: string;
+	/** Where the class name starts in the original source */
+	location: SourceLocation;
+}
+
+/**
+ * Options for `fix_modifier_order`, with the extraction options
+ * so classes are found the same way the generator finds them.
+ */
+export interface FixModifierOrderOptions extends ExtractCssClassesOptions {
+	/** The modifier index to order by, defaults to the builtin `MODIFIERS` */
+	modifiers?: ModifierIndex;
+}
+
+export interface FixModifierOrderResult {
+	/** The source with all edits applied, or the original source if there are none */
+	content: string;
+	/** Edits in source order */
+	edits: Array<ModifierOrderEdit>;
+}
+
+/**
+ * Characters that can surround a class name in source text.
+ */
+const CLASS_BOUNDARY_PATTERN = /[\s'"`{}]/;
+
+/**
+ * Svelte class directives like `class:hover:md:p_lg={x}` put the class name
+ * between the directive prefix and the `=`.
+ */
+const CLASS_DIRECTIVE_PREFIX = 'class:';
+
+/**
+ * Rewrites the misordered class names in a source file.
+ * Classes inside variant groups like `md:(hover:focus:p_lg)` are left as-is,
+ * because their source text doesn't contain the full class name.
+ *
+ * @example
+ * ```ts
+ * fix_modifier_order('<div class="box hover:md:p_lg"></div>', {filename: 'a.svelte'}).content
+ * // '<div class="box md:hover:p_lg"></div>'
+ * ```
+ *
+ * @param source - the file contents
+ * @param options - the file name, modifiers, and extraction options
+ * @returns the fixed source and the edits made
+ */
+export const fix_modifier_order = (
+	source: string,
+	options: FixModifierOrderOptions = {},
+): FixModifierOrderResult => {
+	const {modifiers = default_modifier_index, ...extraction_options} = options;
+	const {classes} = extract_css_classes_with_locations(source, extraction_options);
+	if (!classes) return {content: source, edits: []};
+
+	const source_index = new SourceIndex(source);
+	const edits_by_offset: Map<number, ModifierOrderEdit> = new Map();
+	for (const [class_name, locations] of classes) {
+		const replacement = canonicalize_modifier_order(class_name, modifiers);
+		if (replacement === class_name) continue;
+
+		// Classes in the same class list share a location, so each location
+		// finds the next occurrence of the class name from where the last one ended
+		const search_starts: Map<number, number> = new Map();
+		for (const location of locations) {
+			const start = source_index.get_offset(location);
+			if (start === null) continue;
+			const offset = find_class_name(source, class_name, search_starts.get(start) ?? start);
+			if (offset === -1) continue;
+			search_starts.set(start, offset + class_name.length);
+			edits_by_offset.set(offset, {
+				class_name,
+				replacement,
+				location: source_index.get_location(offset, location.file),
+			});
+		}
+	}
+	if (edits_by_offset.size === 0) return {content: source, edits: []};
+
+	const offsets = Array.from(edits_by_offset.keys()).sort((a, b) => a - b);
+	let content = '';
+	let last = 0;
+	for (const offset of offsets) {
+		const edit = edits_by_offset.get(offset)!;
+		content += source.slice(last, offset) + edit.replacement;
+		last = offset + edit.class_name.length;
+	}
+	content += source.slice(last);
+
+	return {content, edits: offsets.map((offset) => edits_by_offset.get(offset)!)};
+};
+
+/**
+ * Finds the next occurrence of a class name that isn't part of a longer token,
+ * either delimited like in a class list or the name of a Svelte class directive.
+ *
+ * @returns the offset, or -1 if not found
+ */
+const find_class_name = (source: string, class_name: string, from: number): number => {
+	for (
+		let offset = source.indexOf(class_name, from);
+		offset !== -1;
+		offset = source.indexOf(class_name, offset + 1)
+	) {
+		const before = source[offset - 1];
+		const after = source[offset + class_name.length];
+		if (
+			(before === undefined || CLASS_BOUNDARY_PATTERN.test(before)) &&
+			(after === undefined || CLASS_BOUNDARY_PATTERN.test(after))
+		) {
+			return offset;
+		}
+		if (
+			after === '=' &&
+			source.startsWith(CLASS_DIRECTIVE_PREFIX, offset - CLASS_DIRECTIVE_PREFIX.length) &&
+			CLASS_BOUNDARY_PATTERN.test(source[offset - CLASS_DIRECTIVE_PREFIX.length - 1] ?? '')
+		) {
+			return offset;
+		}
+	}
+	return -1;
+};
@@ -2,21 +2,46 @@
  * Declarative modifier definitions for CSS-literal syntax.
  *
  * Modifiers enable responsive, state-based, and contextual styling:
- * - Media modifiers: `md:`, `print:`, `motion-safe:`
+ * - Media modifiers: `md:`, `print:`, `motion-safe:`, combined like `md:motion-safe:`
+ * - Container modifiers: `cq-md:`, `cq-sidebar-md:`, `cq(min-width:30rem):`
+ * - Supports modifiers: `supports(display:grid):`, `not-supports(display:grid):`
  * - Ancestor modifiers: `dark:`, `light:`
- * - State modifiers: `hover:`, `focus:`, `disabled:`
- * - Pseudo-element modifiers: `before:`, `after:`
+ * - At-rule modifiers: `starting:` for `@starting-style`
+ * - Group and peer modifiers: `group-hover:`, `peer-checked:`, `group-focus/menu:`
+ * - State modifiers: `hover:`, `focus:`, `disabled:`, `rtl:`
+ * - Selector modifiers: `children:`, `descendants:`, `sel(>li):`, `sel(_svg):`
+ * - Pseudo-element modifiers: `before:`, `after:`, `part(label):`, `view-transition-old(name):`
+ *
+ * Custom modifiers can be configured with the `modifiers` option,
+ * see `resolve_modifiers_option` and `create_modifier_index`.
  *
  * @see {@link https://github.com/fuzdev/fuz_css} for documentation
  * @module
  */
 
+import type {ModifiersOption} from './css_plugin_options.ts';
+import {get_color_scheme_wrappers, type ColorSchemeStrategy} from './color_scheme.ts';
+
 /**
  * Type of modifier determining its position in the class name and CSS output.
  *
- * Order in class names: `[media:][ancestor:][state...:][pseudo-element:]property:value`
+ * Order in class names:
+ * `[...media:][container:][supports:][ancestor:][at-rule:][group:][peer:][state...:][selector:][pseudo-element:]property:value`
+ *
+ * Group and peer modifiers are derived from state modifiers (see `parse_relational_modifier`)
+ * and can't be defined statically.
  */
-export type ModifierType = 'media' | 'ancestor' | 'state' | 'pseudo-element';
+export type ModifierType =
+	| 'media'
+	| 'container'
+	| 'supports'
+	| 'ancestor'
+	| 'at-rule'
+	| 'group'
+	| 'peer'
+	| 'state'
+	| 'selector'
+	| 'pseudo-element';
 
 /**
  * Definition for a single modifier.
@@ -26,12 +51,87 @@ export interface ModifierDefinition {
 	name: string;
 	/** Type determines position in modifier order and CSS output behavior */
 	type: ModifierType;
-	/** The CSS output - wrapper for media/ancestor, suffix for state/pseudo-element */
+	/**
+	 * The CSS output - wrapper for media/ancestor/at-rule, suffix for state/pseudo-element,
+	 * marker selector for group/peer (e.g., '.group:hover'),
+	 * combinator and compound selector for selector modifiers (e.g., '> *')
+	 */
 	css: string;
 	/** Optional ordering within type (for breakpoints, sorted by this value) */
 	order?: number;
+	/**
+	 * Ancestor modifiers only - a second wrapper chain (outermost first) that also matches,
+	 * rendered as a copy of the rule, like the media default of the `'hybrid'` color scheme strategy
+	 */
+	alternative?: Array<string>;
 }
 
+/**
+ * How the `ltr:` and `rtl:` modifiers match the writing direction.
+ *
+ * - `'dir'` - the `:dir()` pseudo-class, matching the element's directionality
+ *   including `dir="auto"` and nested direction changes
+ * - `'attribute'` - `[dir]` ancestor scoping, matching elements inside (or with) a `dir` attribute,
+ *   for browsers without `:dir()` support; the nearest `dir` attribute doesn't win when nested
+ */
+export type DirectionStrategy = 'dir' | 'attribute';
+
+/**
+ * Creates the `ltr:` and `rtl:` state modifiers for a direction strategy.
+ */
+export const create_direction_modifiers = (
+	strategy: DirectionStrategy,
+): Array<ModifierDefinition> =>
+	(['ltr', 'rtl'] as const).map((dir) => ({
+		name: dir,
+		type: 'state',
+		css: strategy === 'dir' ? `:dir(${dir})` : `:where([dir="${dir}"], [dir="${dir}"] *)`,
+	}));
+
+/**
+ * Replaces the `ltr:` and `rtl:` modifiers with the given direction strategy,
+ * for use with the `modifiers` option.
+ *
+ * @example
+ * ```ts
+ * vite_plugin_fuz_css({
+ *   modifiers: (defaults) => with_direction_strategy(defaults, 'attribute'),
+ * });
+ * ```
+ */
+export const with_direction_strategy = (
+	modifiers: Array<ModifierDefinition>,
+	strategy: DirectionStrategy,
+): Array<ModifierDefinition> => [
+	...modifiers.filter((m) => m.name !== 'ltr' && m.name !== 'rtl'),
+	...create_direction_modifiers(strategy),
+];
+
+/**
+ * Creates the `dark:` and `light:` ancestor modifiers for a color scheme strategy.
+ */
+export const create_color_scheme_modifiers = (
+	strategy: ColorSchemeStrategy,
+): Array<ModifierDefinition> =>
+	(['dark', 'light'] as const).map((scheme) => {
+		const [primary, alternative] = get_color_scheme_wrappers(scheme, strategy);
+		const modifier: ModifierDefinition = {name: scheme, type: 'ancestor', css: primary![0]!};
+		if (alternative) modifier.alternative = alternative;
+		return modifier;
+	});
+
+/**
+ * Replaces the `dark:` and `light:` modifiers with the given color scheme strategy.
+ * Prefer the `color_scheme_strategy` plugin option, which also scopes the theme variables.
+ */
+export const with_color_scheme_strategy = (
+	modifiers: Array<ModifierDefinition>,
+	strategy: ColorSchemeStrategy,
+): Array<ModifierDefinition> => [
+	...modifiers.filter((m) => m.name !== 'dark' && m.name !== 'light'),
+	...create_color_scheme_modifiers(strategy),
+];
+
 /**
  * All modifier definitions in a single declarative structure.
  * Adding a new modifier requires only adding to this array.
@@ -61,9 +161,25 @@ export const MODIFIERS: Array<ModifierDefinition> = [
 	{name: 'landscape', type: 'media', css: '@media (orientation: landscape)'},
 	{name: 'forced-colors', type: 'media', css: '@media (forced-colors: active)'},
 
+	// Container modifiers - container query breakpoints (mobile-first),
+	// for elements inside a `container-type` ancestor like the `container` composite.
+	// Named containers are handled dynamically: `cq-sidebar-md:` → `@container sidebar (width >= 48rem)`
+	{name: 'cq-sm', type: 'container', css: '@container (width >= 40rem)', order: 1},
+	{name: 'cq-md', type: 'container', css: '@container (width >= 48rem)', order: 2},
+	{name: 'cq-lg', type: 'container', css: '@container (width >= 64rem)', order: 3},
+	{name: 'cq-xl', type: 'container', css: '@container (width >= 80rem)', order: 4},
+	{name: 'cq-2xl', type: 'container', css: '@container (width >= 96rem)', order: 5},
+	{name: 'cq-max-sm', type: 'container', css: '@container (width < 40rem)', order: 11},
+	{name: 'cq-max-md', type: 'container', css: '@container (width < 48rem)', order: 12},
+	{name: 'cq-max-lg', type: 'container', css: '@container (width < 64rem)', order: 13},
+	{name: 'cq-max-xl', type: 'container', css: '@container (width < 80rem)', order: 14},
+	{name: 'cq-max-2xl', type: 'container', css: '@container (width < 96rem)', order: 15},
+
 	// Ancestor modifiers - color scheme
-	{name: 'dark', type: 'ancestor', css: ':root.dark'},
-	{name: 'light', type: 'ancestor', css: ':root.light'},
+	...create_color_scheme_modifiers('class'),
+
+	// At-rule modifiers - block at-rules nested innermost around the rule
+	{name: 'starting', type: 'at-rule', css: '@starting-style'},
 
 	// State modifiers - interaction (ordered for proper cascade: LVFHA)
 	{name: 'any-link', type: 'state', css: ':any-link'},
@@ -118,6 +234,14 @@ export const MODIFIERS: Array<ModifierDefinition> = [
 	{name: 'paused', type: 'state', css: ':paused'},
 	{name: 'playing', type: 'state', css: ':playing'},
 
+	// State modifiers - writing direction, see `with_direction_strategy` for `[dir]` scoping
+	...create_direction_modifiers('dir'),
+
+	// Selector modifiers - style related elements instead of the element with the class,
+	// arbitrary ones are handled dynamically: `sel(>li):` → `> li`, `sel(_svg):` → `svg`
+	{name: 'children', type: 'selector', css: '> *'},
+	{name: 'descendants', type: 'selector', css: '*'},
+
 	// Pseudo-element modifiers
 	{name: 'before', type: 'pseudo-element', css: '::before'},
 	{name: 'after', type: 'pseudo-element', css: '::after'},
@@ -131,26 +255,140 @@ export const MODIFIERS: Array<ModifierDefinition> = [
 	{name: 'backdrop', type: 'pseudo-element', css: '::backdrop'},
 ];
 
-// Generated lookup maps for efficient access
+/**
+ * Lookup maps for a set of modifier definitions, built by `create_modifier_index`.
+ * Threaded through parsing and generation so custom modifiers
+ * (see the `modifiers` option) are honored consistently.
+ */
+export interface ModifierIndex {
+	/** The definitions this index was built from, in declaration order */
+	definitions: Array<ModifierDefinition>;
+	/** Map of media modifier names to their definitions */
+	media: Map<string, ModifierDefinition>;
+	/** Map of container modifier names to their definitions */
+	container: Map<string, ModifierDefinition>;
+	/** Map of supports modifier names to their definitions */
+	supports: Map<string, ModifierDefinition>;
+	/** Map of ancestor modifier names to their definitions */
+	ancestor: Map<string, ModifierDefinition>;
+	/** Map of at-rule modifier names to their definitions */
+	at_rule: Map<string, ModifierDefinition>;
+	/** Map of state modifier names to their definitions */
+	state: Map<string, ModifierDefinition>;
+	/** Map of selector modifier names to their definitions */
+	selector: Map<string, ModifierDefinition>;
+	/** Map of pseudo-element modifier names to their definitions */
+	pseudo_element: Map<string, ModifierDefinition>;
+	/** All modifier names for quick lookup */
+	names: Set<string>;
+}
+
+/**
+ * Builds a `ModifierIndex` from modifier definitions.
+ *
+ * @param modifiers - the modifier definitions to index
+ * @returns the lookup maps for the definitions
+ * @throws Error if a name is empty, contains a colon, or is defined more than once,
+ *         or if a definition has the derived `group` or `peer` type
+ */
+export const create_modifier_index = (modifiers: Array<ModifierDefinition>): ModifierIndex => {
+	const index: ModifierIndex = {
+		definitions: modifiers,
+		media: new Map(),
+		container: new Map(),
+		supports: new Map(),
+		ancestor: new Map(),
+		at_rule: new Map(),
+		state: new Map(),
+		selector: new Map(),
+		pseudo_element: new Map(),
+		names: new Set(),
+	};
+	for (const m of modifiers) {
+		if (!m.name || m.name.includes(':')) {
+			throw new Error(`Invalid modifier name "${m.name}": must be non-empty and contain no colons`);
+		}
+		if (index.names.has(m.name)) {
+			throw new Error(`Duplicate modifier name "${m.name}"`);
+		}
+		if (m.type === 'group' || m.type === 'peer') {
+			throw new Error(
+				`Invalid modifier "${m.name}": ${m.type} modifiers are derived from state modifiers`,
+			);
+		}
+		if (m.alternative && m.type !== 'ancestor') {
+			throw new Error(`Invalid modifier "${m.name}": only ancestor modifiers have alternatives`);
+		}
+		index.names.add(m.name);
+		if (m.type === 'media') index.media.set(m.name, m);
+		else if (m.type === 'container') index.container.set(m.name, m);
+		else if (m.type === 'supports') index.supports.set(m.name, m);
+		else if (m.type === 'ancestor') index.ancestor.set(m.name, m);
+		else if (m.type === 'at-rule') index.at_rule.set(m.name, m);
+		else if (m.type === 'state') index.state.set(m.name, m);
+		else if (m.type === 'selector') index.selector.set(m.name, m);
+		else index.pseudo_element.set(m.name, m);
+	}
+	return index;
+};
+
+/**
+ * Index of the builtin `MODIFIERS`, used when no `modifiers` option is provided.
+ */
+export const default_modifier_index: ModifierIndex = create_modifier_index(MODIFIERS);
+
+/**
+ * Resolves a `ModifiersOption` to an array of modifier definitions.
+ *
+ * - `undefined` → builtin `MODIFIERS`
+ * - `null` → empty array (only dynamic modifiers like `min-width(...)` and `nth-child(...)`)
+ * - array → used as-is
+ * - function → called with the builtin `MODIFIERS`
+ *
+ * The builtin `dark:` and `light:` modifiers follow `color_scheme_strategy`.
+ */
+export const resolve_modifiers_option = (
+	modifiers: ModifiersOption,
+	color_scheme_strategy: ColorSchemeStrategy = 'class',
+): Array<ModifierDefinition> => {
+	if (modifiers === null) return [];
+	const defaults =
+		color_scheme_strategy === 'class'
+			? MODIFIERS
+			: with_color_scheme_strategy(MODIFIERS, color_scheme_strategy);
+	if (typeof modifiers === 'function') return modifiers(defaults);
+	return modifiers ?? defaults;
+};
+
+/**
+ * Resolves a `ModifiersOption` and builds its `ModifierIndex`,
+ * reusing `default_modifier_index` when the option is `undefined`
+ * and the color scheme strategy is the default `'class'`.
+ */
+export const resolve_modifier_index = (
+	modifiers: ModifiersOption,
+	color_scheme_strategy: ColorSchemeStrategy = 'class',
+): ModifierIndex =>
+	modifiers === undefined && color_scheme_strategy === 'class'
+		? default_modifier_index
+		: create_modifier_index(resolve_modifiers_option(modifiers, color_scheme_strategy));
+
+// Lookup maps for the builtin modifiers
 
 /** Map of media modifier names to their CSS output */
-export const MEDIA_MODIFIERS: Map<string, ModifierDefinition> = new Map();
+export const MEDIA_MODIFIERS: Map<string, ModifierDefinition> = default_modifier_index.media;
+/** Map of container modifier names to their CSS output */
+export const CONTAINER_MODIFIERS: Map<string, ModifierDefinition> =
+	default_modifier_index.container;
 /** Map of ancestor modifier names to their CSS output */
-export const ANCESTOR_MODIFIERS: Map<string, ModifierDefinition> = new Map();
+export const ANCESTOR_MODIFIERS: Map<string, ModifierDefinition> = default_modifier_index.ancestor;
 /** Map of state modifier names to their CSS output */
-export const STATE_MODIFIERS: Map<string, ModifierDefinition> = new Map();
+export const STATE_MODIFIERS: Map<string, ModifierDefinition> = default_modifier_index.state;
 /** Map of pseudo-element modifier names to their CSS output */
-export const PSEUDO_ELEMENT_MODIFIERS: Map<string, ModifierDefinition> = new Map();
+export const PSEUDO_ELEMENT_MODIFIERS: Map<string, ModifierDefinition> =
+	default_modifier_index.pseudo_element;
 /** All modifier names for quick lookup */
-export const ALL_MODIFIER_NAMES: Set<string> = new Set();
-
-for (const m of MODIFIERS) {
-	ALL_MODIFIER_NAMES.add(m.name);
-	if (m.type === 'media') MEDIA_MODIFIERS.set(m.name, m);
-	else if (m.type === 'ancestor') ANCESTOR_MODIFIERS.set(m.name, m);
-	else if (m.type === 'state') STATE_MODIFIERS.set(m.name, m);
-	else if (m.type === 'pseudo-element') PSEUDO_ELEMENT_MODIFIERS.set(m.name, m);
-}
+export const ALL_MODIFIER_NAMES: Set<string> = default_modifier_index.names;
 
 /**
  * Pattern for parameterized nth-child: `nth-child(2n+1):`
@@ -264,7 +502,335 @@ export const parse_arbitrary_breakpoint = (segment: string): string | null => {
 };
 
 /**
- * Parses a parameterized state modifier (nth-child, nth-last-child, nth-of-type, nth-last-of-type).
+ * Kind of a media modifier's condition, determining its canonical position when combined.
+ *
+ * - `type` - a media type like `print`
+ * - `min-width` - a minimum width breakpoint like `md` or `min-width(800px)`
+ * - `max-width` - a maximum width breakpoint like `max-md` or `max-width(800px)`
+ * - `feature` - any other media feature like `motion-safe` or `portrait`
+ */
+export type MediaConditionKind = 'type' | 'min-width' | 'max-width' | 'feature';
+
+/**
+ * A media modifier's condition, parsed for combining and conflict detection.
+ */
+export interface MediaCondition {
+	kind: MediaConditionKind;
+	/** The condition without the `@media` prefix (e.g., "(width >= 48rem)") */
+	condition: string;
+	/** The media type, feature name, or width value being compared */
+	subject: string;
+	/** The feature value for simple `(name: value)` features, otherwise null */
+	value: string | null;
+}
+
+const MEDIA_KIND_RANKS: Record<MediaConditionKind, number> = {
+	type: 0,
+	'min-width': 1,
+	'max-width': 2,
+	feature: 3,
+};
+
+/**
+ * Parses the condition of a media modifier's CSS.
+ *
+ * @param css - the modifier CSS (e.g., "@media (width >= 48rem)")
+ * @returns the parsed condition, or null if the CSS isn't an `@media` rule
+ */
+export const parse_media_condition = (css: string): MediaCondition | null => {
+	if (!css.startsWith('@media ')) return null;
+	const condition = css.slice('@media '.length).trim();
+	if (!condition) return null;
+
+	if (/^(?:(?:not|only)\s+)?[a-z-]+$/.test(condition)) {
+		return {kind: 'type', condition, subject: condition, value: null};
+	}
+	const min_match = /^\(width >= (.+)\)$/.exec(condition);
+	if (min_match) return {kind: 'min-width', condition, subject: min_match[1]!, value: null};
+	const max_match = /^\(width < (.+)\)$/.exec(condition);
+	if (max_match) return {kind: 'max-width', condition, subject: max_match[1]!, value: null};
+	const feature_match = /^\(([a-z-]+):\s*([^()]+)\)$/.exec(condition);
+	if (feature_match) {
+		return {
+			kind: 'feature',
+			condition,
+			subject: feature_match[1]!,
+			value: feature_match[2]!.trim(),
+		};
+	}
+	return {kind: 'feature', condition, subject: condition, value: null};
+};
+
+/**
+ * Converts a breakpoint width to a comparable number, or null for
+ * values that can't be compared statically (e.g., `calc()`).
+ * `em` and `rem` are equivalent in media queries; `px` is kept separate
+ * because the user's font size may differ from 16px.
+ */
+const to_comparable_width = (value: string): {amount: number; unit: string} | null => {
+	const match = /^(\d*\.?\d+)(rem|em|px)$/.exec(value);
+	if (!match) return null;
+	return {amount: Number(match[1]), unit: match[2] === 'px' ? 'px' : 'rem'};
+};
+
+/**
+ * Compares two media modifiers by their canonical order in class names:
+ * the media type first, then the minimum width, the maximum width,
+ * and other features alphabetically by name.
+ *
+ * @returns negative if `a` comes first, positive if `b` comes first, 0 if tied
+ */
+export const compare_media_modifiers = (a: ModifierDefinition, b: ModifierDefinition): number => {
+	const a_condition = parse_media_condition(a.css);
+	const b_condition = parse_media_condition(b.css);
+	const a_rank = a_condition ? MEDIA_KIND_RANKS[a_condition.kind] : MEDIA_KIND_RANKS.feature;
+	const b_rank = b_condition ? MEDIA_KIND_RANKS[b_condition.kind] : MEDIA_KIND_RANKS.feature;
+	if (a_rank !== b_rank) return a_rank - b_rank;
+	return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+};
+
+/**
+ * Detects media modifiers that can't be combined into one query
+ * because they are duplicates, redundant, or contradictory.
+ *
+ * @returns an error message, or null if the modifiers combine cleanly
+ *
+ * @example
+ * ```ts
+ * find_media_conflict(md, motion_safe) // null
+ * find_media_conflict(sm, max_sm) // 'Modifiers "sm" and "max-sm" are contradictory: ...'
+ * ```
+ */
+export const find_media_conflict = (
+	a: ModifierDefinition,
+	b: ModifierDefinition,
+): string | null => {
+	const a_condition = parse_media_condition(a.css);
+	const b_condition = parse_media_condition(b.css);
+	if (!a_condition || !b_condition) {
+		return `Modifiers "${a.name}" and "${b.name}" can't be combined into one media query`;
+	}
+	if (a_condition.condition === b_condition.condition) {
+		return `Duplicate media modifier "${b.name}"`;
+	}
+	const contradictory = `Modifiers "${a.name}" and "${b.name}" are contradictory: ${
+		a_condition.condition
+	} and ${b_condition.condition} never both match`;
+
+	if (a_condition.kind !== b_condition.kind) {
+		// A minimum width at or above the maximum width matches nothing
+		const min = a_condition.kind === 'min-width' ? a_condition : b_condition;
+		const max = a_condition.kind === 'max-width' ? a_condition : b_condition;
+		if (min.kind !== 'min-width' || max.kind !== 'max-width') return null;
+		const min_width = to_comparable_width(min.subject);
+		const max_width = to_comparable_width(max.subject);
+		if (min_width && max_width && min_width.unit === max_width.unit) {
+			if (min_width.amount >= max_width.amount) return contradictory;
+		}
+		return null;
+	}
+
+	switch (a_condition.kind) {
+		case 'type':
+			return contradictory;
+		case 'min-width':
+			return `Modifiers "${a.name}" and "${b.name}" both set a minimum width`;
+		case 'max-width':
+			return `Modifiers "${a.name}" and "${b.name}" both set a maximum width`;
+		case 'feature':
+			// Same feature with different values, like `portrait` and `landscape`
+			if (a_condition.value !== null && a_condition.subject === b_condition.subject) {
+				return contradictory;
+			}
+			return null;
+	}
+};
+
+/**
+ * Wraps a media condition in parens when needed to combine it with `and`.
+ */
+const to_combinable_condition = (condition: MediaCondition): string => {
+	const text = condition.condition;
+	if (condition.kind !== 'feature') return text;
+	// A media query list `(a), (b)` is equivalent to the condition `(a) or (b)`
+	const items = text.split(/\s*,\s*/);
+	if (items.length > 1) return `(${items.join(' or ')})`;
+	if (text.startsWith('not ') || text.includes(' or ')) return `(${text})`;
+	return text;
+};
+
+/**
+ * Combines media modifiers, assumed to be in canonical order and free of conflicts,
+ * into a single modifier with one `@media A and B` query.
+ *
+ * @example
+ * ```ts
+ * combine_media_modifiers([md, motion_safe]).css
+ * // '@media (width >= 48rem) and (prefers-reduced-motion: no-preference)'
+ * ```
+ */
+export const combine_media_modifiers = (
+	media: Array<ModifierDefinition & {is_arbitrary?: boolean}>,
+): ModifierDefinition & {is_arbitrary?: boolean} => {
+	if (media.length === 1) return media[0]!;
+	const conditions = media.map((m) => {
+		const condition = parse_media_condition(m.css);
+		return condition ? to_combinable_condition(condition) : m.css;
+	});
+	return {
+		name: media.map((m) => m.name).join(':'),
+		type: 'media',
+		css: `@media ${conditions.join(' and ')}`,
+		is_arbitrary: media.some((m) => m.is_arbitrary),
+	};
+};
+
+/**
+ * Pattern for container names in named container modifiers like `cq-sidebar-md:`.
+ */
+const CONTAINER_NAME_PATTERN = /^[a-zA-Z_][\w-]*$/;
+
+/**
+ * Parses an arbitrary or named container query modifier.
+ *
+ * - `cq(min-width:30rem)` → `@container (min-width:30rem)`
+ * - `cq(sidebar~(width>=30rem))` → `@container sidebar (width>=30rem)` (`~` becomes a space)
+ * - `cq-sidebar-md` → `@container sidebar (width >= 48rem)`, reusing the `cq-md` definition
+ *
+ * @param segment - the class name segment to parse
+ * @param modifiers - the modifier index providing the named-scale container modifiers
+ * @returns the CSS container query or null if not a container query modifier
+ */
+export const parse_container_query = (
+	segment: string,
+	modifiers: ModifierIndex = default_modifier_index,
+): string | null => {
+	const arbitrary = extract_balanced_parens(segment, 'cq');
+	if (arbitrary !== null) {
+		// Reject anything that could break out of the at-rule prelude
+		if (/[{};]/.test(arbitrary)) return null;
+		const query = arbitrary.replace(/~/g, ' ').trim();
+		if (!query) return null;
+		// Full conditions (`(a) and (b)`) and named ones (`sidebar (a)`) are used as-is
+		if (query.startsWith('(') || /^[a-zA-Z_][\w-]* \(/.test(query)) {
+			return `@container ${query}`;
+		}
+		return `@container (${query})`;
+	}
+
+	if (!segment.startsWith('cq-')) return null;
+
+	// Named container: `cq-{name}-{scale}` where `cq-{scale}` is a container modifier.
+	// Longer scale names are checked first so `cq-sidebar-max-md` resolves to `max-md`.
+	let matched: {name: string; css: string; scale_length: number} | null = null;
+	for (const m of modifiers.container.values()) {
+		if (!m.name.startsWith('cq-') || !m.css.startsWith('@container ')) continue;
+		const scale = m.name.slice(3);
+		if (matched && scale.length <= matched.scale_length) continue;
+		if (!segment.endsWith('-' + scale)) continue;
+		const name = segment.slice(3, -(scale.length + 1));
+		if (!CONTAINER_NAME_PATTERN.test(name)) continue;
+		matched = {
+			name,
+			css: `@container ${name} ${m.css.slice('@container '.length)}`,
+			scale_length: scale.length,
+		};
+	}
+	return matched?.css ?? null;
+};
+
+/**
+ * Functions that are valid supports conditions on their own, without wrapping parens.
+ */
+const SUPPORTS_FUNCTION_PREFIXES = ['selector(', 'font-tech(', 'font-format('];
+
+/**
+ * Parses a feature query modifier, `supports(...)` or its negation `not-supports(...)`.
+ * A bare declaration is wrapped in parens, and `~` becomes a space.
+ *
+ * @returns the CSS `@supports` rule prelude or null if not a feature query modifier
+ *
+ * @example
+ * ```ts
+ * parse_supports_query("supports(display:grid)") // "@supports (display:grid)"
+ * parse_supports_query("supports(selector(:has(a)))") // "@supports selector(:has(a))"
+ * parse_supports_query("not-supports(display:grid)") // "@supports not (display:grid)"
+ * parse_supports_query("supports((display:grid)~and~(gap:1rem))") // "@supports (display:grid) and (gap:1rem)"
+ * ```
+ */
+export const parse_supports_query = (segment: string): string | null => {
+	const negated = segment.startsWith('not-');
+	const content = extract_balanced_parens(negated ? segment.slice(4) : segment, 'supports');
+	if (content === null) return null;
+	// Reject anything that could break out of the at-rule prelude
+	if (/[{};]/.test(content)) return null;
+	const query = content.replace(/~/g, ' ').trim();
+	if (!query) return null;
+
+	const is_condition =
+		query.startsWith('(') || SUPPORTS_FUNCTION_PREFIXES.some((prefix) => query.startsWith(prefix));
+	const condition = is_condition ? query : `(${query})`;
+	if (!negated) return `@supports ${condition}`;
+
+	// `not` takes a single condition, so compound ones like `(a) and (b)` get wrapped
+	const is_single =
+		extract_balanced_parens(condition, '') !== null ||
+		SUPPORTS_FUNCTION_PREFIXES.some(
+			(prefix) => extract_balanced_parens(condition, prefix.slice(0, -1)) !== null,
+		);
+	return `@supports not ${is_single ? condition : `(${condition})`}`;
+};
+
+/**
+ * Functional pseudo-classes that take a selector argument: `has(:checked):`, `not(:last-child):`
+ */
+export const SELECTOR_STATE_FUNCTIONS = ['has', 'is', 'not', 'where'] as const;
+
+/**
+ * Validates the selector argument of a functional pseudo-class like `has(...)`.
+ * Rejects empty selectors and list items, characters that could break out of the rule,
+ * unbalanced brackets or quotes, pseudo-elements (not allowed in these arguments),
+ * and nested `:has()` inside `has()`.
+ */
+const is_valid_selector_argument = (fn: string, selector: string): boolean => {
+	if (!selector || /[{};@\\]/.test(selector) || selector.includes('::')) return false;
+	if (fn === 'has' && selector.includes(':has(')) return false;
+
+	let bracket_depth = 0;
+	let paren_depth = 0;
+	let in_string: string | null = null;
+	let item = '';
+	for (const char of selector) {
+		if (in_string) {
+			if (char === in_string) in_string = null;
+		} else if (char === '"' || char === "'") {
+			in_string = char;
+		} else if (char === '[') {
+			bracket_depth++;
+		} else if (char === ']') {
+			if (--bracket_depth < 0) return false;
+		} else if (char === '(') {
+			paren_depth++;
+		} else if (char === ')') {
+			paren_depth--;
+		} else if (char === ',' && bracket_depth === 0 && paren_depth === 0) {
+			if (!item.trim()) return false;
+			item = '';
+			continue;
+		}
+		item += char;
+	}
+	return !in_string && bracket_depth === 0 && !!item.trim();
+};
+
+/**
+ * Parses a parameterized state modifier:
+ * - nth-child, nth-last-child, nth-of-type, nth-last-of-type with an `An+B` argument
+ * - has, is, not, where with a selector argument, using `~` for spaces
+ *   (e.g., `has(input:invalid)` → `:has(input:invalid)`, `not(.a~.b)` → `:not(.a .b)`)
+ *
+ * The name includes the parameter, so these states sort alphabetically
+ * by their full text like any other state (`has(:checked):hover:`, `not(.a):not(.b):`).
  *
  * @returns object with name (including parameter) and CSS, or null if not parameterized
  */
@@ -307,29 +873,206 @@ export const parse_parameterized_state = (
 		};
 	}
 
+	for (const fn of SELECTOR_STATE_FUNCTIONS) {
+		const content = extract_balanced_parens(segment, fn);
+		if (content === null) continue;
+		const selector = content.replace(/~/g, ' ').trim();
+		if (!is_valid_selector_argument(fn, selector)) return null;
+		return {name: segment, css: `:${fn}(${selector})`, type: 'state'};
+	}
+
+	return null;
+};
+
+/**
+ * Pattern for the optional group/peer name suffix, like `/menu` in `group-hover/menu`.
+ */
+const RELATIONAL_NAME_PATTERN = /\/([a-zA-Z_][\w-]*)$/;
+
+/**
+ * Parses a group or peer modifier, derived from any state modifier:
+ *
+ * - `group-{state}` → `.group{state}` ancestor, e.g. `group-hover` → `.group:hover`
+ * - `peer-{state}` → `.peer{state}` preceding sibling, e.g. `peer-checked` → `.peer:checked`
+ * - `group-{state}/{name}` → named marker class, e.g. `group-hover/menu` → `.group\/menu:hover`
+ *
+ * The returned `css` is the marker selector; generation adds the combinator
+ * (descendant for group, subsequent-sibling `~` for peer), see `generate_relational_prefix`.
+ *
+ * @param segment - the class name segment (e.g., "group-hover", "peer-checked/email")
+ * @param modifiers - the modifier index to look up the state in
+ * @returns the group or peer modifier definition, or null if not a relational modifier
+ */
+export const parse_relational_modifier = (
+	segment: string,
+	modifiers: ModifierIndex = default_modifier_index,
+): ModifierDefinition | null => {
+	const type = segment.startsWith('group-') ? 'group' : segment.startsWith('peer-') ? 'peer' : null;
+	if (!type) return null;
+
+	let state_segment = segment.slice(type.length + 1);
+	let marker: string = type;
+	const name_match = RELATIONAL_NAME_PATTERN.exec(state_segment);
+	if (name_match) {
+		state_segment = state_segment.slice(0, name_match.index);
+		marker += `\\/${name_match[1]}`;
+	}
+
+	const state = get_modifier(state_segment, modifiers);
+	if (state?.type !== 'state') return null;
+
+	return {name: segment, type, css: `.${marker}${state.css}`, order: state.order};
+};
+
+/**
+ * Combinators accepted at the start of `sel(...)`, with `_` standing in for the
+ * descendant combinator since class names can't contain spaces.
+ */
+const SELECTOR_VARIANT_COMBINATORS: Record<string, string> = {
+	'>': '> ',
+	'+': '+ ',
+	'~': '~ ',
+	_: '',
+};
+
+/**
+ * Parses an arbitrary selector modifier: a combinator followed by a single compound selector,
+ * appended after the class (and its states) in generated selectors.
+ *
+ * - `sel(>li)` → `> li` (children matching `li`)
+ * - `sel(_svg)` → `svg` (descendants matching `svg`)
+ * - `sel(+.hint)` → `+ .hint` (the next sibling with class `hint`)
+ * - `sel(~p:hover)` → `~ p:hover` (subsequent hovered `p` siblings)
+ *
+ * The compound selector can't contain whitespace, combinators, selector lists,
+ * pseudo-elements (use a pseudo-element modifier), or characters that could break out of the rule.
+ *
+ * @param segment - the class name segment to parse
+ * @returns the combinator and compound selector, or null if not a valid selector modifier
+ */
+export const parse_selector_variant = (segment: string): string | null => {
+	const content = extract_balanced_parens(segment, 'sel');
+	if (content === null) return null;
+
+	const combinator = SELECTOR_VARIANT_COMBINATORS[content[0]!];
+	if (combinator === undefined) return null;
+
+	const compound = content.slice(1);
+	if (!is_valid_compound_selector(compound)) return null;
+
+	return combinator + compound;
+};
+
+/**
+ * Validates a compound selector for `parse_selector_variant`.
+ * Whitespace, combinators, and commas are only allowed inside brackets or parens,
+ * like `[data-x="a b"]` or `:not(.a,.b)`.
+ */
+const is_valid_compound_selector = (compound: string): boolean => {
+	if (!compound || /[{};@\\]/.test(compound) || compound.includes('::')) return false;
+
+	let depth = 0;
+	let in_string: string | null = null;
+	for (const char of compound) {
+		if (in_string) {
+			if (char === in_string) in_string = null;
+		} else if (char === '"' || char === "'") {
+			in_string = char;
+		} else if (char === '[' || char === '(') {
+			depth++;
+		} else if (char === ']' || char === ')') {
+			if (--depth < 0) return false;
+		} else if (depth === 0 && /[\s>+~,]/.test(char)) {
+			return false;
+		}
+	}
+	return !in_string && depth === 0;
+};
+
+/**
+ * Pattern for identifier arguments like the `search` in `highlight(search)`.
+ */
+const PSEUDO_ELEMENT_IDENT_PATTERN = /^-?[a-zA-Z_][\w-]*$/;
+
+/**
+ * Validates a view transition name argument, an identifier or `*` for all names.
+ */
+const is_view_transition_argument = (arg: string): boolean =>
+	arg === '*' || PSEUDO_ELEMENT_IDENT_PATTERN.test(arg);
+
+/**
+ * Functional pseudo-elements and the validation of their arguments:
+ * `view-transition-old(name):`, `part(label):`, `slotted(*):`, `highlight(search):`
+ */
+export const PSEUDO_ELEMENT_FUNCTIONS: Record<string, (arg: string) => boolean> = {
+	'view-transition-group': is_view_transition_argument,
+	'view-transition-image-pair': is_view_transition_argument,
+	'view-transition-old': is_view_transition_argument,
+	'view-transition-new': is_view_transition_argument,
+	part: (arg) => arg.split(' ').every((name) => PSEUDO_ELEMENT_IDENT_PATTERN.test(name)),
+	slotted: is_valid_compound_selector,
+	highlight: (arg) => PSEUDO_ELEMENT_IDENT_PATTERN.test(arg),
+};
+
+/**
+ * Parses a parameterized pseudo-element modifier, using `~` for spaces in the argument.
+ *
+ * - `view-transition-old(card)` → `::view-transition-old(card)`
+ * - `part(label~active)` → `::part(label active)`
+ * - `slotted(*)` → `::slotted(*)`, the argument must be a compound selector
+ * - `highlight(search)` → `::highlight(search)`
+ *
+ * @param segment - the class name segment to parse
+ * @returns the CSS pseudo-element, or null if not a valid parameterized pseudo-element
+ */
+export const parse_parameterized_pseudo_element = (segment: string): string | null => {
+	for (const fn in PSEUDO_ELEMENT_FUNCTIONS) {
+		const content = extract_balanced_parens(segment, fn);
+		if (content === null) continue;
+		const arg = content.replace(/~/g, ' ').trim();
+		if (!PSEUDO_ELEMENT_FUNCTIONS[fn]!(arg)) return null;
+		return `::${fn}(${arg})`;
+	}
 	return null;
 };
 
 /**
  * Gets the modifier definition for a segment.
- * Handles both static modifiers and dynamic patterns (arbitrary breakpoints, parameterized states).
+ * Handles both static modifiers and dynamic patterns
+ * (arbitrary breakpoints, container queries, feature queries, parameterized states,
+ * parameterized pseudo-elements, group and peer modifiers, arbitrary selector modifiers).
  *
+ * @param segment - the class name segment to look up (e.g., "hover", "md", "min-width(800px)")
+ * @param modifiers - the modifier index to look up static modifiers in
  * @returns the modifier definition or null if not a known modifier
  */
 export const get_modifier = (
 	segment: string,
+	modifiers: ModifierIndex = default_modifier_index,
 ): (ModifierDefinition & {is_arbitrary?: boolean}) | null => {
 	// Check static modifiers first
-	const media = MEDIA_MODIFIERS.get(segment);
+	const media = modifiers.media.get(segment);
 	if (media) return media;
 
-	const ancestor = ANCESTOR_MODIFIERS.get(segment);
+	const container = modifiers.container.get(segment);
+	if (container) return container;
+
+	const supports = modifiers.supports.get(segment);
+	if (supports) return supports;
+
+	const ancestor = modifiers.ancestor.get(segment);
 	if (ancestor) return ancestor;
 
-	const state = STATE_MODIFIERS.get(segment);
+	const at_rule = modifiers.at_rule.get(segment);
+	if (at_rule) return at_rule;
+
+	const state = modifiers.state.get(segment);
 	if (state) return state;
 
-	const pseudo = PSEUDO_ELEMENT_MODIFIERS.get(segment);
+	const selector = modifiers.selector.get(segment);
+	if (selector) return selector;
+
+	const pseudo = modifiers.pseudo_element.get(segment);
 	if (pseudo) return pseudo;
 
 	// Check arbitrary breakpoints
@@ -343,6 +1086,28 @@ export const get_modifier = (
 		};
 	}
 
+	// Check arbitrary and named container queries
+	const container_css = parse_container_query(segment, modifiers);
+	if (container_css) {
+		return {
+			name: segment,
+			type: 'container',
+			css: container_css,
+			is_arbitrary: true,
+		};
+	}
+
+	// Check feature queries
+	const supports_css = parse_supports_query(segment);
+	if (supports_css) {
+		return {
+			name: segment,
+			type: 'supports',
+			css: supports_css,
+			is_arbitrary: true,
+		};
+	}
+
 	// Check parameterized state modifiers
 	const parameterized = parse_parameterized_state(segment);
 	if (parameterized) {
@@ -352,12 +1117,45 @@ export const get_modifier = (
 		};
 	}
 
+	// Check parameterized pseudo-elements
+	const pseudo_element_css = parse_parameterized_pseudo_element(segment);
+	if (pseudo_element_css) {
+		return {
+			name: segment,
+			type: 'pseudo-element',
+			css: pseudo_element_css,
+			is_arbitrary: true,
+		};
+	}
+
+	// Check group and peer modifiers
+	const relational = parse_relational_modifier(segment, modifiers);
+	if (relational) {
+		return {
+			...relational,
+			is_arbitrary: true,
+		};
+	}
+
+	// Check arbitrary selector modifiers
+	const selector_css = parse_selector_variant(segment);
+	if (selector_css) {
+		return {
+			name: segment,
+			type: 'selector',
+			css: selector_css,
+			is_arbitrary: true,
+		};
+	}
+
 	return null;
 };
 
 /**
  * Gets all modifier names for error message suggestions.
  */
-export const get_all_modifier_names = (): Array<string> => {
-	return Array.from(ALL_MODIFIER_NAMES).sort();
+export const get_all_modifier_names = (
+	modifiers: ModifierIndex = default_modifier_index,
+): Array<string> => {
+	return Array.from(modifiers.names).sort();
 };
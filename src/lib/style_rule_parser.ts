@@ -15,6 +15,7 @@ import {hash_blake3} from '@fuzdev/fuz_util/hash_blake3.ts';
 import {extract_css_variables} from './css_variable_utils.ts';
 import type {CacheDeps} from './deps.ts';
 import type {BaseCssOption} from './css_plugin_options.ts';
+import {scope_color_scheme_rule, type ColorSchemeStrategy} from './color_scheme.ts';
 
 /**
  * Base fields shared by all style rules.
@@ -620,15 +621,20 @@ export const get_matching_rules = (
  *
  * @param index - the `StyleRuleIndex`
  * @param included_indices - set of rule indices to include
+ * @param color_scheme_strategy - how `:root.dark` and `:root.light` rules are scoped
  * @returns CSS string with only included rules, in original order
  */
-export const generate_base_css = (index: StyleRuleIndex, included_indices: Set<number>): string => {
+export const generate_base_css = (
+	index: StyleRuleIndex,
+	included_indices: Set<number>,
+	color_scheme_strategy: ColorSchemeStrategy = 'class',
+): string => {
 	// Sort by order to preserve cascade
 	const sorted_indices = Array.from(included_indices).sort((a, b) => a - b);
 
 	const parts: Array<string> = [];
 	for (const idx of sorted_indices) {
-		parts.push(index.rules[idx]!.css);
+		parts.push(scope_color_scheme_rule(index.rules[idx]!.css, color_scheme_strategy));
 	}
 
 	return parts.join('\n\n');
@@ -1,6 +1,7 @@
 import {default_variables} from './variables.ts';
 import {default_themes} from './themes.ts'; // TODO shoudln't be a dep, see usage below
 import type {StyleVariable} from './variable.ts';
+import {render_color_scheme_css, type ColorSchemeStrategy} from './color_scheme.ts';
 
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/CSS/color-scheme
@@ -23,10 +24,20 @@ export interface RenderThemeStyleOptions {
 	 * Accepts any integer >= 1, defaults to 2.
 	 */
 	specificity?: number;
+	/**
+	 * How the dark variables are scoped, defaults to `'class'` for `:root.dark`.
+	 */
+	color_scheme_strategy?: ColorSchemeStrategy;
 }
 
 export const render_theme_style = (theme: Theme, options: RenderThemeStyleOptions = {}): string => {
-	const {comments = false, id = null, empty_default_theme = true, specificity = 2} = options;
+	const {
+		comments = false,
+		id = null,
+		empty_default_theme = true,
+		specificity = 2,
+		color_scheme_strategy = 'class',
+	} = options;
 	const variables =
 		theme.name === default_themes[0]!.name
 			? empty_default_theme
@@ -46,13 +57,7 @@ export const render_theme_style = (theme: Theme, options: RenderThemeStyleOption
 }`
 			: ''
 	}
-${
-	rendered_dark.length
-		? `${scope}.dark {
-	${rendered_dark.join('\n\t')}
-}`
-		: ''
-}
+${render_color_scheme_css('dark', rendered_dark, color_scheme_strategy, scope)}
 `.trim();
 };
 
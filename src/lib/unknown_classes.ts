@@ -0,0 +1,135 @@
+/**
+ * Strict mode for class names that look like fuz_css tokens but don't resolve,
+ * like the typos `p_mdd` and `shade_105`.
+ *
+ * Detected classes without a definition are normally skipped silently,
+ * because they may belong to other CSS systems.
+ * A class is token-like when its family, the name up to its last underscore like `p_`,
+ * matches the family of a static class definition.
+ *
+ * @module
+ */
+
+import {levenshtein_distance} from '@fuzdev/fuz_util/string.ts';
+
+import type {InterpreterDiagnostic} from './diagnostics.ts';
+import type {CssClassDefinition} from './css_class_generation.ts';
+import {extract_segments} from './css_literal.ts';
+import {get_modifier, default_modifier_index, type ModifierIndex} from './modifiers.ts';
+import {create_class_matcher} from './class_patterns.ts';
+
+/**
+ * How to report unknown token-like classes.
+ */
+export type UnknownClassesLevel = 'warn' | 'error';
+
+/**
+ * Checks a class name that didn't resolve, returning a diagnostic if it looks like a token.
+ */
+export type UnknownClassChecker = (class_name: string) => InterpreterDiagnostic | null;
+
+export interface CreateUnknownClassCheckerOptions {
+	/** Whether unknown token-like classes are warnings or errors */
+	level: UnknownClassesLevel;
+	/** The class definitions whose families are token-like */
+	class_definitions: Record<string, CssClassDefinition | undefined>;
+	/** Modifiers allowed before the token, like `hover:` in `hover:p_mdd` */
+	modifiers?: ModifierIndex;
+	/** Classes, patterns, and regexps to never report, like classes owned by other CSS systems */
+	ignore?: Iterable<string | RegExp> | null;
+}
+
+/**
+ * Gets the family of a class name, like `p_` for `p_md` or `color_a_` for `color_a_50`.
+ *
+ * @returns the family, or null if the name has no underscore
+ */
+const get_class_family = (name: string): string | null => {
+	const index = name.lastIndexOf('_');
+	return index > 0 ? name.slice(0, index + 1) : null;
+};
+
+/**
+ * Creates a checker for unknown token-like classes with a suggestion of the nearest definition.
+ *
+ * @example
+ * ```ts
+ * const check = create_unknown_class_checker({level: 'warn', class_definitions: css_class_definitions});
+ * check('hover:p_mdd')?.suggestion // 'Did you mean "hover:p_md"?'
+ * check('app_header') // null
+ * ```
+ */
+export const create_unknown_class_checker = (
+	options: CreateUnknownClassCheckerOptions,
+): UnknownClassChecker => {
+	const {level, class_definitions, modifiers = default_modifier_index, ignore} = options;
+	const ignored = ignore ? create_class_matcher(ignore) : null;
+
+	// Group the static definitions by family
+	const families: Map<string, Array<string>> = new Map();
+	for (const name in class_definitions) {
+		const definition = class_definitions[name];
+		if (!definition || 'interpret' in definition) continue;
+		const family = get_class_family(name);
+		if (!family) continue;
+		const members = families.get(family);
+		if (members) members.push(name);
+		else families.set(family, [name]);
+	}
+
+	return (class_name) => {
+		const segments = extract_segments(class_name);
+		const base = segments.pop();
+		if (!base) return null;
+		// Only modifiers may precede the token, other colons are CSS literals
+		if (segments.some((segment) => !get_modifier(segment, modifiers))) return null;
+
+		const family = get_class_family(base);
+		const members = family && families.get(family);
+		if (!members || ignored?.(class_name)) return null;
+
+		const nearest = find_nearest(base, members);
+		const prefix = segments.map((s) => s + ':').join('');
+		return {
+			level: level === 'error' ? 'error' : 'warning',
+			message: `Unknown class in the "${family}" token family`,
+			identifier: class_name,
+			suggestion: `Did you mean "${prefix}${nearest}"?`,
+		};
+	};
+};
+
+/**
+ * Finds the nearest name by Levenshtein distance, breaking ties by the same length
+ * and then the longest common prefix, so `shade_105` suggests `shade_100` over `shade_05`
+ * and `color_a_55` suggests `color_a_50` over `color_a_05`.
+ */
+const find_nearest = (name: string, candidates: Array<string>): string => {
+	let best = candidates[0]!;
+	let best_score = [Infinity, 0, 0];
+	for (const candidate of candidates) {
+		const score = [
+			levenshtein_distance(name, candidate),
+			candidate.length === name.length ? 0 : 1,
+			-get_common_prefix_length(name, candidate),
+		];
+		if (compare_scores(score, best_score) < 0) {
+			best = candidate;
+			best_score = score;
+		}
+	}
+	return best;
+};
+
+const compare_scores = (a: Array<number>, b: Array<number>): number => {
+	for (let i = 0; i < a.length; i++) {
+		if (a[i] !== b[i]) return a[i]! - b[i]!;
+	}
+	return 0;
+};
+
+const get_common_prefix_length = (a: string, b: string): number => {
+	let i = 0;
+	while (i < a.length && a[i] === b[i]) i++;
+	return i;
+};
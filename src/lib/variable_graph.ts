@@ -16,6 +16,7 @@ import type {StyleVariable} from './variable.ts';
 import {extract_css_variables} from './css_variable_utils.ts';
 
 import type {VariablesOption} from './css_plugin_options.ts';
+import {render_color_scheme_css, type ColorSchemeStrategy} from './color_scheme.ts';
 
 /**
  * Information about a single style variable and its dependencies.
@@ -161,12 +162,14 @@ export const resolve_variables_transitive = (
  * @param graph - the variable dependency graph
  * @param resolved_variables - set of variable names to include
  * @param specificity - number of times to repeat the selector (default 1)
+ * @param color_scheme_strategy - how the dark variables are scoped (default `'class'`)
  * @returns object with `light_css` and `dark_css` strings
  */
 export const generate_theme_css = (
 	graph: VariableDependencyGraph,
 	resolved_variables: Set<string>,
 	specificity = 1,
+	color_scheme_strategy: ColorSchemeStrategy = 'class',
 ): {light_css: string; dark_css: string} => {
 	const light_declarations: Array<string> = [];
 	const dark_declarations: Array<string> = [];
@@ -182,23 +185,19 @@ export const generate_theme_css = (
 			light_declarations.push(`\t--${name}: ${info.light_css};`);
 		}
 		if (info.dark_css !== undefined) {
-			dark_declarations.push(`\t--${name}: ${info.dark_css};`);
+			dark_declarations.push(`--${name}: ${info.dark_css};`);
 		}
 	}
 
 	const scope = ':root'.repeat(specificity);
-	const dark_scope = `${scope}.dark`;
 
 	let light_css = '';
-	let dark_css = '';
 
 	if (light_declarations.length > 0) {
 		light_css = `${scope} {\n${light_declarations.join('\n')}\n}`;
 	}
 
-	if (dark_declarations.length > 0) {
-		dark_css = `${dark_scope} {\n${dark_declarations.join('\n')}\n}`;
-	}
+	const dark_css = render_color_scheme_css('dark', dark_declarations, color_scheme_strategy, scope);
 
 	return {light_css, dark_css};
 };
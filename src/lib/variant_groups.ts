@@ -0,0 +1,169 @@
+/**
+ * Variant groups apply one modifier chain to many classes,
+ * so `md:(p_lg gap_md display:grid)` is shorthand for `md:p_lg md:gap_md md:display:grid`.
+ *
+ * The extractor expands groups to generate CSS for each class,
+ * and `apply_variant_groups` does the same expansion in the DOM
+ * so the `class` attributes match the generated selectors.
+ *
+ * @module
+ */
+
+/**
+ * A class from a class list with variant groups expanded.
+ */
+export interface ClassListToken {
+	/** The class name with group modifiers applied, like `md:p_lg` for `md:(p_lg)` */
+	name: string;
+	/** Offset of the class as written, like `p_lg` in `md:(p_lg)` */
+	offset: number;
+	/** Offset of the top-level token containing the class, the whole group for grouped classes */
+	token_start: number;
+	/** End offset (exclusive) of the top-level token containing the class */
+	token_end: number;
+}
+
+const WHITESPACE_PATTERN = /\s/;
+
+/**
+ * Parses a whitespace-separated class list, expanding variant groups.
+ * A group is a parenthesized class list directly after a modifier colon, like `md:(...)`,
+ * and groups can nest, like `md:(p_lg hover:(color_a_50 shadow_md))`.
+ * Other parentheses like `nth-child(2n)` are part of the class name.
+ * Unclosed groups end at the end of the string.
+ *
+ * @example
+ * ```ts
+ * parse_class_list('box md:(p_lg gap_md)').map((t) => t.name)
+ * // ['box', 'md:p_lg', 'md:gap_md']
+ * ```
+ *
+ * @param value - the class list, like the value of a `class` attribute
+ * @returns the classes in order of appearance
+ */
+export const parse_class_list = (value: string): Array<ClassListToken> => {
+	const tokens: Array<ClassListToken> = [];
+	let i = 0;
+	let token_start = 0;
+
+	const parse_list = (prefix: string, nested: boolean): void => {
+		while (i < value.length) {
+			const char = value[i]!;
+			if (WHITESPACE_PATTERN.test(char)) {
+				i++;
+				continue;
+			}
+			if (char === ')') {
+				i++;
+				if (nested) return;
+				continue; // stray closing paren
+			}
+
+			const start = i;
+			if (!nested) token_start = start;
+			let depth = 0;
+			while (i < value.length) {
+				const c = value[i]!;
+				if (WHITESPACE_PATTERN.test(c)) break;
+				if (c === '(') {
+					if (depth === 0 && value[i - 1] === ':') break; // group start
+					depth++;
+				} else if (c === ')') {
+					if (depth === 0) break; // group end
+					depth--;
+				}
+				i++;
+			}
+			const name = value.slice(start, i);
+
+			if (value[i] === '(') {
+				i++;
+				const first = tokens.length;
+				parse_list(prefix + name, true);
+				if (!nested) {
+					for (let j = first; j < tokens.length; j++) tokens[j]!.token_end = i;
+				}
+			} else {
+				tokens.push({name: prefix + name, offset: start, token_start, token_end: i});
+			}
+		}
+	};
+
+	parse_list('', false);
+	return tokens;
+};
+
+/**
+ * Checks if a class list might contain a variant group, a fast path to skip parsing.
+ */
+export const has_variant_group = (value: string): boolean => value.includes(':(');
+
+/**
+ * Expands the variant groups in a class list.
+ *
+ * @example
+ * ```ts
+ * expand_variant_groups('box md:(p_lg hover:(shadow_md))') // 'box md:p_lg md:hover:shadow_md'
+ * ```
+ *
+ * @param value - the class list
+ * @returns the class list with groups expanded and whitespace normalized,
+ * or `value` unchanged if it has no groups
+ */
+export const expand_variant_groups = (value: string): string => {
+	if (!has_variant_group(value)) return value;
+	return parse_class_list(value)
+		.map((t) => t.name)
+		.join(' ');
+};
+
+const VARIANT_GROUP_SELECTOR = '[class*=":("]';
+
+const expand_class_attribute = (el: Element): void => {
+	const value = el.getAttribute('class');
+	if (value && has_variant_group(value)) {
+		el.setAttribute('class', expand_variant_groups(value));
+	}
+};
+
+/**
+ * Expands variant groups in the `class` attributes of `root` and its descendants.
+ * Call after rendering, and use `observe_variant_groups` for content
+ * that renders or updates its classes later.
+ *
+ * @param root - the element or document to expand in
+ */
+export const apply_variant_groups = (root: ParentNode = document): void => {
+	if ('getAttribute' in root) expand_class_attribute(root as Element);
+	for (const el of root.querySelectorAll(VARIANT_GROUP_SELECTOR)) {
+		expand_class_attribute(el);
+	}
+};
+
+/**
+ * Expands variant groups in `root` now and whenever elements are added or their classes change.
+ *
+ * @param root - the element or document to observe
+ * @returns a function that stops observing
+ */
+export const observe_variant_groups = (root: ParentNode = document): (() => void) => {
+	apply_variant_groups(root);
+	const observer = new MutationObserver((mutations) => {
+		for (const mutation of mutations) {
+			if (mutation.type === 'attributes') {
+				expand_class_attribute(mutation.target as Element);
+			} else {
+				for (const node of mutation.addedNodes) {
+					if (node.nodeType === 1) apply_variant_groups(node as Element);
+				}
+			}
+		}
+	});
+	observer.observe(root, {
+		subtree: true,
+		childList: true,
+		attributes: true,
+		attributeFilter: ['class'],
+	});
+	return () => observer.disconnect();
+};
@@ -37,17 +37,22 @@ import {extract_file_cached} from './extract_file_cached.ts';
 import {merge_class_definitions} from './css_class_definitions.ts';
 import {css_class_interpreters} from './css_class_interpreters.ts';
 import {load_css_properties} from './css_literal.ts';
+import {load_css_value_index, type CssValueIndex} from './css_value_validation.ts';
+import {resolve_modifier_index} from './modifiers.ts';
+import {create_unknown_class_checker} from './unknown_classes.ts';
+import {create_literal_token_checker} from './literal_tokens.ts';
 import {
 	DEFAULT_CACHE_DIR,
 	get_file_cache_path,
+	create_extraction_fingerprint,
 	save_cached_extraction,
 	delete_cached_extraction,
 } from './css_cache.ts';
 import {default_cache_deps} from './deps_defaults.ts';
-import {filter_file_default} from './file_filter.ts';
+import {create_filter_file} from './file_filter.ts';
 import {CssClasses} from './css_classes.ts';
 import type {StyleRuleIndex} from './style_rule_parser.ts';
-import {type VariableDependencyGraph, get_all_variable_names} from './variable_graph.ts';
+import {get_all_variable_names, build_variable_graph_from_options} from './variable_graph.ts';
 import {extract_css_variables} from './css_variable_utils.ts';
 import type {CssClassVariableIndex} from './class_variable_index.ts';
 import type {CssGeneratorBaseOptions} from './css_plugin_options.ts';
@@ -127,19 +132,28 @@ export interface VitePluginFuzCssOptions extends CssGeneratorBaseOptions {}
  */
 export const vite_plugin_fuz_css = (options: VitePluginFuzCssOptions = {}): Plugin => {
 	const {
-		filter_file = filter_file_default,
+		filter_file: filter_file_option,
 		class_definitions: user_class_definitions,
 		include_default_classes = true,
 		class_interpreters = css_class_interpreters,
+		modifiers,
+		template_class_limit,
 		additional_classes,
 		exclude_classes,
 		acorn_plugins,
+		extractors,
+		class_utility_functions,
+		class_name_pattern,
 		on_error = is_ci ? 'throw' : 'log',
 		on_warning = 'log',
+		unknown_classes,
+		unknown_classes_ignore,
+		literal_tokens,
 		cache_dir = DEFAULT_CACHE_DIR,
 		base_css,
 		variables,
 		theme_specificity = 1,
+		color_scheme_strategy = 'class',
 		additional_elements,
 		additional_variables,
 		exclude_elements,
@@ -147,22 +161,62 @@ export const vite_plugin_fuz_css = (options: VitePluginFuzCssOptions = {}): Plug
 		deps = default_cache_deps,
 	} = options;
 
+	// Custom extractors add their files to the default filter,
+	// and options that change extraction output are part of the cache key
+	const filter_file = filter_file_option ?? create_filter_file(extractors);
+	const fingerprint = create_extraction_fingerprint({
+		extractors,
+		class_utility_functions,
+		class_name_pattern,
+	});
+
 	// Derive include flags from null check
 	const include_base = base_css !== null;
 	const include_theme = variables !== null;
 
+	// Theme variables validate `$token` shorthand even without theme output,
+	// and before the bundled resources load
+	const variable_graph = build_variable_graph_from_options(variables);
+
+	// Resolve modifiers upfront (validates names are unique)
+	const modifier_index = resolve_modifier_index(modifiers, color_scheme_strategy);
+
 	// Merge class definitions (validates that definitions exist when needed)
 	const all_class_definitions = merge_class_definitions(
 		user_class_definitions,
 		include_default_classes,
 	);
 
+	// Strict mode for token-like classes that don't resolve
+	const unknown_class_checker = unknown_classes
+		? create_unknown_class_checker({
+				level: unknown_classes,
+				class_definitions: all_class_definitions,
+				modifiers: modifier_index,
+				ignore: unknown_classes_ignore,
+			})
+		: null;
+
+	// Lint for literals that have an equivalent class
+	const literal_token_checker = literal_tokens
+		? create_literal_token_checker({
+				level: literal_tokens,
+				class_definitions: all_class_definitions,
+				modifiers: modifier_index,
+			})
+		: null;
+
 	// Convert to Sets for efficient lookup
 	const include_set = additional_classes ? new Set(additional_classes) : null;
 	const exclude_set = exclude_classes ? new Set(exclude_classes) : null;
 
 	// Plugin state
-	const css_classes = new CssClasses(include_set, exclude_set);
+	const css_classes = new CssClasses(
+		include_set,
+		exclude_set,
+		all_class_definitions,
+		template_class_limit,
+	);
 	const hashes: Map<string, string> = new Map();
 	/** CSS variables detected per file via simple regex scan (filtered against theme) */
 	const detected_variables_by_file: Map<string, Set<string>> = new Map();
@@ -180,6 +234,7 @@ export const vite_plugin_fuz_css = (options: VitePluginFuzCssOptions = {}): Plug
 	let server: ViteDevServer | null = null;
 	let logger: ViteLogger | null = null;
 	let css_properties: Set<string> | null = null;
+	let css_value_index: CssValueIndex | null = null;
 	let resolved_cache_dir: string | null = null;
 	let project_root: string | null = null;
 	let hmr_timeout: ReturnType<typeof setTimeout> | null = null;
@@ -197,10 +252,10 @@ export const vite_plugin_fuz_css = (options: VitePluginFuzCssOptions = {}): Plug
 
 	/**
 	 * Records every `var(--*)` reference in a file via regex scan. Stored unfiltered;
-	 * `render_css` narrows to theme variables once `variable_graph` is loaded.
+	 * `render_css` narrows to theme variables.
 	 *
 	 * Filtering here (the old behavior) silently dropped detections from any file
-	 * transformed before the graph loads — and the graph loads lazily on the first
+	 * transformed before the graph loaded — it used to load lazily on the first
 	 * `load()`. In SvelteKit dev, route nodes (e.g. `+page.svelte`) are resolved, and
 	 * thus transformed, during SSR *before* the layout's `virtual:fuz.css` import
 	 * triggers that first `load()`; a theme `var()` used only there was dropped, and
@@ -217,7 +272,6 @@ export const vite_plugin_fuz_css = (options: VitePluginFuzCssOptions = {}): Plug
 
 	// Bundled CSS resources (loaded lazily on first CSS generation when bundled mode is enabled)
 	let style_rule_index: StyleRuleIndex | null = null;
-	let variable_graph: VariableDependencyGraph | null = null;
 	let class_variable_index: CssClassVariableIndex | null = null;
 
 	// Promise for in-flight resource loading (prevents duplicate loads)
@@ -234,11 +288,11 @@ export const vite_plugin_fuz_css = (options: VitePluginFuzCssOptions = {}): Plug
 			const resources = await create_bundled_resources({
 				base_css,
 				variables,
+				variable_graph,
 				class_definitions: all_class_definitions,
 				deps,
 			});
 			style_rule_index = resources.style_rule_index;
-			variable_graph = resources.variable_graph;
 			class_variable_index = resources.class_variable_index;
 		})();
 		await bundled_resources_promise;
@@ -276,18 +330,14 @@ export const vite_plugin_fuz_css = (options: VitePluginFuzCssOptions = {}): Plug
 
 		// Aggregate per-file `var(--*)` references (stored unfiltered by
 		// `update_detected_variables`) and narrow to theme variables — non-theme refs
-		// may be user-defined and have no definition to emit. The graph is loaded at
-		// every render-time call site (`load()`/HMR/`generateBundle` all run after
-		// `ensure_bundled_resources`); when it isn't (utility-only mode), variables
-		// aren't emitted anyway. `generate_css` merges in `explicit_variables`.
-		const theme_var_names = variable_graph ? get_all_variable_names(variable_graph) : null;
+		// may be user-defined and have no definition to emit. In utility-only mode
+		// variables aren't emitted anyway. `generate_css` merges in `explicit_variables`.
+		const theme_var_names = get_all_variable_names(variable_graph);
 		const detected_css_variables: Set<string> = new Set();
-		if (theme_var_names) {
-			for (const vars of detected_variables_by_file.values()) {
-				for (const v of vars) {
-					if (theme_var_names.has(v)) {
-						detected_css_variables.add(v);
-					}
+		for (const vars of detected_variables_by_file.values()) {
+			for (const v of vars) {
+				if (theme_var_names.has(v)) {
+					detected_css_variables.add(v);
 				}
 			}
 		}
@@ -303,12 +353,17 @@ export const vite_plugin_fuz_css = (options: VitePluginFuzCssOptions = {}): Plug
 			detected_css_variables,
 			class_definitions: all_class_definitions,
 			interpreters: class_interpreters,
+			modifiers: modifier_index,
+			unknown_class_checker,
+			literal_token_checker,
 			css_properties,
+			css_value_index,
+			variable_graph,
 			include_base,
 			include_theme,
 			// Resources load lazily; null until ready falls back to utility-only.
 			resources:
-				style_rule_index && variable_graph && class_variable_index
+				style_rule_index && class_variable_index
 					? {style_rule_index, variable_graph, class_variable_index}
 					: null,
 			additional_elements,
@@ -316,6 +371,7 @@ export const vite_plugin_fuz_css = (options: VitePluginFuzCssOptions = {}): Plug
 			exclude_elements,
 			exclude_variables,
 			theme_specificity,
+			color_scheme_strategy,
 		});
 
 		// Separate errors and warnings
@@ -458,8 +514,9 @@ export const vite_plugin_fuz_css = (options: VitePluginFuzCssOptions = {}): Plug
 		},
 
 		async buildStart() {
-			// Load CSS properties for validation (needed for transform())
+			// Load CSS properties and value grammars for validation (needed for transform())
 			css_properties = await load_css_properties();
+			css_value_index = await load_css_value_index();
 			// Note: Bundled CSS resources (style_rule_index, variable_graph, class_variable_index)
 			// are loaded lazily on first load() call via ensure_bundled_resources()
 		},
@@ -626,6 +683,10 @@ export const vite_plugin_fuz_css = (options: VitePluginFuzCssOptions = {}): Plug
 				cache_path,
 				filename: id,
 				acorn_plugins,
+				extractors,
+				class_utility_functions,
+				class_name_pattern,
+				fingerprint,
 			});
 
 			// Bail if the file was deleted or re-transformed during the cache read;
@@ -656,9 +717,11 @@ export const vite_plugin_fuz_css = (options: VitePluginFuzCssOptions = {}): Plug
 
 			// Save to cache (fire and forget - don't block transform)
 			if (cache_path_to_write) {
-				save_cached_extraction(deps, cache_path_to_write, hash, extraction).catch(() => {
-					// Ignore cache errors
-				});
+				save_cached_extraction(deps, cache_path_to_write, hash, extraction, fingerprint).catch(
+					() => {
+						// Ignore cache errors
+					},
+				);
 			}
 
 			// Trigger HMR if virtual module already loaded
@@ -0,0 +1,130 @@
+import {test, describe, assert} from 'vitest';
+
+import {generate_classes_css} from '$lib/css_class_generation.ts';
+import {
+	alpha_class_interpreter,
+	css_class_interpreters,
+	resolve_alpha_class,
+} from '$lib/css_class_interpreters.ts';
+import {css_class_definitions} from '$lib/css_class_definitions.ts';
+import {default_modifier_index} from '$lib/modifiers.ts';
+import {assert_css_contains, assert_diagnostic} from './test_helpers.ts';
+
+/**
+ * Tests for the alpha suffix on color token classes like `bg_a_50/30`.
+ */
+describe('alpha_class_interpreter', () => {
+	const generate = (class_names: Array<string>) =>
+		generate_classes_css({
+			class_names,
+			class_definitions: css_class_definitions,
+			interpreters: css_class_interpreters,
+			css_properties: null,
+		});
+
+	test('generates color-mix for bg_a_50/30', () => {
+		const result = generate(['bg_a_50/30']);
+		assert_css_contains(
+			result.css,
+			'.bg_a_50\\/30 { background-color: color-mix(in hsl, var(--color_a_50) 30%, transparent); }',
+		);
+		assert.lengthOf(result.diagnostics, 0);
+	});
+
+	test('mixes the contextual variable along with the property', () => {
+		const result = generate(['color_b_60/80', 'border_color_a_50/50']);
+		assert_css_contains(
+			result.css,
+			'color: color-mix(in hsl, var(--color_b_60) 80%, transparent);',
+			'--text_color: color-mix(in hsl, var(--color_b_60) 80%, transparent);',
+			'border-color: color-mix(in hsl, var(--color_a_50) 50%, transparent);',
+			'--border_color: color-mix(in hsl, var(--color_a_50) 50%, transparent);',
+		);
+	});
+
+	test('collects the underlying variables', () => {
+		const result = generate(['bg_a_50/30', 'hover:color_b_60/80']);
+		assert.sameMembers([...result.variables_used], ['color_a_50', 'color_b_60']);
+	});
+
+	test('supports modifiers', () => {
+		const result = generate(['hover:bg_a_50/30', 'md:dark:color_a_50/100']);
+		assert_css_contains(
+			result.css,
+			'.hover\\:bg_a_50\\/30:hover { background-color: color-mix(in hsl, var(--color_a_50) 30%, transparent); }',
+			'@media (width >= 48rem)',
+			'.md\\:dark\\:color_a_50\\/100',
+		);
+	});
+
+	test('errors for classes without color variables', () => {
+		const result = generate(['p_md/30']);
+		assert.equal(result.css, '');
+		assert_diagnostic(result.diagnostics, 'error', 'Class "p_md" has no color variable');
+	});
+
+	test('errors for alpha over 100', () => {
+		const result = generate(['bg_a_50/150']);
+		assert.equal(result.css, '');
+		assert_diagnostic(result.diagnostics, 'error', 'Invalid alpha "150"');
+	});
+
+	test('ignores unknown base classes', () => {
+		const result = generate_classes_css({
+			class_names: ['unknown_class/30'],
+			class_definitions: css_class_definitions,
+			interpreters: [alpha_class_interpreter],
+			css_properties: null,
+		});
+		assert.equal(result.css, '');
+		assert.lengthOf(result.diagnostics, 0);
+	});
+});
+
+describe('resolve_alpha_class', () => {
+	const ctx = {
+		diagnostics: [],
+		class_definitions: {
+			accent: {composes: ['bg_accent']},
+			bg_accent: {declaration: 'background-color: var(--accent); padding: var(--space_md);'},
+			fill_accent: {declaration: 'fill: var(--accent);'},
+			literal_color: {declaration: 'color: red;'},
+		},
+		css_properties: null,
+		modifiers: default_modifier_index,
+		variable_graph: null,
+		css_value_index: null,
+	};
+
+	test('mixes only color properties', () => {
+		const result = resolve_alpha_class('bg_accent/40', ctx);
+		assert.deepEqual(result, {
+			ok: true,
+			declaration:
+				'background-color: color-mix(in hsl, var(--accent) 40%, transparent); padding: var(--space_md);',
+		});
+	});
+
+	test('resolves composes', () => {
+		const result = resolve_alpha_class('accent/0', ctx);
+		assert.ok(result?.ok);
+		assert.include(result.declaration, 'var(--accent) 0%');
+	});
+
+	test('mixes fill', () => {
+		const result = resolve_alpha_class('fill_accent/50', ctx);
+		assert.ok(result?.ok);
+		assert.include(result.declaration, 'fill: color-mix(in hsl, var(--accent) 50%');
+	});
+
+	test('requires a variable value', () => {
+		const result = resolve_alpha_class('literal_color/50', ctx);
+		assert.isFalse(result?.ok);
+	});
+
+	test('returns null without an alpha suffix', () => {
+		assert.isNull(resolve_alpha_class('bg_accent', ctx));
+		assert.isNull(resolve_alpha_class('hover:bg_accent/40', ctx));
+		assert.isNull(resolve_alpha_class('bg_accent/4x', ctx));
+	});
+});
@@ -0,0 +1,71 @@
+import {test, assert, describe} from 'vitest';
+
+import {
+	DEFAULT_CLASS_NAME_PATTERN,
+	DEFAULT_CLASS_UTILITY_FUNCTIONS,
+	default_class_detection,
+	resolve_class_detection,
+	to_class_detection_fingerprint,
+} from '$lib/class_detection.ts';
+
+describe('resolve_class_detection', () => {
+	test('returns the defaults without options', () => {
+		assert.strictEqual(resolve_class_detection({}), default_class_detection);
+		assert.sameMembers(
+			[...default_class_detection.utility_functions],
+			[...DEFAULT_CLASS_UTILITY_FUNCTIONS],
+		);
+		assert.strictEqual(default_class_detection.name_pattern, DEFAULT_CLASS_NAME_PATTERN);
+	});
+
+	test('replaces the utility functions with an array', () => {
+		const detection = resolve_class_detection({class_utility_functions: ['fz']});
+		assert.deepEqual([...detection.utility_functions], ['fz']);
+		assert.strictEqual(detection.name_pattern, DEFAULT_CLASS_NAME_PATTERN);
+	});
+
+	test('extends the utility functions with a callback', () => {
+		const detection = resolve_class_detection({
+			class_utility_functions: (defaults) => [...defaults, 'merge_classes'],
+		});
+		assert.isTrue(detection.utility_functions.has('clsx'));
+		assert.isTrue(detection.utility_functions.has('merge_classes'));
+	});
+
+	test('replaces or extends the name pattern', () => {
+		assert.isTrue(resolve_class_detection({class_name_pattern: /_tw$/}).name_pattern.test('a_tw'));
+		const {name_pattern} = resolve_class_detection({
+			class_name_pattern: (pattern) => new RegExp(`${pattern.source}|_(style|tw)$`, pattern.flags),
+		});
+		assert.isTrue(name_pattern.test('button_classes'));
+		assert.isTrue(name_pattern.test('card_style'));
+		assert.isTrue(name_pattern.test('header_tw'));
+		assert.isFalse(name_pattern.test('styles_count'));
+	});
+
+	test('removes global and sticky flags', () => {
+		const {name_pattern} = resolve_class_detection({class_name_pattern: /_tw$/gy});
+		assert.strictEqual(name_pattern.flags, '');
+		assert.isTrue(name_pattern.test('a_tw'));
+		assert.isTrue(name_pattern.test('a_tw'));
+	});
+});
+
+describe('to_class_detection_fingerprint', () => {
+	test('returns null for options equal to the defaults', () => {
+		assert.isNull(to_class_detection_fingerprint({}));
+		assert.isNull(to_class_detection_fingerprint({class_utility_functions: (d) => d.reverse()}));
+		assert.isNull(to_class_detection_fingerprint({class_name_pattern: (p) => p}));
+	});
+
+	test('changes with the functions and pattern', () => {
+		const fingerprints = new Set([
+			to_class_detection_fingerprint({class_utility_functions: ['fz']}),
+			to_class_detection_fingerprint({class_utility_functions: ['fz', 'cn']}),
+			to_class_detection_fingerprint({class_name_pattern: /_tw$/}),
+			to_class_detection_fingerprint({class_name_pattern: /_tw$/i}),
+		]);
+		assert.strictEqual(fingerprints.size, 4);
+		assert.notInclude([...fingerprints], null);
+	});
+});
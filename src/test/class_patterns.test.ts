@@ -0,0 +1,124 @@
+import {test, assert, describe} from 'vitest';
+
+import {
+	create_class_matcher,
+	expand_braces,
+	expand_class_pattern,
+	is_class_pattern,
+} from '$lib/class_patterns.ts';
+import type {CssClassDefinition} from '$lib/css_class_generation.ts';
+
+const class_definitions: Record<string, CssClassDefinition | undefined> = {
+	bg_a_50: {declaration: 'background-color: var(--color_a_50);'},
+	bg_b_50: {declaration: 'background-color: var(--color_b_50);'},
+	bg_a_60: {declaration: 'background-color: var(--color_a_60);'},
+	pt_sm: {declaration: 'padding-top: var(--space_sm);'},
+	pb_sm: {declaration: 'padding-bottom: var(--space_sm);'},
+	box: {composes: ['display:flex']},
+	grid_cols: {pattern: /^grid_cols_\d+$/, interpret: () => null},
+};
+
+describe('is_class_pattern', () => {
+	test('detects globs and braces', () => {
+		assert.isTrue(is_class_pattern('bg_*_50'));
+		assert.isTrue(is_class_pattern('shade_?0'));
+		assert.isTrue(is_class_pattern('p{t,b}_md'));
+		assert.isTrue(is_class_pattern('md:hover:*'));
+	});
+
+	test('ignores literal classes', () => {
+		assert.isFalse(is_class_pattern('bg_a_50'));
+		assert.isFalse(is_class_pattern('hover:display:flex'));
+		assert.isFalse(is_class_pattern('width:calc(100%-1px)'));
+		assert.isFalse(is_class_pattern('{single}'));
+	});
+
+	test('ignores wildcards and braces in parentheses and quotes', () => {
+		assert.isFalse(is_class_pattern('width:calc(2*var(--space_md))'));
+		assert.isFalse(is_class_pattern("content:'?'"));
+		assert.isFalse(is_class_pattern('content:"{a,b}"'));
+		assert.isTrue(is_class_pattern('md:width:calc(2*var(--space_md))_*'));
+	});
+});
+
+describe('expand_braces', () => {
+	test('expands the product of groups', () => {
+		assert.deepEqual(expand_braces('p{t,b}_{sm,md}'), ['pt_sm', 'pt_md', 'pb_sm', 'pb_md']);
+	});
+
+	test('expands nested groups', () => {
+		assert.deepEqual(expand_braces('{a,b{1,2}}_x'), ['a_x', 'b1_x', 'b2_x']);
+	});
+
+	test('keeps braces without commas', () => {
+		assert.deepEqual(expand_braces('a{b}c'), ['a{b}c']);
+		assert.deepEqual(expand_braces('{x}_{y,z}'), ['{x}_y', '{x}_z']);
+	});
+
+	test('keeps empty alternatives', () => {
+		assert.deepEqual(expand_braces('p{,t}_sm'), ['p_sm', 'pt_sm']);
+	});
+});
+
+describe('expand_class_pattern', () => {
+	test('matches globs against class definitions', () => {
+		assert.deepEqual(expand_class_pattern('bg_*_50', class_definitions), ['bg_a_50', 'bg_b_50']);
+		assert.deepEqual(expand_class_pattern('bg_a_?0', class_definitions), ['bg_a_50', 'bg_a_60']);
+	});
+
+	test('expands braces', () => {
+		assert.deepEqual(expand_class_pattern('p{t,b}_sm', class_definitions), ['pt_sm', 'pb_sm']);
+	});
+
+	test('keeps brace alternatives without wildcards as-is', () => {
+		assert.deepEqual(expand_class_pattern('opacity:{50%,80%}', class_definitions), [
+			'opacity:50%',
+			'opacity:80%',
+		]);
+	});
+
+	test('applies modifiers to each match', () => {
+		assert.deepEqual(expand_class_pattern('md:hover:bg_*_50', class_definitions), [
+			'md:hover:bg_a_50',
+			'md:hover:bg_b_50',
+		]);
+		assert.deepEqual(expand_class_pattern('{sm,md}:box*', class_definitions), ['sm:box', 'md:box']);
+	});
+
+	test('skips interpreters', () => {
+		assert.notInclude(expand_class_pattern('*', class_definitions), 'grid_cols');
+	});
+
+	test('matches nothing with wildcards in modifiers', () => {
+		assert.deepEqual(expand_class_pattern('*:box', class_definitions), []);
+	});
+
+	test('returns an empty array for no matches', () => {
+		assert.deepEqual(expand_class_pattern('shade_*', class_definitions), []);
+	});
+});
+
+describe('create_class_matcher', () => {
+	test('matches names, patterns, and regexps', () => {
+		const matcher = create_class_matcher(['box', 'md:*', 'p{t,b}_sm', /^shade_\d+$/]);
+		assert.ok(matcher);
+		assert.isTrue(matcher('box'));
+		assert.isTrue(matcher('md:hover:display:flex'));
+		assert.isTrue(matcher('pb_sm'));
+		assert.isTrue(matcher('shade_50'));
+		assert.isFalse(matcher('boxes'));
+		assert.isFalse(matcher('lg:box'));
+		assert.isFalse(matcher('shade_max'));
+	});
+
+	test('ignores the state of global regexps', () => {
+		const matcher = create_class_matcher([/^bg_/g]);
+		assert.ok(matcher);
+		assert.isTrue(matcher('bg_a_50'));
+		assert.isTrue(matcher('bg_a_50'));
+	});
+
+	test('returns null for no patterns', () => {
+		assert.isNull(create_class_matcher([]));
+	});
+});
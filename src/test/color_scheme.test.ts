@@ -0,0 +1,111 @@
+import {test, assert, describe} from 'vitest';
+
+import {
+	get_color_scheme_marker,
+	get_color_scheme_wrappers,
+	render_color_scheme_css,
+	scope_color_scheme_rule,
+	type ColorSchemeStrategy,
+} from '$lib/color_scheme.ts';
+import {render_theme_style} from '$lib/theme.ts';
+
+describe('get_color_scheme_wrappers', () => {
+	test.each<[ColorSchemeStrategy, Array<Array<string>>]>([
+		['class', [[':root.dark']]],
+		['attribute', [[':root[data-theme="dark"]']]],
+		['media', [['@media (prefers-color-scheme: dark)']]],
+		['hybrid', [[':root.dark'], ['@media (prefers-color-scheme: dark)', ':root:not(.light)']]],
+	])('%s strategy', (strategy, expected) => {
+		assert.deepEqual(get_color_scheme_wrappers('dark', strategy), expected);
+	});
+
+	test('hybrid light is overridden by the dark class', () => {
+		assert.deepEqual(get_color_scheme_wrappers('light', 'hybrid', '#app'), [
+			['#app.light'],
+			['@media (prefers-color-scheme: light)', '#app:not(.dark)'],
+		]);
+	});
+});
+
+describe('render_color_scheme_css', () => {
+	test('class strategy renders a single rule', () => {
+		assert.strictEqual(
+			render_color_scheme_css('dark', ['--a: 1;', '--b: 2;']),
+			':root.dark {\n\t--a: 1;\n\t--b: 2;\n}',
+		);
+	});
+
+	test('media strategy adds the scope inside the media query', () => {
+		assert.strictEqual(
+			render_color_scheme_css('dark', ['--a: 1;'], 'media', ':root:root'),
+			'@media (prefers-color-scheme: dark) {\n\t:root:root {\n\t\t--a: 1;\n\t}\n}',
+		);
+	});
+
+	test('hybrid strategy renders the class override and the media default', () => {
+		assert.strictEqual(
+			render_color_scheme_css('dark', ['--a: 1;'], 'hybrid'),
+			':root.dark {\n\t--a: 1;\n}\n' +
+				'@media (prefers-color-scheme: dark) {\n\t:root:not(.light) {\n\t\t--a: 1;\n\t}\n}',
+		);
+	});
+
+	test('returns an empty string without declarations', () => {
+		assert.strictEqual(render_color_scheme_css('dark', [], 'hybrid'), '');
+	});
+});
+
+describe('get_color_scheme_marker', () => {
+	test.each([
+		['dark', 'class', false, 'dark'],
+		['light', 'attribute', true, 'light'],
+		['auto', 'class', true, 'dark'],
+		['auto', 'attribute', false, 'light'],
+		['auto', 'hybrid', true, null],
+		['dark', 'hybrid', false, 'dark'],
+		['dark', 'media', false, null],
+		['auto', 'media', true, null],
+	] as const)('%s with %s (prefers dark: %s) → %s', (scheme, strategy, prefers_dark, expected) => {
+		assert.strictEqual(get_color_scheme_marker(scheme, strategy, prefers_dark), expected);
+	});
+});
+
+describe('scope_color_scheme_rule', () => {
+	const rule = ':root.dark {\n\tcolor-scheme: dark;\n}';
+
+	test.each<[ColorSchemeStrategy, string]>([
+		['class', rule],
+		['attribute', ':root[data-theme="dark"] {\n\tcolor-scheme: dark;\n}'],
+		['media', '@media (prefers-color-scheme: dark) {\n\t:root {\n\t\tcolor-scheme: dark;\n\t}\n}'],
+		[
+			'hybrid',
+			':root.dark {\n\tcolor-scheme: dark;\n}\n@media (prefers-color-scheme: dark) {\n\t:root:not(.light) {\n\t\tcolor-scheme: dark;\n\t}\n}',
+		],
+	])('%s strategy', (strategy, expected) => {
+		assert.strictEqual(scope_color_scheme_rule(rule, strategy), expected);
+	});
+
+	test('leaves other rules unchanged', () => {
+		const css = ':root.dark button {\n\tcolor: white;\n}';
+		assert.strictEqual(scope_color_scheme_rule(css, 'attribute'), css);
+	});
+});
+
+describe('render_theme_style', () => {
+	const theme = {name: 'custom', variables: [{name: 'text_color', light: '#000', dark: '#fff'}]};
+
+	test('scopes dark variables to the class by default', () => {
+		const css = render_theme_style(theme, {specificity: 1});
+		assert.include(css, ':root {\n\t--text_color: #000;\n}');
+		assert.include(css, ':root.dark {\n\t--text_color: #fff;\n}');
+	});
+
+	test('scopes dark variables with the color scheme strategy', () => {
+		const css = render_theme_style(theme, {
+			id: 'app',
+			specificity: 1,
+			color_scheme_strategy: 'attribute',
+		});
+		assert.include(css, '#app[data-theme="dark"] {\n\t--text_color: #fff;\n}');
+	});
+});
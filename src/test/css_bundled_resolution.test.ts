@@ -476,6 +476,33 @@ describe('resolve_css', () => {
 			assert.include(result.base_css, '@container (min-width: 400px)');
 			assert.include(result.base_css, 'padding: 16px');
 		});
+
+		test('scopes color scheme rules with the color scheme strategy', () => {
+			const {style_rule_index, variable_graph, class_variable_index} = create_test_fixtures(
+				`
+:root.dark {
+	color-scheme: dark;
+}
+:root.light {
+	color-scheme: light;
+}
+				`,
+				[],
+			);
+
+			const result = resolve_css({
+				style_rule_index,
+				variable_graph,
+				class_variable_index,
+				...empty_detection(),
+				color_scheme_strategy: 'attribute',
+			});
+
+			assert.include(result.base_css, ':root[data-theme="dark"] {\n\tcolor-scheme: dark;\n}');
+			assert.include(result.base_css, ':root[data-theme="light"] {\n\tcolor-scheme: light;\n}');
+			assert.notInclude(result.base_css, ':root.dark');
+			assert.notInclude(result.base_css, ':root.light');
+		});
 	});
 
 	describe('statistics', () => {
@@ -8,11 +8,15 @@ import {
 	save_cached_extraction,
 	delete_cached_extraction,
 	from_cached_extraction,
+	create_extraction_fingerprint,
 	CSS_CACHE_VERSION,
 	type CachedExtraction,
 } from '$lib/css_cache.ts';
 import type {SourceLocation, ExtractionDiagnostic} from '$lib/diagnostics.ts';
 import {default_cache_deps} from '$lib/deps_defaults.ts';
+import {extract_file_cached} from '$lib/extract_file_cached.ts';
+import {create_extraction_context} from '$lib/css_class_extractor.ts';
+import type {CssExtractor} from '$lib/css_extractors.ts';
 import {create_mock_fs_state, create_mock_cache_deps} from './fixtures/mock_deps.ts';
 import {
 	loc,
@@ -34,12 +38,14 @@ const CACHE_DIR = '/tmp/fuz_css_cache_test/project/.fuz/cache/css';
 const make_cached = (overrides: Partial<CachedExtraction> = {}): CachedExtraction => ({
 	v: CSS_CACHE_VERSION,
 	content_hash: 'test-hash',
+	fingerprint: null,
 	classes: null,
 	explicit_classes: null,
 	diagnostics: null,
 	elements: null,
 	explicit_elements: null,
 	explicit_variables: null,
+	class_patterns: null,
 	...overrides,
 });
 
@@ -54,6 +60,7 @@ interface SaveAndLoadOptions {
 	elements?: Set<string> | null;
 	explicit_elements?: Set<string> | null;
 	explicit_variables?: Set<string> | null;
+	class_patterns?: Map<string, Array<SourceLocation>> | null;
 	content_hash?: string;
 }
 
@@ -69,6 +76,7 @@ const save_and_load = async (
 		elements = null,
 		explicit_elements = null,
 		explicit_variables = null,
+		class_patterns = null,
 		content_hash = 'test-hash',
 	} = options;
 
@@ -79,6 +87,7 @@ const save_and_load = async (
 		elements,
 		explicit_elements,
 		explicit_variables,
+		class_patterns,
 	});
 	const loaded = await load_cached_extraction(deps, cache_path);
 	assert.isNotNull(loaded);
@@ -506,6 +515,12 @@ describe('cache fields round-trip', () => {
 			check: (r: ReturnType<typeof from_cached_extraction>) =>
 				assert.deepEqual(r.explicit_variables, new Set(['shade_40', 'text_50'])),
 		},
+		{
+			name: 'class_patterns',
+			input: {class_patterns: new Map([['p_*', [loc('test.svelte', 3, 12)]]])},
+			check: (r: ReturnType<typeof from_cached_extraction>) =>
+				assert.deepEqual(r.class_patterns, new Map([['p_*', [loc('test.svelte', 3, 12)]]])),
+		},
 	];
 
 	test.each(field_cases)('saves and loads $name field', async ({name, input, check}) => {
@@ -567,3 +582,79 @@ describe('cache functions with mock deps', () => {
 		assert.strictEqual(parsed.content_hash, 'hash');
 	});
 });
+
+//
+// Extraction fingerprints
+//
+
+describe('create_extraction_fingerprint', () => {
+	const extract_a: CssExtractor = (source, file) =>
+		create_extraction_context(source, file).finish();
+	const extract_b: CssExtractor = (source, file) => {
+		const ctx = create_extraction_context(source, file);
+		ctx.add_class_list(source, 0);
+		return ctx.finish();
+	};
+
+	test('returns null for the defaults', () => {
+		assert.isNull(create_extraction_fingerprint({}));
+		assert.isNull(create_extraction_fingerprint({extractors: {}}));
+		assert.isNull(create_extraction_fingerprint({extractors: null}));
+	});
+
+	test('is stable for the same extractors', () => {
+		assert.strictEqual(
+			create_extraction_fingerprint({extractors: {'.hbs': extract_a}}),
+			create_extraction_fingerprint({extractors: new Map([['.hbs', extract_a]])}),
+		);
+	});
+
+	test('changes with matchers and extractor code', () => {
+		const fingerprints = new Set([
+			create_extraction_fingerprint({extractors: {'.hbs': extract_a}}),
+			create_extraction_fingerprint({extractors: {'.njk': extract_a}}),
+			create_extraction_fingerprint({extractors: {'.hbs': extract_b}}),
+			create_extraction_fingerprint({extractors: [[/\.hbs$/, extract_a]]}),
+		]);
+		assert.strictEqual(fingerprints.size, 4);
+	});
+
+	test('changes with class detection options', () => {
+		assert.isNull(create_extraction_fingerprint({class_utility_functions: (d) => d}));
+		const fingerprints = new Set([
+			create_extraction_fingerprint({class_utility_functions: (d) => [...d, 'fz']}),
+			create_extraction_fingerprint({class_name_pattern: /_tw$/}),
+			create_extraction_fingerprint({extractors: {'.hbs': extract_a}, class_name_pattern: /_tw$/}),
+		]);
+		assert.strictEqual(fingerprints.size, 3);
+		assert.notInclude([...fingerprints], null);
+	});
+
+	test('invalidates cached extractions with a different fingerprint', async () => {
+		const state = create_mock_fs_state();
+		const mock_deps = create_mock_cache_deps(state);
+		const cache_path = '/mock/cache/page.hbs.json';
+		const extractors = {'.hbs': extract_b};
+		const fingerprint = create_extraction_fingerprint({extractors});
+
+		await save_cached_extraction(mock_deps, cache_path, 'hash', EMPTY_EXTRACTION, null);
+		const options = {deps: mock_deps, content: 'box', content_hash: 'hash', cache_path};
+		const stale = await extract_file_cached({
+			...options,
+			filename: 'page.hbs',
+			extractors,
+			fingerprint,
+		});
+		assert.isFalse(stale.from_cache);
+		assert.isTrue(stale.extraction.classes?.has('box'));
+
+		await save_cached_extraction(mock_deps, cache_path, 'hash', stale.extraction, fingerprint);
+		const fresh = await extract_file_cached({
+			...options,
+			filename: 'page.hbs',
+			extractors,
+			fingerprint,
+		});
+		assert.isTrue(fresh.from_cache);
+	});
+});
@@ -0,0 +1,147 @@
+import {test, assert, describe} from 'vitest';
+
+import {extract_from_astro, extract_css_classes_with_locations} from '$lib/css_class_extractor.ts';
+
+import {
+	class_names_equal,
+	assert_elements,
+	assert_diagnostic,
+	assert_explicit_classes,
+	assert_explicit_elements,
+	assert_tracked_var,
+} from './css_class_extractor_test_helpers.ts';
+import {loc} from './test_helpers.ts';
+
+describe('Astro template classes', () => {
+	test('extracts static class attributes', () => {
+		const result = extract_from_astro(`<div class="box p_md hover:opacity:80%"></div>`);
+		class_names_equal(result, ['box', 'p_md', 'hover:opacity:80%']);
+	});
+
+	test('extracts class expressions', () => {
+		const result = extract_from_astro(`<div class={active ? 'bg_a_50' : 'bg_b_50'}></div>`);
+		class_names_equal(result, ['bg_a_50', 'bg_b_50']);
+	});
+
+	test('extracts class:list directives', () => {
+		const result = extract_from_astro(
+			`<div class:list={['row', {selected: is_selected}, [cond && 'gap_md']]}></div>`,
+		);
+		class_names_equal(result, ['row', 'selected', 'gap_md']);
+	});
+
+	test('extracts elements inside expressions', () => {
+		const result = extract_from_astro(`<ul>
+	{items.map((item) => <li class="p_sm">{item}</li>)}
+	{show && <p class={clsx('mb_md', {hidden})}>shown</p>}
+</ul>`);
+		class_names_equal(result, ['p_sm', 'mb_md', 'hidden']);
+		assert_elements(result, ['ul', 'li', 'p']);
+	});
+
+	test('expands variant groups', () => {
+		const result = extract_from_astro(`<div class="md:(p_lg gap_md)"></div>`);
+		class_names_equal(result, ['md:p_lg', 'md:gap_md']);
+	});
+
+	test('ignores other attributes and spreads', () => {
+		const result = extract_from_astro(
+			`<div id="box" title={'p_md'} {...props} data-class="row"></div>`,
+		);
+		class_names_equal(result, []);
+	});
+});
+
+describe('Astro scripts', () => {
+	test('walks the frontmatter', () => {
+		const result = extract_from_astro(`---
+import Layout from '../layouts/Layout.astro';
+const card_classes = 'shadow_md p_lg';
+const {size} = Astro.props;
+---
+<Layout><div class={card_classes}></div></Layout>`);
+		class_names_equal(result, ['shadow_md', 'p_lg']);
+	});
+
+	test('extracts variables used in class expressions', () => {
+		const result = extract_from_astro(`---
+const styles = cond ? 'column' : 'row';
+---
+<div class:list={[styles, 'box']}></div>`);
+		assert_tracked_var(result, 'styles');
+		class_names_equal(result, ['box', 'column', 'row']);
+	});
+
+	test('walks client scripts but not other script types', () => {
+		const result = extract_from_astro(`<script>
+	el.className = clsx('active');
+</script>
+<script type="application/ld+json">{"class": "not_a_class"}</script>
+<style>.x { color: red; }</style>`);
+		class_names_equal(result, ['active']);
+		assert_elements(result, [], ['script', 'style']);
+	});
+
+	test('warns for frontmatter syntax errors and keeps template classes', () => {
+		const result = extract_from_astro(
+			`---
+const = ;
+---
+<div class="box"></div>`,
+			'index.astro',
+		);
+		assert_diagnostic(result, 'warning', 'Failed to parse Astro frontmatter', 'index.astro');
+		class_names_equal(result, ['box']);
+	});
+});
+
+describe('Astro elements', () => {
+	test('collects HTML elements but not components or builtins', () => {
+		const result = extract_from_astro(`---
+---
+<html><body>
+	<Card /><my-element></my-element><Fragment><table></table></Fragment><slot />
+</body></html>`);
+		assert_elements(result, ['html', 'body', 'table'], ['Card', 'my-element', 'Fragment', 'slot']);
+	});
+});
+
+describe('Astro @fuz-* comments', () => {
+	test('handles template and frontmatter comments', () => {
+		const result = extract_from_astro(`---
+// @fuz-classes opacity:50%
+---
+<!-- @fuz-elements dialog -->
+<div></div>`);
+		assert_explicit_classes(result, ['opacity:50%']);
+		assert_explicit_elements(result, ['dialog']);
+	});
+});
+
+describe('Astro locations', () => {
+	test('locates frontmatter and template classes in the file', () => {
+		const result = extract_from_astro(
+			`---
+const card_class = 'shadow_lg';
+---
+
+<div
+	class="box"
+	class:list={{active: a}}
+></div>`,
+			'Card.astro',
+		);
+		assert.deepEqual(result.classes?.get('shadow_lg'), [loc('Card.astro', 2, 20)]);
+		assert.deepEqual(result.classes?.get('box'), [loc('Card.astro', 6, 9)]);
+		assert.deepEqual(result.classes?.get('active'), [loc('Card.astro', 7, 15)]);
+	});
+});
+
+describe('extract_css_classes_with_locations', () => {
+	test('dispatches .astro files', () => {
+		const result = extract_css_classes_with_locations(`<div class:list={['box']}></div>`, {
+			filename: 'index.astro',
+		});
+		class_names_equal(result, ['box']);
+	});
+});
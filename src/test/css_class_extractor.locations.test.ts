@@ -106,6 +106,33 @@ describe('source location tracking', () => {
 	});
 });
 
+describe('variant group locations', () => {
+	test('locates grouped classes where they are written', () => {
+		const source = `<div class="box md:(p_lg gap_md)"></div>`;
+		const result = extract_from_svelte(source, 'test.svelte');
+		assert.deepEqual(result.classes?.get('box'), [loc('test.svelte', 1, 13)]);
+		assert.deepEqual(result.classes?.get('md:p_lg'), [loc('test.svelte', 1, 21)]);
+		assert.deepEqual(result.classes?.get('md:gap_md'), [loc('test.svelte', 1, 26)]);
+	});
+
+	test('follows newlines in multi-line groups', () => {
+		const source = `<div class="md:(
+	p_lg
+	gap_md
+)"></div>`;
+		const result = extract_from_svelte(source, 'test.svelte');
+		assert.deepEqual(result.classes?.get('md:p_lg'), [loc('test.svelte', 2, 2)]);
+		assert.deepEqual(result.classes?.get('md:gap_md'), [loc('test.svelte', 3, 2)]);
+	});
+
+	test('accounts for quotes in string literals', () => {
+		const source = `<div class={['md:(p_lg)']}></div>`;
+		const result = extract_from_svelte(source, 'test.svelte');
+		// 'p_lg' starts at column 19: <div class={['md:(p_lg
+		assert.deepEqual(result.classes?.get('md:p_lg'), [loc('test.svelte', 1, 19)]);
+	});
+});
+
 describe('SourceIndex additional edge cases', () => {
 	test('handles file with only newlines', () => {
 		const source = '\n\n\n';
@@ -0,0 +1,148 @@
+import {test, assert, describe} from 'vitest';
+
+import {
+	extract_from_markdown,
+	extract_css_classes_with_locations,
+} from '$lib/css_class_extractor.ts';
+
+import {
+	class_names_equal,
+	assert_elements,
+	assert_explicit_classes,
+	assert_explicit_elements,
+	assert_tracked_var,
+} from './css_class_extractor_test_helpers.ts';
+import {loc} from './test_helpers.ts';
+
+describe('markdown elements', () => {
+	test('collects elements rendered by markdown syntax', () => {
+		const result = extract_from_markdown(`# Title
+
+> A quote with \`code\`.
+
+| a | b |
+| - | - |
+| 1 | 2 |
+
+\`\`\`ts
+const x = 1;
+\`\`\`
+`);
+		assert_elements(result, [
+			'h1',
+			'blockquote',
+			'p',
+			'code',
+			'table',
+			'thead',
+			'tbody',
+			'tr',
+			'th',
+			'td',
+			'pre',
+		]);
+	});
+
+	test('collects embedded HTML elements but not components or autolinks', () => {
+		const result = extract_from_markdown(`<details><summary>More</summary></details>
+
+<Callout /> <https://fuz.dev>`);
+		assert_elements(result, ['details', 'summary', 'a'], ['Callout', 'https://fuz.dev']);
+	});
+
+	test('ignores tags and classes in code', () => {
+		const result = extract_from_markdown(`\`<aside class="box">\`
+
+\`\`\`html
+<dialog class="p_lg"></dialog>
+\`\`\`
+`);
+		class_names_equal(result, []);
+		assert_elements(result, ['code', 'pre'], ['aside', 'dialog']);
+	});
+
+	test('extracts tags and classes after closed code fences', () => {
+		const result = extract_from_markdown(`\`\`\`
+code
+\`\`\`
+
+<div class="md_b"></div>
+`);
+		class_names_equal(result, ['md_b']);
+		assert_elements(result, ['pre', 'code', 'div']);
+	});
+});
+
+describe('markdown classes', () => {
+	test('extracts HTML class attributes', () => {
+		const result = extract_from_markdown(`Some text.
+
+<div class="box md:(p_lg gap_md)">
+
+Nested **markdown**.
+
+</div>`);
+		class_names_equal(result, ['box', 'md:p_lg', 'md:gap_md']);
+	});
+
+	test('extracts MDX className attributes and expressions', () => {
+		const result = extract_from_markdown(
+			`<Card className="shadow_md" />
+
+<section className={cn('row', {active})}>x</section>`,
+		);
+		class_names_equal(result, ['shadow_md', 'row', 'active']);
+	});
+
+	test('extracts mdsvex class expressions and directives', () => {
+		const result = extract_from_markdown(`<script>
+	let open = $state(false);
+	const layout = $derived(open ? 'column' : 'row');
+</script>
+
+<div class={[layout, open && 'opacity:100%']} class:selected={open}></div>`);
+		assert_tracked_var(result, 'layout');
+		class_names_equal(result, ['opacity:100%', 'selected', 'column', 'row']);
+	});
+});
+
+describe('markdown @fuz-* comments', () => {
+	test('handles HTML comments outside of code', () => {
+		const result = extract_from_markdown(`<!-- @fuz-classes opacity:50% -->
+<!-- @fuz-elements dialog -->
+
+\`\`\`md
+<!-- @fuz-classes ignored -->
+\`\`\`
+`);
+		assert_explicit_classes(result, ['opacity:50%']);
+		assert_explicit_elements(result, ['dialog']);
+	});
+});
+
+describe('markdown locations', () => {
+	test('locates classes in the file', () => {
+		const result = extract_from_markdown(
+			`---
+title: Docs
+---
+
+<p class="box">
+
+<span class:active={a}></span>`,
+			'docs.md',
+		);
+		assert.deepEqual(result.classes?.get('box'), [loc('docs.md', 5, 11)]);
+		assert.deepEqual(result.classes?.get('active'), [loc('docs.md', 7, 13)]);
+	});
+});
+
+describe('extract_css_classes_with_locations', () => {
+	test('dispatches markdown files', () => {
+		for (const filename of ['page.md', 'page.mdx', 'page.svx']) {
+			const result = extract_css_classes_with_locations(`> <div class="box"></div>`, {filename});
+			class_names_equal(result, ['box']);
+			assert_elements(result, ['blockquote', 'div']);
+		}
+	});
+});
@@ -0,0 +1,166 @@
+import {test, assert, describe} from 'vitest';
+
+import {extract_from_svelte, extract_from_ts} from '$lib/css_class_extractor.ts';
+
+import {class_names_equal} from './css_class_extractor_test_helpers.ts';
+
+/**
+ * Helper to assert extracted class patterns match expected values.
+ */
+const class_patterns_equal = (
+	result: {class_patterns: Map<string, unknown> | null},
+	expected: Array<string>,
+): void => {
+	const actual = result.class_patterns ? [...result.class_patterns.keys()] : [];
+	assert.deepEqual(actual, expected);
+};
+
+describe('dynamic class templates', () => {
+	describe('class patterns', () => {
+		test('records unresolved templates as patterns with their static prefix and suffix', () => {
+			const result = extract_from_ts('const size_classes = `box p_${size} ${color}_50`;');
+			class_names_equal(result, ['box']);
+			class_patterns_equal(result, ['p_*', '*_50']);
+		});
+
+		test('records patterns with multiple expressions', () => {
+			const result = extract_from_ts('clsx(`bg_${hue}_${shade}`);');
+			class_patterns_equal(result, ['bg_*_*']);
+		});
+
+		test('ignores expressions without static text', () => {
+			const result = extract_from_ts('clsx(`${a} ${b}`);');
+			assert.isNull(result.class_patterns);
+		});
+
+		test('ignores templates outside class contexts', () => {
+			const result = extract_from_ts('const url = `/docs/${slug}`;');
+			assert.isNull(result.class_patterns);
+		});
+
+		test('tracks the location of the token', () => {
+			const result = extract_from_ts('\nconst classes = `box p_${size}`;', 'test.ts');
+			assert.deepEqual(result.class_patterns?.get('p_*'), [{file: 'test.ts', line: 2, column: 22}]);
+		});
+
+		test('records patterns in Svelte class attributes', () => {
+			const result = extract_from_svelte('<div class="box m_{size} color_{hue}_50"></div>');
+			class_patterns_equal(result, ['m_*', 'color_*_50']);
+		});
+	});
+
+	describe('narrowing', () => {
+		test('expands conditional expressions', () => {
+			const result = extract_from_ts("clsx(`p_${large ? 'lg' : 'sm'}`);");
+			class_names_equal(result, ['lg', 'sm', 'p_lg', 'p_sm']);
+			assert.isNull(result.class_patterns);
+		});
+
+		test('narrows parameters with literal union types', () => {
+			const result = extract_from_ts(`
+				type Size = 'sm' | 'md';
+				const get_classes = (size: Size) => clsx(\`p_\${size}\`);
+			`);
+			class_names_equal(result, ['p_sm', 'p_md']);
+			assert.isNull(result.class_patterns);
+		});
+
+		test('narrows interface properties', () => {
+			const result = extract_from_ts(`
+				interface Props {size: 'xs' | 'lg'; gap?: Size}
+				type Size = 'sm' | 'md';
+				const a = ({size, gap}: Props) => clsx(\`p_\${size} gap_\${gap}\`);
+				const b = (props: Props) => clsx(\`m_\${props.size}\`);
+			`);
+			class_names_equal(result, ['p_xs', 'p_lg', 'gap_sm', 'gap_md', 'm_xs', 'm_lg']);
+		});
+
+		test('narrows items of const arrays', () => {
+			const result = extract_from_ts(`
+				const SIZES = ['sm', 'md'] as const;
+				SIZES.map((size) => clsx(\`pt_\${size}\`));
+				for (const size of SIZES) clsx(\`pb_\${size}\`);
+			`);
+			class_names_equal(result, ['pt_sm', 'pt_md', 'pb_sm', 'pb_md']);
+		});
+
+		test('narrows indexed access types of const arrays', () => {
+			const result = extract_from_ts(`
+				const SIZES = ['xs', 'xl'] as const;
+				type Size = (typeof SIZES)[number];
+				const f = (size: Size) => clsx(\`p_\${size}\`);
+			`);
+			class_names_equal(result, ['p_xs', 'p_xl']);
+		});
+
+		test('narrows Svelte props and each blocks', () => {
+			const result = extract_from_svelte(`
+				<script lang="ts">
+					const SIZES = ['sm', 'md'] as const;
+					let {hue}: {hue: 'a' | 'b'} = $props();
+				</script>
+				{#each SIZES as size}<div class="p_{size} bg_{hue}_50"></div>{/each}
+			`);
+			const classes = [...(result.classes?.keys() ?? [])];
+			assert.includeMembers(classes, ['p_sm', 'p_md', 'bg_a_50', 'bg_b_50']);
+			assert.isNull(result.class_patterns);
+		});
+
+		test('falls back to a pattern when a variable has an unnarrowed declaration', () => {
+			const result = extract_from_ts(`
+				const f = (size: 'sm' | 'md') => clsx(\`p_\${size}\`);
+				const g = (size: string) => clsx(\`p_\${size}\`);
+			`);
+			class_patterns_equal(result, ['p_*']);
+		});
+
+		test('falls back to a pattern when an untyped binding shadows a narrowed name', () => {
+			const result = extract_from_ts(`
+				const f = (size: 'sm' | 'md') => size;
+				const g = (size) => clsx(\`p_\${size}\`);
+			`);
+			class_names_equal(result, []);
+			class_patterns_equal(result, ['p_*']);
+		});
+
+		test('falls back to a pattern for untyped, destructured, imported, and iterated bindings', () => {
+			for (const binding of [
+				'let size = get_size();',
+				'const {size} = props;',
+				'const [size] = sizes;',
+				"import {size} from './size.ts';",
+				'for (const size of get_sizes()) {}',
+				'items.map((size) => size);',
+				'try {} catch (size) {}',
+			]) {
+				const result = extract_from_ts(`
+					type Size = 'sm' | 'md';
+					const f = (size: Size) => clsx(\`p_\${size}\`);
+					${binding}
+				`);
+				class_patterns_equal(result, ['p_*']);
+			}
+		});
+
+		test('falls back to a pattern when a Svelte template binding shadows a narrowed name', () => {
+			const result = extract_from_svelte(`
+				<script lang="ts">
+					const SIZES = ['sm', 'md'] as const;
+					let {size}: {size: 'lg'} = $props();
+				</script>
+				<div class="m_{size}"></div>
+				{#each SIZES as size, i}<div class="p_{size} gap_{i}"></div>{/each}
+				{#each get_sizes() as size}<div class="p_{size}"></div>{/each}
+			`);
+			class_patterns_equal(result, ['m_*', 'p_*', 'gap_*']);
+		});
+
+		test('falls back to a pattern for values that are not class names', () => {
+			const result = extract_from_ts(`
+				type Size = 'sm' | 'a b';
+				const f = (size: Size) => clsx(\`p_\${size}\`);
+			`);
+			class_patterns_equal(result, ['p_*']);
+		});
+	});
+});
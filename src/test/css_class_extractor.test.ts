@@ -486,6 +486,49 @@ describe('template literal edge cases', () => {
 	});
 });
 
+describe('variant groups', () => {
+	test.each([
+		{
+			name: 'expands groups in class attributes',
+			source: `<div class="box md:(p_lg gap_md display:grid)"></div>`,
+			expected: ['box', 'md:p_lg', 'md:gap_md', 'md:display:grid'],
+		},
+		{
+			name: 'expands nested groups',
+			source: `<div class="md:(p_lg hover:(shadow_md opacity:80%))"></div>`,
+			expected: ['md:p_lg', 'md:hover:shadow_md', 'md:hover:opacity:80%'],
+		},
+		{
+			name: 'expands groups in expressions',
+			source: `<div class={['box', active && 'md:(p_lg gap_md)']}></div>`,
+			expected: ['box', 'md:p_lg', 'md:gap_md'],
+		},
+		{
+			name: 'expands groups in object keys',
+			source: `<div class={{'md:(p_lg gap_md)': active}}></div>`,
+			expected: ['md:p_lg', 'md:gap_md'],
+		},
+		{
+			name: 'expands complete groups in templates with expressions',
+			source: `<div class={\`md:(p_lg gap_md) \${size}\`}></div>`,
+			expected: ['md:p_lg', 'md:gap_md'],
+		},
+		{
+			name: 'skips groups joined to expressions in templates',
+			source: `<div class={\`\${prefix}md:(p_lg gap_md)\`}></div>`,
+			expected: [],
+		},
+		{
+			name: 'expands groups in @fuz-classes comments',
+			source: `<!-- @fuz-classes md:(p_lg gap_md) -->`,
+			expected: ['md:p_lg', 'md:gap_md'],
+		},
+	])('$name', ({source, expected}) => {
+		const result = extract_from_svelte(source);
+		class_names_equal(result, expected);
+	});
+});
+
 describe('Svelte class={{}} computed properties', () => {
 	test('extracts static property names', () => {
 		const source = `<div class={{ active: isActive, "text-lg": true }}></div>`;
@@ -1,8 +1,12 @@
 import {test, describe} from 'vitest';
 
-import {extract_from_svelte} from '$lib/css_class_extractor.ts';
+import {extract_from_svelte, extract_css_classes_with_locations} from '$lib/css_class_extractor.ts';
 
-import {class_names_equal, assert_no_classes} from './css_class_extractor_test_helpers.ts';
+import {
+	class_names_equal,
+	assert_no_classes,
+	assert_tracked_var,
+} from './css_class_extractor_test_helpers.ts';
 
 describe('clsx/cn function calls', () => {
 	const clsx_cases = [
@@ -129,3 +133,69 @@ describe('template literals', () => {
 		assert_no_classes(result);
 	});
 });
+
+describe('configured class detection', () => {
+	const class_utility_functions = (defaults: Array<string>) => [...defaults, 'fz', 'merge_classes'];
+	const class_name_pattern = (pattern: RegExp) =>
+		new RegExp(`${pattern.source}|_(style|tw)$`, pattern.flags);
+
+	test('extracts custom utility functions in templates and scripts', () => {
+		const result = extract_css_classes_with_locations(
+			`<script>
+	const merged = merge_classes('row', cond && 'gap_md');
+</script>
+<div class={fz('box', {active})}></div>`,
+			{filename: 'App.svelte', class_utility_functions},
+		);
+		class_names_equal(result, ['box', 'active', 'row', 'gap_md']);
+	});
+
+	test('extracts custom utility functions in TS files', () => {
+		const result = extract_css_classes_with_locations(`export const a = fz('p_md', 'm_lg');`, {
+			filename: 'a.ts',
+			class_utility_functions: ['fz'],
+		});
+		class_names_equal(result, ['p_md', 'm_lg']);
+	});
+
+	test('replaces the default utility functions', () => {
+		const result = extract_css_classes_with_locations(`export const a = clsx('p_md');`, {
+			filename: 'a.ts',
+			class_utility_functions: ['fz'],
+		});
+		assert_no_classes(result);
+	});
+
+	test('extracts variables and keys matching a custom name pattern', () => {
+		const result = extract_css_classes_with_locations(
+			`const card_style = 'shadow_md';
+const header_tw = $derived(open ? 'column' : 'row');
+const config = {button_style: 'p_sm'};`,
+			{filename: 'a.svelte.ts', class_name_pattern},
+		);
+		class_names_equal(result, ['shadow_md', 'column', 'row', 'p_sm']);
+	});
+
+	test('extracts tracked variables through custom utility functions', () => {
+		const result = extract_css_classes_with_locations(
+			`<script>
+	const size = 'p_lg';
+</script>
+<div class={fz(size)}></div>`,
+			{filename: 'App.svelte', class_utility_functions},
+		);
+		assert_tracked_var(result, 'size');
+		class_names_equal(result, ['p_lg']);
+	});
+
+	test('applies to embedded scripts in other file types', () => {
+		const result = extract_css_classes_with_locations(
+			`<script setup>
+const panel_style = 'column';
+</script>
+<div :class="fz('box')"></div>`,
+			{filename: 'App.vue', class_utility_functions, class_name_pattern},
+		);
+		class_names_equal(result, ['box', 'column']);
+	});
+});
@@ -0,0 +1,197 @@
+import {test, assert, describe} from 'vitest';
+
+import {extract_from_vue, extract_css_classes_with_locations} from '$lib/css_class_extractor.ts';
+
+import {
+	class_names_equal,
+	assert_elements,
+	assert_diagnostic,
+	assert_explicit_classes,
+	assert_explicit_elements,
+	assert_class_at_line,
+	assert_tracked_var,
+} from './css_class_extractor_test_helpers.ts';
+import {loc} from './test_helpers.ts';
+
+describe('Vue template classes', () => {
+	test('extracts static class attributes', () => {
+		const result = extract_from_vue(`<template>
+	<div class="box p_md hover:opacity:80%"></div>
+</template>`);
+		class_names_equal(result, ['box', 'p_md', 'hover:opacity:80%']);
+	});
+
+	test('extracts object bindings', () => {
+		const result = extract_from_vue(`<template>
+	<div :class="{selected: is_selected, 'color_a_50': active}"></div>
+</template>`);
+		class_names_equal(result, ['selected', 'color_a_50']);
+	});
+
+	test('extracts array bindings', () => {
+		const result = extract_from_vue(`<template>
+	<div :class="['row', active ? 'bg_a_50' : 'bg_b_50', {disabled}]"></div>
+</template>`);
+		class_names_equal(result, ['row', 'bg_a_50', 'bg_b_50', 'disabled']);
+	});
+
+	test('extracts v-bind:class and class together', () => {
+		const result = extract_from_vue(`<template>
+	<p class="mb_md" v-bind:class="size === 'lg' ? 'font_size_lg' : null">text</p>
+</template>`);
+		class_names_equal(result, ['mb_md', 'font_size_lg']);
+	});
+
+	test('expands variant groups', () => {
+		const result = extract_from_vue(`<template><div class="md:(p_lg gap_md)"></div></template>`);
+		class_names_equal(result, ['md:p_lg', 'md:gap_md']);
+	});
+
+	test('extracts dynamic class templates', () => {
+		const result = extract_from_vue(`<script setup lang="ts">
+const SIZES = ['sm', 'md'] as const;
+</script>
+<template>
+	<div v-for="size in SIZES" :class="\`p_\${SIZES[0]}\`"></div>
+</template>`);
+		assert.ok(result.class_patterns);
+	});
+
+	test('ignores other attributes and bindings', () => {
+		const result = extract_from_vue(`<template>
+	<div id="main" :title="'p_md'" @click="toggle('box')" data-class="row"></div>
+</template>`);
+		class_names_equal(result, []);
+	});
+
+	test('ignores class-like text in the template', () => {
+		const result = extract_from_vue(`<template>
+	<p>use class="box" for {{ 'p_md' }}</p>
+</template>`);
+		class_names_equal(result, []);
+	});
+});
+
+describe('Vue scripts', () => {
+	test('walks script setup', () => {
+		const result = extract_from_vue(`<script setup lang="ts">
+import {computed} from 'vue';
+const button_classes = computed(() => clsx('btn', {active: true}));
+</script>
+<template><button :class="button_classes"></button></template>`);
+		class_names_equal(result, ['btn', 'active']);
+	});
+
+	test('walks both script blocks', () => {
+		const result = extract_from_vue(`<script lang="ts">
+export const header_class = 'p_lg';
+</script>
+<script setup lang="ts">
+const footer_class = 'p_sm';
+</script>`);
+		class_names_equal(result, ['p_lg', 'p_sm']);
+	});
+
+	test('extracts variables used in class bindings', () => {
+		const result = extract_from_vue(`<script setup>
+const styles = 'shadow_md';
+</script>
+<template><div :class="[styles, 'box']"></div></template>`);
+		assert_tracked_var(result, 'styles');
+		class_names_equal(result, ['box', 'shadow_md']);
+	});
+
+	test('ignores tags in scripts and styles', () => {
+		const result = extract_from_vue(`<script setup>
+const html = '<div class="not_a_class"></div>';
+</script>
+<style>
+.x::before { content: '<span class="nope">'; }
+</style>`);
+		class_names_equal(result, []);
+		assert_elements(result, [], ['div', 'span', 'script', 'style']);
+	});
+
+	test('warns for script syntax errors and keeps template classes', () => {
+		const result = extract_from_vue(
+			`<script setup>
+const = ;
+</script>
+<template><div class="box"></div></template>`,
+			'App.vue',
+		);
+		assert_diagnostic(result, 'warning', 'Failed to parse Vue script', 'App.vue');
+		class_names_equal(result, ['box']);
+	});
+
+	test('warns for class binding syntax errors', () => {
+		const result = extract_from_vue(`<template><div :class="{a: }"></div></template>`);
+		assert_diagnostic(result, 'warning', 'Failed to parse Vue class binding');
+	});
+});
+
+describe('Vue elements', () => {
+	test('collects HTML elements but not components or builtins', () => {
+		const result = extract_from_vue(`<template>
+	<main>
+		<MyButton />
+		<router-link to="/">home</router-link>
+		<transition><ul><li>item</li></ul></transition>
+		<template v-if="ok"><table></table></template>
+		<slot></slot>
+	</main>
+</template>`);
+		assert_elements(
+			result,
+			['main', 'ul', 'li', 'table'],
+			['template', 'MyButton', 'router-link', 'transition', 'slot'],
+		);
+	});
+});
+
+describe('Vue @fuz-* comments', () => {
+	test('handles template and script comments', () => {
+		const result = extract_from_vue(`<script setup lang="ts">
+// @fuz-classes opacity:50% opacity:75%
+</script>
+<template>
+	<!-- @fuz-elements dialog -->
+	<div></div>
+</template>`);
+		assert_explicit_classes(result, ['opacity:50%', 'opacity:75%']);
+		assert_explicit_elements(result, ['dialog']);
+		assert_class_at_line(result, 'opacity:50%', 2);
+	});
+});
+
+describe('Vue locations', () => {
+	test('locates template and script classes in the file', () => {
+		const result = extract_from_vue(
+			`<script setup lang="ts">
+const a = 1;
+const card_class = 'shadow_lg';
+</script>
+
+<template>
+	<div
+		class="box"
+		:class="{active: a}"
+	></div>
+</template>`,
+			'Card.vue',
+		);
+		assert.deepEqual(result.classes?.get('shadow_lg'), [loc('Card.vue', 3, 20)]);
+		assert.deepEqual(result.classes?.get('box'), [loc('Card.vue', 8, 10)]);
+		assert.deepEqual(result.classes?.get('active'), [loc('Card.vue', 9, 12)]);
+	});
+});
+
+describe('extract_css_classes_with_locations', () => {
+	test('dispatches .vue files', () => {
+		const result = extract_css_classes_with_locations(
+			`<template><div :class="{box: true}"></div></template>`,
+			{filename: 'App.vue'},
+		);
+		class_names_equal(result, ['box']);
+	});
+});
@@ -13,6 +13,7 @@ import {
 	generate_property_classes,
 	generate_directional_classes,
 	generate_border_radius_corners,
+	generate_inset_classes,
 	generate_shadow_classes,
 	format_spacing_value,
 	format_dimension_value,
@@ -259,6 +260,40 @@ describe('generate_directional_classes', () => {
 		assert.strictEqual(get_declaration(result['m_0']), 'margin: 0;');
 		assert.strictEqual(get_declaration(result['m_auto']), 'margin: auto;');
 	});
+
+	test('generates inline start and end variants with the logical option', () => {
+		const result = generate_directional_classes('padding', ['md'], format_spacing_value, {
+			logical: true,
+		});
+
+		assert.lengthOf(Object.keys(result), 9);
+		assert.strictEqual(get_declaration(result['ps_md']), 'padding-inline-start: var(--space_md);');
+		assert.strictEqual(get_declaration(result['pe_md']), 'padding-inline-end: var(--space_md);');
+	});
+});
+
+describe('generate_inset_classes', () => {
+	test('generates the physical sides and inset shorthand', () => {
+		const result = generate_inset_classes(['md'], format_spacing_value);
+
+		assert.deepEqual(Object.keys(result), [
+			'top_md',
+			'right_md',
+			'bottom_md',
+			'left_md',
+			'inset_md',
+		]);
+		assert.strictEqual(get_declaration(result['left_md']), 'left: var(--space_md);');
+	});
+
+	test('generates inline and block variants with the logical option', () => {
+		const result = generate_inset_classes(['0'], format_spacing_value, {logical: true});
+
+		assert.lengthOf(Object.keys(result), 11);
+		assert.strictEqual(get_declaration(result['inset_inline_start_0']), 'inset-inline-start: 0;');
+		assert.strictEqual(get_declaration(result['inset_block_end_0']), 'inset-block-end: 0;');
+		assert.strictEqual(get_declaration(result['inset_inline_0']), 'inset-inline: 0;');
+	});
 });
 
 describe('generate_border_radius_corners', () => {
@@ -303,6 +338,20 @@ describe('generate_border_radius_corners', () => {
 
 		assert.lengthOf(Object.keys(result), 8); // 4 corners * 2 values
 	});
+
+	test('generates logical corner variants with the logical option', () => {
+		const result = generate_border_radius_corners(['md'], undefined, {logical: true});
+
+		assert.lengthOf(Object.keys(result), 8);
+		assert.strictEqual(
+			get_declaration(result['border_start_start_radius_md']),
+			'border-start-start-radius: md;',
+		);
+		assert.strictEqual(
+			get_declaration(result['border_end_end_radius_md']),
+			'border-end-end-radius: md;',
+		);
+	});
 });
 
 describe('generate_shadow_classes', () => {
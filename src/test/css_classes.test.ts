@@ -2,6 +2,7 @@ import {test, assert, describe} from 'vitest';
 
 import {CssClasses} from '$lib/css_classes.ts';
 import {type ExtractionDiagnostic, type SourceLocation} from '$lib/diagnostics.ts';
+import type {CssClassDefinition} from '$lib/css_class_generation.ts';
 import {make_extraction_data} from './test_helpers.ts';
 
 describe('CssClasses', () => {
@@ -526,3 +527,163 @@ describe('additional_classes with file data (simulating cache behavior)', () =>
 		assert.isFalse(explicit_classes!.has('regular'));
 	});
 });
+
+describe('class patterns', () => {
+	const class_definitions: Record<string, CssClassDefinition | undefined> = {
+		bg_a_50: {declaration: 'background-color: var(--color_a_50);'},
+		bg_b_50: {declaration: 'background-color: var(--color_b_50);'},
+		pt_sm: {declaration: 'padding-top: var(--space_sm);'},
+		pb_sm: {declaration: 'padding-bottom: var(--space_sm);'},
+	};
+
+	test('expands additional_classes patterns as explicit classes', () => {
+		const css_classes = new CssClasses(
+			new Set(['bg_*_50', 'md:p{t,b}_sm']),
+			null,
+			class_definitions,
+		);
+
+		const {all_classes, all_classes_with_locations, explicit_classes} = css_classes.get_all();
+		assert.sameMembers([...all_classes], ['bg_a_50', 'bg_b_50', 'md:pt_sm', 'md:pb_sm']);
+		assert.sameMembers([...explicit_classes!], [...all_classes]);
+		assert.isNull(all_classes_with_locations.get('bg_a_50'));
+	});
+
+	test('expands @fuz-classes patterns with their locations', () => {
+		const css_classes = new CssClasses(null, null, class_definitions);
+		const loc: SourceLocation = {file: 'test.ts', line: 2, column: 4};
+
+		css_classes.add(
+			'file1.ts',
+			make_extraction_data({
+				classes: new Map([['hover:bg_*', [loc]]]),
+				explicit_classes: new Set(['hover:bg_*']),
+			}),
+		);
+
+		const {all_classes_with_locations, explicit_classes} = css_classes.get_all();
+		assert.deepEqual(all_classes_with_locations.get('hover:bg_a_50'), [loc]);
+		assert.deepEqual(all_classes_with_locations.get('hover:bg_b_50'), [loc]);
+		assert.isFalse(all_classes_with_locations.has('hover:bg_*'));
+		assert.sameMembers([...explicit_classes!], ['hover:bg_a_50', 'hover:bg_b_50']);
+	});
+
+	test('keeps unmatched patterns for generation diagnostics', () => {
+		const css_classes = new CssClasses(new Set(['shade_*']), null, class_definitions);
+
+		const {all_classes, explicit_classes} = css_classes.get_all();
+		assert.isTrue(all_classes.has('shade_*'));
+		assert.isTrue(explicit_classes!.has('shade_*'));
+	});
+
+	test('does not expand non-explicit classes', () => {
+		const css_classes = new CssClasses(null, null, class_definitions);
+		const loc: SourceLocation = {file: 'test.ts', line: 1, column: 1};
+
+		css_classes.add('file1.ts', make_extraction_data({classes: new Map([['bg_*', [loc]]])}));
+
+		assert.sameMembers([...css_classes.get()], ['bg_*']);
+	});
+
+	test('does not expand without class definitions', () => {
+		const css_classes = new CssClasses(new Set(['bg_*_50']));
+		assert.sameMembers([...css_classes.get()], ['bg_*_50']);
+	});
+
+	test('exclude_classes patterns and regexps filter expanded classes', () => {
+		const css_classes = new CssClasses(
+			new Set(['bg_*', 'p{t,b}_sm']),
+			new Set(['*_b_*', /^pb_/]),
+			class_definitions,
+		);
+		const loc: SourceLocation = {file: 'test.svelte', line: 1, column: 1};
+		css_classes.add(
+			'file1.svelte',
+			make_extraction_data({
+				classes: new Map([
+					['md:bg_b_50', [loc]],
+					['md:pb_sm', [loc]],
+				]),
+			}),
+		);
+
+		// Regexps match the full class name including modifiers
+		assert.sameMembers([...css_classes.get()], ['bg_a_50', 'pt_sm', 'md:pb_sm']);
+	});
+});
+
+describe('dynamic class templates', () => {
+	const class_definitions: Record<string, CssClassDefinition | undefined> = {
+		p_sm: {declaration: 'padding: var(--space_sm);'},
+		p_md: {declaration: 'padding: var(--space_md);'},
+		pt_sm: {declaration: 'padding-top: var(--space_sm);'},
+		grid_cols: {pattern: /^grid_cols_\d+$/, interpret: () => null},
+	};
+	const loc: SourceLocation = {file: 'test.svelte', line: 3, column: 12};
+
+	test('expands class patterns as non-explicit classes with their locations', () => {
+		const css_classes = new CssClasses(null, null, class_definitions);
+		css_classes.add(
+			'file1.svelte',
+			make_extraction_data({class_patterns: new Map([['p_*', [loc]]])}),
+		);
+
+		const {all_classes, all_classes_with_locations, explicit_classes} = css_classes.get_all();
+		assert.sameMembers([...all_classes], ['p_sm', 'p_md']);
+		assert.deepEqual(all_classes_with_locations.get('p_md'), [loc]);
+		assert.isNull(explicit_classes);
+	});
+
+	test('applies exclude_classes to expanded classes', () => {
+		const css_classes = new CssClasses(null, ['p_md'], class_definitions);
+		css_classes.add(
+			'file1.svelte',
+			make_extraction_data({class_patterns: new Map([['p_*', [loc]]])}),
+		);
+
+		assert.sameMembers([...css_classes.get()], ['p_sm']);
+	});
+
+	test('skips patterns over the limit with a warning', () => {
+		const css_classes = new CssClasses(null, null, class_definitions, 2);
+		css_classes.add(
+			'file1.svelte',
+			make_extraction_data({
+				class_patterns: new Map([
+					['p*', [loc]],
+					['p_*', [loc]],
+				]),
+			}),
+		);
+
+		assert.sameMembers([...css_classes.get()], ['p_sm', 'p_md']);
+		const diagnostics = css_classes.get_diagnostics();
+		assert.lengthOf(diagnostics, 1);
+		assert.equal(diagnostics[0]!.level, 'warning');
+		assert.include(diagnostics[0]!.message, 'Dynamic class "p*" matches 3 classes');
+		assert.deepEqual(diagnostics[0]!.location, loc);
+	});
+
+	test('clears patterns and warnings when a file is deleted', () => {
+		const css_classes = new CssClasses(null, null, class_definitions, 1);
+		css_classes.add(
+			'file1.svelte',
+			make_extraction_data({class_patterns: new Map([['p_*', [loc]]])}),
+		);
+		assert.lengthOf(css_classes.get_diagnostics(), 1);
+
+		css_classes.delete('file1.svelte');
+		assert.lengthOf(css_classes.get_diagnostics(), 0);
+		assert.strictEqual(css_classes.get().size, 0);
+	});
+
+	test('skips patterns without class definitions', () => {
+		const css_classes = new CssClasses();
+		css_classes.add(
+			'file1.svelte',
+			make_extraction_data({class_patterns: new Map([['p_*', [loc]]])}),
+		);
+
+		assert.strictEqual(css_classes.get().size, 0);
+	});
+});
@@ -0,0 +1,117 @@
+import {test, assert, describe} from 'vitest';
+
+import {
+	create_extraction_context,
+	extract_css_classes_with_locations,
+} from '$lib/css_class_extractor.ts';
+import {find_extractor, type CssExtractor} from '$lib/css_extractors.ts';
+import {scan_html} from '$lib/html_scanner.ts';
+
+import {
+	class_names_equal,
+	assert_elements,
+	assert_diagnostic,
+	assert_explicit_classes,
+	assert_explicit_elements,
+} from './css_class_extractor_test_helpers.ts';
+import {loc} from './test_helpers.ts';
+
+/**
+ * A Handlebars extractor like a third party would write,
+ * scanning the HTML and skipping `{{...}}` in class values.
+ */
+const extract_handlebars: CssExtractor = (source, file) => {
+	const ctx = create_extraction_context(source, file);
+	for (const node of scan_html(source)) {
+		if (node.type === 'comment') {
+			ctx.process_fuz_comment(node.data, node.start);
+			continue;
+		}
+		ctx.add_element(node.name);
+		const attr = node.attributes.find((a) => a.name === 'class');
+		if (attr?.value) {
+			ctx.add_class_list(
+				attr.value.replace(/\{\{[^}]*\}\}/g, (m) => ' '.repeat(m.length)),
+				attr.value_start,
+			);
+		}
+	}
+	for (const match of source.matchAll(/\{\{\s*(\w+)\s+'([^']*)'\s*\}\}/g)) {
+		if (match[1] === 'classes') ctx.add_class_list(match[2] ?? '', match.index);
+		else ctx.warn(`Unknown helper "${match[1]}"`, match.index, 'Use the classes helper');
+	}
+	return ctx.finish();
+};
+
+describe('find_extractor', () => {
+	test('matches extensions, regexps, and functions in order', () => {
+		const a: CssExtractor = (source, file) => create_extraction_context(source, file).finish();
+		const b: CssExtractor = (source, file) => create_extraction_context(source, file).finish();
+		const extractors = new Map<string | RegExp | ((path: string) => boolean), CssExtractor>([
+			['.html.hbs', a],
+			[/\.hbs$/g, b],
+			[(path) => path.endsWith('.liquid'), a],
+		]);
+		assert.strictEqual(find_extractor('page.html.hbs', extractors), a);
+		assert.strictEqual(find_extractor('page.hbs', extractors), b);
+		assert.strictEqual(find_extractor('page.hbs', extractors), b);
+		assert.strictEqual(find_extractor('page.liquid', extractors), a);
+		assert.isNull(find_extractor('page.njk', extractors));
+		assert.isNull(find_extractor('page.hbs', undefined));
+	});
+});
+
+describe('custom extractors', () => {
+	test('dispatches registered extensions', () => {
+		const result = extract_css_classes_with_locations(
+			`<div class="box {{#if active}}selected{{/if}}"><dialog></dialog></div>`,
+			{filename: 'page.hbs', extractors: {'.hbs': extract_handlebars}},
+		);
+		class_names_equal(result, ['box', 'selected']);
+		assert_elements(result, ['div', 'dialog']);
+	});
+
+	test('take precedence over built-in extractors', () => {
+		const result = extract_css_classes_with_locations(`<div class="p_md"></div>`, {
+			filename: 'index.html',
+			extractors: [[/\.html$/, (source, file) => create_extraction_context(source, file).finish()]],
+		});
+		class_names_equal(result, []);
+	});
+
+	test('leave other files to the built-in extractors', () => {
+		const result = extract_css_classes_with_locations(`<div class="p_md"></div>`, {
+			filename: 'App.svelte',
+			extractors: {'.hbs': extract_handlebars},
+		});
+		class_names_equal(result, ['p_md']);
+	});
+});
+
+describe('create_extraction_context', () => {
+	test('locates classes and warnings by offset', () => {
+		const result = extract_handlebars(
+			`<p>\n  <span class="md:(p_lg gap_md)"></span>\n  {{classes 'row'}} {{oops 'x'}}\n</p>`,
+			'page.hbs',
+		);
+		assert.deepEqual(result.classes?.get('md:p_lg'), [loc('page.hbs', 2, 20)]);
+		assert.deepEqual(result.classes?.get('row'), [loc('page.hbs', 3, 3)]);
+		assert_diagnostic(result, 'warning', 'Unknown helper "oops"', 'page.hbs');
+	});
+
+	test('processes @fuz-* comments', () => {
+		const result = extract_handlebars(
+			`<!-- @fuz-classes opacity:50% -->\n<!-- @fuz-elements details -->`,
+			'page.hbs',
+		);
+		assert_explicit_classes(result, ['opacity:50%']);
+		assert_explicit_elements(result, ['details']);
+	});
+
+	test('finishes with null for empty collections', () => {
+		const result = create_extraction_context('').finish();
+		assert.isNull(result.classes);
+		assert.isNull(result.elements);
+		assert.isNull(result.diagnostics);
+	});
+});
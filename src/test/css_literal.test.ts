@@ -5,6 +5,8 @@ import {
 	is_possible_css_literal,
 	extract_segments,
 	format_css_value,
+	expand_variable_tokens,
+	extract_variable_tokens,
 	check_calc_expression,
 	suggest_css_property,
 	load_css_properties,
@@ -24,10 +26,18 @@ import {
 } from '$lib/css_literal.ts';
 import {escape_css_selector} from '$lib/css_class_generation.ts';
 import {type InterpreterDiagnostic} from '$lib/diagnostics.ts';
+import {build_variable_graph} from '$lib/variable_graph.ts';
+import {load_css_value_index, type CssValueIndex} from '$lib/css_value_validation.ts';
 import {
 	get_modifier,
+	create_modifier_index,
 	parse_arbitrary_breakpoint,
 	parse_parameterized_state,
+	parse_container_query,
+	parse_supports_query,
+	parse_relational_modifier,
+	parse_selector_variant,
+	parse_parameterized_pseudo_element,
 	extract_balanced_parens,
 } from '$lib/modifiers.ts';
 
@@ -145,6 +155,7 @@ describe('extract_segments', () => {
 		['min-width(800px):display:flex', ['min-width(800px)', 'display', 'flex']],
 		['before:content:""', ['before', 'content', '""']],
 		['width:calc(min(100%,500px))', ['width', 'calc(min(100%,500px))']],
+		['hover:[color:red;opacity:80%]', ['hover', '[color:red;opacity:80%]']],
 	])('extract_segments("%s") → %j', (input, expected) => {
 		assert.deepEqual(extract_segments(input), expected);
 	});
@@ -189,6 +200,40 @@ describe('format_css_value', () => {
 	] as const)('format_css_value("%s") → "%s" (!important edge cases)', (input, expected) => {
 		assert.strictEqual(format_css_value(input), expected);
 	});
+
+	test.each([
+		['$space_md', 'var(--space_md)'],
+		['1px~solid~$border_color', '1px solid var(--border_color)'],
+		['$color_a_50!important', 'var(--color_a_50) !important'],
+	] as const)('format_css_value("%s") → "%s" (theme tokens)', (input, expected) => {
+		assert.strictEqual(format_css_value(input), expected);
+	});
+});
+
+describe('expand_variable_tokens', () => {
+	test.each([
+		['$space_md', 'var(--space_md)'],
+		['calc($space_md*2)', 'calc(var(--space_md)*2)'],
+		['$space_sm~$space_md', 'var(--space_sm)~var(--space_md)'],
+		['var(--space_md)', 'var(--space_md)'],
+		['"$price"', '"$price"'],
+		["'$a'~$space_md", "'$a'~var(--space_md)"],
+		['$', '$'],
+		['$1', '$1'],
+	] as const)('expand_variable_tokens("%s") → "%s"', (input, expected) => {
+		assert.strictEqual(expand_variable_tokens(input), expected);
+	});
+});
+
+describe('extract_variable_tokens', () => {
+	test.each<[string, Array<string>]>([
+		['$space_md', ['space_md']],
+		['$space_sm~$space_md', ['space_sm', 'space_md']],
+		['"$price"~$text_color', ['text_color']],
+		['red', []],
+	])('extract_variable_tokens("%s")', (input, expected) => {
+		assert.deepEqual(extract_variable_tokens(input), expected);
+	});
 });
 
 describe('check_calc_expression', () => {
@@ -226,9 +271,28 @@ describe('get_modifier', () => {
 		['contrast-more', 'media'],
 		['portrait', 'media'],
 		['landscape', 'media'],
+		// Container modifiers
+		['cq-sm', 'container'],
+		['cq-md', 'container'],
+		['cq-max-lg', 'container'],
+		['cq-sidebar-md', 'container'],
+		['cq(min-width:30rem)', 'container'],
+		// Supports modifiers
+		['supports(display:grid)', 'supports'],
+		['not-supports(display:grid)', 'supports'],
 		// Ancestor modifiers
 		['dark', 'ancestor'],
 		['light', 'ancestor'],
+		// Group and peer modifiers
+		['group-hover', 'group'],
+		['group-focus-within/menu', 'group'],
+		['peer-checked', 'peer'],
+		['peer-nth-child(2n)', 'peer'],
+		// Selector modifiers
+		['children', 'selector'],
+		['descendants', 'selector'],
+		['sel(>li)', 'selector'],
+		['sel(_svg)', 'selector'],
 		// State modifiers
 		['hover', 'state'],
 		['focus', 'state'],
@@ -390,6 +454,27 @@ describe('parse_css_literal - with modifiers', () => {
 		assert.strictEqual(parsed.states[0]!.css, ':nth-child(2n+1)');
 	});
 
+	test('has(input:invalid):border-color:red escapes the selector argument in the class name', () => {
+		const class_name = 'has(input:invalid):border-color:red';
+		const output = assert_interpret_ok(
+			interpret_css_literal(class_name, escape_css_selector(class_name), css_properties),
+		);
+		assert.strictEqual(
+			output.selector,
+			'.has\\(input\\:invalid\\)\\:border-color\\:red:has(input:invalid)',
+		);
+	});
+
+	test('has(:checked):hover:not(.a):not(.b) orders by full text including the parameter', () => {
+		const {parsed} = assert_parse_ok(
+			parse_css_literal('has(:checked):hover:not(.a):not(.b):opacity:100%', css_properties),
+		);
+		assert.deepEqual(
+			parsed.states.map((s) => s.name),
+			['has(:checked)', 'hover', 'not(.a)', 'not(.b)'],
+		);
+	});
+
 	test('hover:nth-child(2n):color:red (alphabetical with parameterized)', () => {
 		const {parsed} = assert_parse_ok(
 			parse_css_literal('hover:nth-child(2n):color:red', css_properties),
@@ -407,8 +492,24 @@ describe('parse_css_literal - error cases', () => {
 			['hover:focus:color:red', 'alphabetical order'],
 			['dark:md:display:none', 'Media modifier must come before'],
 			['hover:dark:display:none', 'Ancestor modifier must come before'],
+			['cq-md:md:display:none', 'Media modifier must come before container'],
+			['dark:cq-md:display:none', 'Container modifier must come before ancestor'],
+			['hover:cq-md:display:none', 'Container modifier must come before state'],
+			['supports(display:grid):cq-md:display:grid', 'Container modifier must come before supports'],
+			['dark:supports(display:grid):display:grid', 'Supports modifier must come before ancestor'],
+			['group-hover:dark:opacity:100%', 'Ancestor modifier must come before group'],
+			['peer-checked:group-hover:opacity:100%', 'Group modifier must come before peer'],
+			['hover:peer-checked:opacity:100%', 'Peer modifier must come before state'],
+			['children:hover:opacity:100%', 'State modifiers must come before selector modifier'],
+			['before:children:opacity:100%', 'Selector modifier must come before pseudo-element'],
 			['before:hover:opacity:100%', 'State modifiers must come before'],
 			['nth-child(2n):hover:color:red', 'alphabetical order'],
+			['motion-safe:md:opacity:100%', 'Media modifiers must be in canonical order'],
+			['max-lg:md:opacity:100%', 'Media modifiers must be in canonical order'],
+			['landscape:print:opacity:100%', 'Media modifiers must be in canonical order'],
+			['portrait:motion-safe:opacity:100%', 'Media modifiers must be in canonical order'],
+			['not(.b):not(.a):color:red', 'alphabetical order'],
+			['is(.a):has(.b):color:red', 'alphabetical order'],
 		])('%s → error containing "%s"', (input, expected_message) => {
 			const {error} = assert_parse_error(parse_css_literal(input, css_properties));
 			assert.include(error.message, expected_message);
@@ -418,8 +519,20 @@ describe('parse_css_literal - error cases', () => {
 	describe('conflicting modifiers', () => {
 		test.each<[string, string]>([
 			['dark:light:color:red', 'mutually exclusive'],
-			['sm:md:display:flex', 'Multiple media modifiers'],
+			['sm:md:display:flex', 'both set a minimum width'],
+			['max-md:max-sm:display:flex', 'both set a maximum width'],
+			['sm:max-sm:display:flex', 'contradictory'],
+			['lg:max-md:display:flex', 'contradictory'],
+			['min-width(800px):max-width(600px):display:flex', 'contradictory'],
+			['portrait:landscape:display:flex', 'contradictory'],
+			['motion-reduce:motion-safe:display:flex', 'contradictory'],
+			['md:md:display:flex', 'Duplicate media modifier "md"'],
+			['cq-sm:cq-md:display:flex', 'Multiple container modifiers'],
+			['supports(display:grid):not-supports(gap:1rem):display:grid', 'Multiple supports modifiers'],
 			['before:after:content:""', 'Multiple pseudo-element'],
+			['group-focus:group-hover:opacity:100%', 'Multiple group modifiers'],
+			['peer-checked:peer-invalid:opacity:100%', 'Multiple peer modifiers'],
+			['children:sel(_svg):opacity:100%', 'Multiple selector modifiers'],
 		])('%s → error containing "%s"', (input, expected_message) => {
 			const {error} = assert_parse_error(parse_css_literal(input, css_properties));
 			assert.include(error.message, expected_message);
@@ -456,6 +569,56 @@ describe('parse_css_literal - warnings', () => {
 	});
 });
 
+describe('parse_css_literal - value validation', () => {
+	let css_value_index: CssValueIndex;
+
+	beforeAll(async () => {
+		css_value_index = await load_css_value_index();
+	});
+
+	const parse = (class_name: string) =>
+		parse_css_literal(class_name, css_properties, undefined, null, css_value_index);
+
+	test.each([
+		['display:flexx', 'flexx', 'flex'],
+		['position:absolut', 'absolut', 'absolute'],
+		['hover:visibility:hiden', 'hiden', 'hidden'],
+		['margin:0~autoo', 'autoo', 'auto'],
+	])('%s warns with a suggestion', (class_name, invalid, suggestion) => {
+		const {parsed, diagnostics} = assert_parse_ok(parse(class_name));
+		assert.ok(diagnostics);
+		assert.strictEqual(diagnostics[0]?.level, 'warning');
+		assert.include(diagnostics[0]?.message, `Invalid value "${invalid}"`);
+		assert.strictEqual(diagnostics[0]?.suggestion, `Did you mean "${suggestion}"?`);
+		// Still generates the value as written
+		assert.strictEqual(parsed.value, class_name.split(':').at(-1)!.replace(/~/g, ' '));
+	});
+
+	test('warns without a suggestion for mismatched types', () => {
+		const {diagnostics} = assert_parse_ok(parse('z-index:1.5'));
+		assert.ok(diagnostics);
+		assert.isNull(diagnostics[0]?.suggestion);
+	});
+
+	test.each([
+		'display:flex',
+		'margin:0~auto',
+		'color:$color_a_50',
+		'width:calc(100%~-~20px)',
+		'--my-var:flexx',
+		'font-family:Inter',
+		'display:inherit',
+	])('%s has no value warning', (class_name) => {
+		const {diagnostics} = assert_parse_ok(parse(class_name));
+		assert.isNull(diagnostics);
+	});
+
+	test('skips validation without an index', () => {
+		const {diagnostics} = assert_parse_ok(parse_css_literal('display:flexx', css_properties));
+		assert.isNull(diagnostics);
+	});
+});
+
 describe('interpret_css_literal', () => {
 	test('display:flex generates correct output', () => {
 		const result = interpret_css_literal('display:flex', 'display\\:flex', css_properties);
@@ -926,6 +1089,15 @@ describe('parse_parameterized_state - edge cases', () => {
 		['nth-last-of-type(3n+1)', ':nth-last-of-type(3n+1)', 'nth-last-of-type with formula'],
 		['nth-child(3n-1)', ':nth-child(3n-1)', 'negative offset'],
 		['nth-child(5)', ':nth-child(5)', 'simple number'],
+		['has(:checked)', ':has(:checked)', 'has with pseudo-class'],
+		['has(input:invalid)', ':has(input:invalid)', 'has with compound selector'],
+		['has(>img)', ':has(>img)', 'has with relative combinator'],
+		['has(.a~.b)', ':has(.a .b)', 'tilde as descendant space'],
+		['not(:last-child)', ':not(:last-child)', 'not'],
+		['is(.selected,[aria-current])', ':is(.selected,[aria-current])', 'is with selector list'],
+		['where(ul,ol)', ':where(ul,ol)', 'where'],
+		['not(:nth-child(2n))', ':not(:nth-child(2n))', 'nested functional pseudo-class'],
+		['has([data-state="a,b"])', ':has([data-state="a,b"])', 'comma inside a quoted attribute'],
 	] as const)('%s → css: %s (%s)', (input, expected_css, _desc) => {
 		const result = parse_parameterized_state(input);
 		assert.isNotNull(result);
@@ -938,6 +1110,20 @@ describe('parse_parameterized_state - edge cases', () => {
 		['nth-child', 'missing parens'],
 		['child(2n)', 'missing nth- prefix'],
 		['nth(2n)', 'incomplete pattern'],
+		['has()', 'empty selector'],
+		['has(~)', 'whitespace-only selector'],
+		['has(a{b})', 'braces'],
+		['not(a;b)', 'semicolon'],
+		['is(@media)', 'at-rule'],
+		['has(::before)', 'pseudo-element'],
+		['has(:has(a))', 'nested has'],
+		['is(a,,b)', 'empty list item'],
+		['is(,a)', 'leading comma'],
+		['not([open)', 'unbalanced bracket'],
+		['not(a])', 'stray bracket'],
+		['is([x="a])', 'unclosed quote'],
+		['has(a', 'unclosed paren'],
+		['has(a)b', 'trailing characters'],
 	] as const)('%s returns null for %s', (input, _desc) => {
 		assert.isNull(parse_parameterized_state(input));
 	});
@@ -1049,3 +1235,613 @@ describe('edge cases and error paths', () => {
 		});
 	});
 });
+
+describe('parse_container_query', () => {
+	test.each<[string, string | null]>([
+		['cq(min-width:30rem)', '@container (min-width:30rem)'],
+		['cq(width>=30rem)', '@container (width>=30rem)'],
+		['cq((width>=30rem)~and~(height>=20rem))', '@container (width>=30rem) and (height>=20rem)'],
+		['cq(sidebar~(width>=30rem))', '@container sidebar (width>=30rem)'],
+		['cq-sidebar-md', '@container sidebar (width >= 48rem)'],
+		['cq-main-nav-lg', '@container main-nav (width >= 64rem)'],
+		['cq-sidebar-max-md', '@container sidebar (width < 48rem)'],
+		['cq()', null],
+		['cq(a{b})', null],
+		['cq-md-', null],
+		['cq--md', null],
+		['cq-sidebar-huge', null],
+		['md', null],
+	])('parse_container_query("%s") → %s', (input, expected) => {
+		assert.strictEqual(parse_container_query(input), expected);
+	});
+});
+
+describe('container query modifiers', () => {
+	test('cq-md:display:grid parses the container modifier', () => {
+		const {parsed} = assert_parse_ok(parse_css_literal('cq-md:display:grid', css_properties));
+		assert.strictEqual(parsed.container?.css, '@container (width >= 48rem)');
+		assert.isNull(parsed.media);
+		assert.isTrue(has_modifiers(parsed));
+	});
+
+	test('cq(min-width:30rem) keeps colons inside parens', () => {
+		const {parsed} = assert_parse_ok(
+			parse_css_literal('cq(min-width:30rem):display:grid', css_properties),
+		);
+		assert.strictEqual(parsed.container?.css, '@container (min-width:30rem)');
+		assert.strictEqual(parsed.property, 'display');
+		assert.strictEqual(parsed.value, 'grid');
+	});
+
+	test('media, container, and ancestor wrappers nest in order', () => {
+		const class_name = 'md:cq-sidebar-md:dark:hover:display:grid';
+		const output = assert_interpret_ok(
+			interpret_css_literal(class_name, escape_css_selector(class_name), css_properties),
+		);
+		assert.strictEqual(output.container_wrapper, '@container sidebar (width >= 48rem)');
+		assert.strictEqual(
+			generate_css_literal_simple(output),
+			`@media (width >= 48rem) {
+	@container sidebar (width >= 48rem) {
+		:root.dark {
+			.md\\:cq-sidebar-md\\:dark\\:hover\\:display\\:grid:hover { display: grid; }
+		}
+	}
+}
+`,
+		);
+	});
+
+	test('container wrapper alone', () => {
+		const class_name = 'cq-lg:gap:2rem';
+		const output = assert_interpret_ok(
+			interpret_css_literal(class_name, escape_css_selector(class_name), css_properties),
+		);
+		assert.strictEqual(
+			generate_css_literal_simple(output),
+			`@container (width >= 64rem) {
+	.cq-lg\\:gap\\:2rem { gap: 2rem; }
+}
+`,
+		);
+	});
+
+	test('has_extracted_modifiers detects container modifiers', () => {
+		const {modifiers} = assert_mod_ok(extract_and_validate_modifiers(['cq-md'], 'cq-md:box'));
+		assert.isTrue(has_extracted_modifiers(modifiers));
+	});
+});
+
+describe('parse_supports_query', () => {
+	test.each<[string, string | null]>([
+		['supports(display:grid)', '@supports (display:grid)'],
+		['supports(anchor-name:--a)', '@supports (anchor-name:--a)'],
+		['supports(selector(:has(a)))', '@supports selector(:has(a))'],
+		['supports((display:grid)~and~(gap:1rem))', '@supports (display:grid) and (gap:1rem)'],
+		[
+			'supports(color:color-mix(in~hsl,~red,~blue))',
+			'@supports (color:color-mix(in hsl, red, blue))',
+		],
+		['not-supports(display:grid)', '@supports not (display:grid)'],
+		['not-supports((display:grid))', '@supports not (display:grid)'],
+		['not-supports(selector(:has(a)))', '@supports not selector(:has(a))'],
+		['not-supports((display:grid)~or~(gap:1rem))', '@supports not ((display:grid) or (gap:1rem))'],
+		['supports()', null],
+		['supports(a{b})', null],
+		['supports(display:grid', null],
+		['not-supports', null],
+		['supported(display:grid)', null],
+	])('parse_supports_query("%s") → %s', (input, expected) => {
+		assert.strictEqual(parse_supports_query(input), expected);
+	});
+});
+
+describe('supports modifiers', () => {
+	test('supports(display:grid):display:grid parses the supports modifier', () => {
+		const {parsed} = assert_parse_ok(
+			parse_css_literal('supports(display:grid):display:grid', css_properties),
+		);
+		assert.strictEqual(parsed.supports?.css, '@supports (display:grid)');
+		assert.strictEqual(parsed.property, 'display');
+		assert.isTrue(has_modifiers(parsed));
+	});
+
+	test('nests between container and ancestor wrappers', () => {
+		const class_name = 'md:cq-md:supports(display:grid):dark:hover:display:grid';
+		const output = assert_interpret_ok(
+			interpret_css_literal(class_name, escape_css_selector(class_name), css_properties),
+		);
+		assert.strictEqual(
+			generate_css_literal_simple(output),
+			`@media (width >= 48rem) {
+	@container (width >= 48rem) {
+		@supports (display:grid) {
+			:root.dark {
+				.${escape_css_selector(class_name)}:hover { display: grid; }
+			}
+		}
+	}
+}
+`,
+		);
+	});
+
+	test('not-supports with media', () => {
+		const class_name = 'md:not-supports(display:grid):float:left';
+		const output = assert_interpret_ok(
+			interpret_css_literal(class_name, escape_css_selector(class_name), css_properties),
+		);
+		assert.strictEqual(output.media_wrapper, '@media (width >= 48rem)');
+		assert.strictEqual(output.supports_wrapper, '@supports not (display:grid)');
+	});
+
+	test('custom static supports modifiers', () => {
+		const index = create_modifier_index([
+			{name: 'subgrid', type: 'supports', css: '@supports (grid-template-columns: subgrid)'},
+		]);
+		const {parsed} = assert_parse_ok(
+			parse_css_literal('subgrid:grid-template-columns:subgrid', css_properties, index),
+		);
+		assert.strictEqual(parsed.supports?.css, '@supports (grid-template-columns: subgrid)');
+	});
+});
+
+describe('parse_relational_modifier', () => {
+	test.each<[string, string | null]>([
+		['group-hover', '.group:hover'],
+		['group-focus-within', '.group:focus-within'],
+		['group-hover/menu', '.group\\/menu:hover'],
+		['group-nth-child(2n)', '.group:nth-child(2n)'],
+		['peer-checked', '.peer:checked'],
+		['peer-invalid/email', '.peer\\/email:invalid'],
+		['group-before', null],
+		['group-dark', null],
+		['group-unknown', null],
+		['group-group-hover', null],
+		['group-hover/', null],
+		['peer-', null],
+		['hover', null],
+	])('parse_relational_modifier("%s") → %s', (input, expected) => {
+		assert.strictEqual(parse_relational_modifier(input)?.css ?? null, expected);
+	});
+
+	test('derives from custom state modifiers', () => {
+		const index = create_modifier_index([{name: 'open', type: 'state', css: '[open]'}]);
+		assert.strictEqual(parse_relational_modifier('group-open', index)?.css, '.group[open]');
+		assert.isNull(parse_relational_modifier('group-hover', index));
+	});
+
+	test('carries the state order for cascade sorting', () => {
+		assert.strictEqual(
+			parse_relational_modifier('peer-hover')?.order,
+			get_modifier('hover')?.order,
+		);
+	});
+
+	test('create_modifier_index rejects static group and peer definitions', () => {
+		assert.throws(
+			() => create_modifier_index([{name: 'group-open', type: 'group', css: '.group[open]'}]),
+			/derived from state modifiers/,
+		);
+	});
+});
+
+describe('group and peer modifiers', () => {
+	test('group-hover:opacity:100% prefixes the group marker', () => {
+		const class_name = 'group-hover:opacity:100%';
+		const output = assert_interpret_ok(
+			interpret_css_literal(class_name, escape_css_selector(class_name), css_properties),
+		);
+		assert.strictEqual(output.selector, '.group:hover .group-hover\\:opacity\\:100\\%');
+	});
+
+	test('peer modifiers use the subsequent-sibling combinator', () => {
+		const class_name = 'peer-checked:before:display:block';
+		const output = assert_interpret_ok(
+			interpret_css_literal(class_name, escape_css_selector(class_name), css_properties),
+		);
+		assert.strictEqual(
+			output.selector,
+			`.peer:checked ~ .${escape_css_selector(class_name)}::before`,
+		);
+	});
+
+	test('nests inside wrappers with states after the class', () => {
+		const class_name = 'md:dark:group-hover/card:focus:color:red';
+		const output = assert_interpret_ok(
+			interpret_css_literal(class_name, escape_css_selector(class_name), css_properties),
+		);
+		assert.strictEqual(
+			generate_css_literal_simple(output),
+			`@media (width >= 48rem) {
+	:root.dark {
+		.group\\/card:hover .${escape_css_selector(class_name)}:focus { color: red; }
+	}
+}
+`,
+		);
+	});
+
+	test('has_extracted_modifiers detects group and peer modifiers', () => {
+		for (const segment of ['group-hover', 'peer-checked']) {
+			const {modifiers} = assert_mod_ok(
+				extract_and_validate_modifiers([segment], `${segment}:box`),
+			);
+			assert.isTrue(has_extracted_modifiers(modifiers));
+		}
+	});
+});
+
+describe('combined media modifiers', () => {
+	test.each<[string, string]>([
+		['md:motion-safe', '@media (width >= 48rem) and (prefers-reduced-motion: no-preference)'],
+		['print:landscape', '@media print and (orientation: landscape)'],
+		['md:max-xl', '@media (width >= 48rem) and (width < 80rem)'],
+		['min-width(800px):max-lg', '@media (width >= 800px) and (width < 64rem)'],
+		[
+			'sm:max-2xl:contrast-more:motion-safe',
+			'@media (width >= 40rem) and (width < 96rem) and (prefers-contrast: more) and (prefers-reduced-motion: no-preference)',
+		],
+	])('%s → %s', (modifiers, expected) => {
+		const {parsed} = assert_parse_ok(parse_css_literal(`${modifiers}:opacity:50%`, css_properties));
+		assert.strictEqual(parsed.media?.css, expected);
+		assert.strictEqual(parsed.media?.name, modifiers);
+	});
+
+	test('reports the suggestion for contradictions', () => {
+		const {error} = assert_parse_error(parse_css_literal('sm:max-sm:opacity:50%', css_properties));
+		assert.strictEqual(
+			error.message,
+			'Modifiers "sm" and "max-sm" are contradictory: (width >= 40rem) and (width < 40rem) never both match',
+		);
+		assert.strictEqual(error.suggestion, 'Use only one of "sm" or "max-sm"');
+	});
+
+	test('does not compare widths in different units', () => {
+		assert_parse_ok(parse_css_literal('min-width(1000px):max-sm:opacity:50%', css_properties));
+	});
+
+	test('wraps custom conditions with or, not, and lists', () => {
+		const index = create_modifier_index([
+			{name: 'md', type: 'media', css: '@media (width >= 48rem)'},
+			{name: 'fine', type: 'media', css: '@media (pointer: fine), (hover: hover)'},
+			{name: 'touch', type: 'media', css: '@media not (hover: hover)'},
+		]);
+		assert.strictEqual(
+			assert_parse_ok(parse_css_literal('md:fine:opacity:50%', css_properties, index)).parsed.media
+				?.css,
+			'@media (width >= 48rem) and ((pointer: fine) or (hover: hover))',
+		);
+		assert.strictEqual(
+			assert_parse_ok(parse_css_literal('md:touch:opacity:50%', css_properties, index)).parsed.media
+				?.css,
+			'@media (width >= 48rem) and (not (hover: hover))',
+		);
+	});
+
+	test('generates a single wrapper', () => {
+		const class_name = 'md:motion-safe:dark:transition:none';
+		const output = assert_interpret_ok(
+			interpret_css_literal(class_name, escape_css_selector(class_name), css_properties),
+		);
+		assert.strictEqual(
+			generate_css_literal_simple(output),
+			`@media (width >= 48rem) and (prefers-reduced-motion: no-preference) {
+	:root.dark {
+		.${escape_css_selector(class_name)} { transition: none; }
+	}
+}
+`,
+		);
+	});
+});
+
+describe('parse_selector_variant', () => {
+	test.each<[string, string | null]>([
+		['sel(>li)', '> li'],
+		['sel(_svg)', 'svg'],
+		['sel(+.hint)', '+ .hint'],
+		['sel(~p:hover)', '~ p:hover'],
+		['sel(>*)', '> *'],
+		['sel(_.icon_sm)', '.icon_sm'],
+		['sel(>li:not(.a,.b))', '> li:not(.a,.b)'],
+		['sel(_[data-x="a b"])', '[data-x="a b"]'],
+		['sel(li)', null],
+		['sel(>)', null],
+		['sel()', null],
+		['sel(>li>a)', null],
+		['sel(_a,b)', null],
+		['sel(_a~b)', null],
+		['sel(_svg::before)', null],
+		['sel(_a{b})', null],
+		['sel(_[x)', null],
+		['sel(_a])', null],
+		['sel(>li', null],
+		['selector(>li)', null],
+	])('parse_selector_variant("%s") → %s', (input, expected) => {
+		assert.strictEqual(parse_selector_variant(input), expected);
+	});
+});
+
+describe('selector modifiers', () => {
+	test.each<[string, string]>([
+		['children:margin:0', ' > *'],
+		['descendants:margin:0', ' *'],
+		['sel(>li):margin:0', ' > li'],
+		['sel(_svg):fill:currentColor', ' svg'],
+	])('%s appends "%s" after the class', (class_name, expected) => {
+		const output = assert_interpret_ok(
+			interpret_css_literal(class_name, escape_css_selector(class_name), css_properties),
+		);
+		assert.strictEqual(output.selector, `.${escape_css_selector(class_name)}${expected}`);
+	});
+
+	test('composes with media, state, and pseudo-element modifiers', () => {
+		const class_name = 'md:hover:children:before:content:"•"';
+		const output = assert_interpret_ok(
+			interpret_css_literal(class_name, escape_css_selector(class_name), css_properties),
+		);
+		assert.strictEqual(output.media_wrapper, '@media (width >= 48rem)');
+		assert.strictEqual(output.selector, `.${escape_css_selector(class_name)}:hover > *::before`);
+	});
+
+	test('sel() escapes its selector in the class name', () => {
+		const class_name = 'sel(>li):margin:0';
+		assert.strictEqual(escape_css_selector(class_name), 'sel\\(\\>li\\)\\:margin\\:0');
+	});
+});
+
+describe('parse_parameterized_pseudo_element', () => {
+	test.each<[string, string | null]>([
+		['view-transition-old(card)', '::view-transition-old(card)'],
+		['view-transition-new(*)', '::view-transition-new(*)'],
+		['view-transition-group(main-header)', '::view-transition-group(main-header)'],
+		['view-transition-image-pair(root)', '::view-transition-image-pair(root)'],
+		['part(label)', '::part(label)'],
+		['part(label~active)', '::part(label active)'],
+		['slotted(*)', '::slotted(*)'],
+		['slotted(p.lead)', '::slotted(p.lead)'],
+		['slotted([slot="icon"])', '::slotted([slot="icon"])'],
+		['highlight(search)', '::highlight(search)'],
+		['view-transition-old()', null],
+		['view-transition-old(a.b)', null],
+		['part(*)', null],
+		['part(a,b)', null],
+		['slotted(p~span)', null],
+		['slotted(p>span)', null],
+		['slotted(p::before)', null],
+		['highlight(a{b})', null],
+		['highlight(search', null],
+		['before(x)', null],
+	])('parse_parameterized_pseudo_element("%s") → %s', (input, expected) => {
+		assert.strictEqual(parse_parameterized_pseudo_element(input), expected);
+	});
+});
+
+describe('parameterized pseudo-element modifiers', () => {
+	test('appends the pseudo-element after states and selector modifiers', () => {
+		const class_name = 'hover:children:part(label):color:red';
+		const output = assert_interpret_ok(
+			interpret_css_literal(class_name, escape_css_selector(class_name), css_properties),
+		);
+		assert.strictEqual(
+			output.selector,
+			`.${escape_css_selector(class_name)}:hover > *::part(label)`,
+		);
+	});
+
+	test('only one pseudo-element is allowed', () => {
+		const result = parse_css_literal('before:highlight(search):color:red', css_properties);
+		assert.isFalse(result.ok);
+		if (!result.ok) {
+			assert.include(result.error.message, 'Multiple pseudo-element modifiers not allowed');
+		}
+	});
+});
+
+describe('starting modifier', () => {
+	test('starting:opacity:0 has an @starting-style wrapper', () => {
+		const result = parse_css_literal('starting:opacity:0', css_properties);
+		assert.isTrue(result.ok);
+		if (result.ok) {
+			assert.strictEqual(result.parsed.at_rule?.css, '@starting-style');
+		}
+	});
+
+	test('nests @starting-style innermost, inside media and ancestor wrappers', () => {
+		const class_name = 'md:dark:starting:hover:opacity:0';
+		const output = assert_interpret_ok(
+			interpret_css_literal(class_name, escape_css_selector(class_name), css_properties),
+		);
+		assert.strictEqual(output.at_rule_wrapper, '@starting-style');
+		assert.strictEqual(
+			generate_css_literal_simple(output),
+			'@media (width >= 48rem) {\n' +
+				'\t:root.dark {\n' +
+				'\t\t@starting-style {\n' +
+				'\t\t\t.md\\:dark\\:starting\\:hover\\:opacity\\:0:hover { opacity: 0; }\n' +
+				'\t\t}\n' +
+				'\t}\n' +
+				'}\n',
+		);
+	});
+
+	test('works with view transition pseudo-elements', () => {
+		const class_name = 'starting:view-transition-new(card):opacity:0';
+		const output = assert_interpret_ok(
+			interpret_css_literal(class_name, escape_css_selector(class_name), css_properties),
+		);
+		assert.strictEqual(output.at_rule_wrapper, '@starting-style');
+		assert.include(output.selector, '::view-transition-new(card)');
+	});
+
+	test.each<[string, string]>([
+		['starting:dark:opacity:0', 'Ancestor modifier must come before at-rule modifier'],
+		['hover:starting:opacity:0', 'At-rule modifier must come before state modifiers'],
+		['starting:starting:opacity:0', 'Multiple at-rule modifiers not allowed'],
+	])('%s errors', (class_name, message) => {
+		const result = parse_css_literal(class_name, css_properties);
+		assert.isFalse(result.ok);
+		if (!result.ok) {
+			assert.include(result.error.message, message);
+		}
+	});
+});
+
+describe('theme variable tokens', () => {
+	const graph = build_variable_graph(
+		[
+			{name: 'space_md', light: '16px'},
+			{name: 'color_a_50', light: 'blue'},
+		],
+		'test-hash',
+	);
+
+	test('expands tokens in the parsed value', () => {
+		const result = parse_css_literal('hover:color:$color_a_50', css_properties, undefined, graph);
+		assert.isTrue(result.ok);
+		if (result.ok) {
+			assert.strictEqual(result.parsed.value, 'var(--color_a_50)');
+		}
+	});
+
+	test('expands tokens without validation when no graph is given', () => {
+		const result = parse_css_literal('gap:$not_in_theme', css_properties);
+		assert.isTrue(result.ok);
+		if (result.ok) {
+			assert.strictEqual(result.parsed.value, 'var(--not_in_theme)');
+		}
+	});
+
+	test('errors on unknown tokens with a suggestion for typos', () => {
+		const result = parse_css_literal('color:$color_a_5O', css_properties, undefined, graph);
+		assert.isFalse(result.ok);
+		if (!result.ok) {
+			assert.strictEqual(result.error.message, 'Unknown theme variable "$color_a_5O"');
+			assert.strictEqual(result.error.suggestion, 'Did you mean "$color_a_50"?');
+		}
+	});
+
+	test('suggests var() for unrelated unknown tokens', () => {
+		const result = parse_css_literal('gap:$gutter', css_properties, undefined, graph);
+		assert.isFalse(result.ok);
+		if (!result.ok) {
+			assert.strictEqual(
+				result.error.suggestion,
+				'Use var(--gutter) for variables outside the theme',
+			);
+		}
+	});
+
+	test('ignores tokens inside quoted strings', () => {
+		const result = parse_css_literal('content:"$gutter"', css_properties, undefined, graph);
+		assert.isTrue(result.ok);
+	});
+});
+
+describe('multi-declaration literals', () => {
+	test('parses each declaration in order', () => {
+		const {parsed} = assert_parse_ok(
+			parse_css_literal('hover:[color:red;opacity:80%]', css_properties),
+		);
+		assert.deepEqual(parsed.declarations, [
+			{property: 'color', value: 'red'},
+			{property: 'opacity', value: '80%'},
+		]);
+		assert.strictEqual(parsed.property, 'color');
+		assert.strictEqual(parsed.value, 'red');
+		assert.strictEqual(parsed.states[0]?.name, 'hover');
+	});
+
+	test('single-declaration literals have one declaration', () => {
+		const {parsed} = assert_parse_ok(parse_css_literal('display:flex', css_properties));
+		assert.deepEqual(parsed.declarations, [{property: 'display', value: 'flex'}]);
+	});
+
+	test('generates one rule with every declaration', () => {
+		const class_name = 'md:hover:[position:sticky;top:0;z-index:10]';
+		const output = assert_interpret_ok(
+			interpret_css_literal(class_name, escape_css_selector(class_name), css_properties),
+		);
+		assert.strictEqual(output.declaration, 'position: sticky; top: 0; z-index: 10;');
+		assert.strictEqual(
+			generate_css_literal_simple(output),
+			'@media (width >= 48rem) {\n' +
+				'\t.md\\:hover\\:\\[position\\:sticky\\;top\\:0\\;z-index\\:10\\]:hover { position: sticky; top: 0; z-index: 10; }\n' +
+				'}\n',
+		);
+	});
+
+	test.each<[string, Array<{property: string; value: string}>]>([
+		[
+			'[display:flex;gap:1rem]',
+			[
+				{property: 'display', value: 'flex'},
+				{property: 'gap', value: '1rem'},
+			],
+		],
+		['[margin:0~auto;]', [{property: 'margin', value: '0 auto'}]],
+		[
+			'[width:calc(100%~-~1rem);background:url(a;b)]',
+			[
+				{property: 'width', value: 'calc(100% - 1rem)'},
+				{property: 'background', value: 'url(a;b)'},
+			],
+		],
+		[
+			"[display:flex;content:'a;b']",
+			[
+				{property: 'display', value: 'flex'},
+				{property: 'content', value: "'a;b'"},
+			],
+		],
+		[
+			'[quotes:"(";content:open-quote]',
+			[
+				{property: 'quotes', value: '"("'},
+				{property: 'content', value: 'open-quote'},
+			],
+		],
+		[
+			'[color:red!important;--x:1]',
+			[
+				{property: 'color', value: 'red !important'},
+				{property: '--x', value: '1'},
+			],
+		],
+	])('%s', (class_name, declarations) => {
+		const {parsed} = assert_parse_ok(parse_css_literal(class_name, css_properties));
+		assert.deepEqual(parsed.declarations, declarations);
+	});
+
+	test.each<[string, string, string | null]>([
+		['hover:[colr:red;opacity:80%]', 'Unknown CSS property "colr"', 'Did you mean "color"?'],
+		['hover:[color:red;opacty:80%]', 'Unknown CSS property "opacty"', 'Did you mean "opacity"?'],
+		['[color:red;opacity]', 'Invalid declaration "opacity"', null],
+		[
+			'[hover:color:red]',
+			'Invalid declaration "hover:color:red"',
+			'Modifiers go before the brackets, like "hover:[color:red;opacity:80%]"',
+		],
+		['hover:[]', 'Empty multi-declaration literal', null],
+		['hoverr:[color:red]', 'Unknown modifier "hoverr"', 'Did you mean "hover"?'],
+	])('%s errors', (class_name, message, suggestion) => {
+		const {error} = assert_parse_error(parse_css_literal(class_name, css_properties));
+		assert.include(error.message, message);
+		assert.strictEqual(error.suggestion, suggestion);
+	});
+
+	test('collects warnings from every declaration', () => {
+		const {diagnostics} = assert_parse_ok(
+			parse_css_literal('[width:calc(100%-1rem);height:calc(100%-1rem)]', css_properties),
+		);
+		assert.ok(diagnostics);
+		assert.lengthOf(diagnostics, 2);
+	});
+
+	test('resolves in composes', () => {
+		const result = try_resolve_literal('[display:flex;gap:1rem]', css_properties, 'row');
+		assert.ok(result.ok);
+		assert.strictEqual(result.declaration, 'display: flex; gap: 1rem;');
+	});
+});
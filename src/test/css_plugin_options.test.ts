@@ -31,6 +31,7 @@ describe('shared options interface', () => {
 			class_definitions: {},
 			include_default_classes: true,
 			class_interpreters: [],
+			modifiers: undefined,
 			exclude_classes: ['hidden'],
 			// CssOutputOptions
 			base_css: undefined,
@@ -159,6 +160,26 @@ describe('shared options interface', () => {
 		};
 		assert.strictEqual(typeof callback_opts.variables, 'function');
 	});
+
+	test('modifiers accepts ModifierDefinition[] | null | undefined | callback', () => {
+		const default_opts: CssClassOptions = {};
+		assert.isUndefined(default_opts.modifiers);
+
+		const disabled_opts: CssClassOptions = {
+			modifiers: null,
+		};
+		assert.isNull(disabled_opts.modifiers);
+
+		const custom_opts: CssClassOptions = {
+			modifiers: [{name: 'md', type: 'media', css: '@media (width >= 60rem)', order: 2}],
+		};
+		assert.isTrue(Array.isArray(custom_opts.modifiers));
+
+		const callback_opts: CssClassOptions = {
+			modifiers: (defaults) => defaults.filter((m) => m.type !== 'pseudo-element'),
+		};
+		assert.strictEqual(typeof callback_opts.modifiers, 'function');
+	});
 });
 
 describe('options default behavior', () => {
@@ -13,39 +13,24 @@ describe('generate_modified_ruleset', () => {
 			'.chip { font-weight: 500; }',
 			'chip',
 			'hover\\:chip',
-			':hover',
-			'',
-			null,
-			null,
+			{state_css: ':hover'},
 		);
 
 		assert_css_contains(result.css, '.hover\\:chip:hover', 'font-weight: 500;');
 	});
 
 	test('handles media wrapper', () => {
-		const result = generate_modified_ruleset(
-			'.chip { font-weight: 500; }',
-			'chip',
-			'md\\:chip',
-			'',
-			'',
-			'@media (width >= 48rem)',
-			null,
-		);
+		const result = generate_modified_ruleset('.chip { font-weight: 500; }', 'chip', 'md\\:chip', {
+			media_wrapper: '@media (width >= 48rem)',
+		});
 
 		assert_css_contains(result.css, '@media (width >= 48rem) {', '.md\\:chip', '}');
 	});
 
 	test('handles ancestor wrapper', () => {
-		const result = generate_modified_ruleset(
-			'.chip { font-weight: 500; }',
-			'chip',
-			'dark\\:chip',
-			'',
-			'',
-			null,
-			':root.dark',
-		);
+		const result = generate_modified_ruleset('.chip { font-weight: 500; }', 'chip', 'dark\\:chip', {
+			ancestor_wrapper: ':root.dark',
+		});
 
 		assert_css_contains(result.css, ':root.dark {', '.dark\\:chip');
 	});
@@ -55,10 +40,7 @@ describe('generate_modified_ruleset', () => {
 			'.chip { font-weight: 500; }',
 			'chip',
 			'md\\:dark\\:chip',
-			'',
-			'',
-			'@media (width >= 48rem)',
-			':root.dark',
+			{media_wrapper: '@media (width >= 48rem)', ancestor_wrapper: ':root.dark'},
 		);
 
 		assert_css_contains(
@@ -69,20 +51,39 @@ describe('generate_modified_ruleset', () => {
 		);
 	});
 
+	test('nests container wrapper between media and ancestor', () => {
+		const result = generate_modified_ruleset(
+			'.chip { font-weight: 500; }',
+			'chip',
+			'md\\:cq-md\\:dark\\:chip',
+			{
+				media_wrapper: '@media (width >= 48rem)',
+				ancestor_wrapper: ':root.dark',
+				container_wrapper: '@container (width >= 48rem)',
+			},
+		);
+
+		assert.strictEqual(
+			result.css,
+			`@media (width >= 48rem) {
+	@container (width >= 48rem) {
+		:root.dark {
+			.md\\:cq-md\\:dark\\:chip { font-weight: 500; }
+		}
+	}
+}
+`,
+		);
+	});
+
 	test('handles multi-rule ruleset', () => {
 		const ruleset = `
 			.selectable { cursor: pointer; }
 			.selectable:hover { background: blue; }
 		`;
-		const result = generate_modified_ruleset(
-			ruleset,
-			'selectable',
-			'md\\:selectable',
-			'',
-			'',
-			'@media (width >= 48rem)',
-			null,
-		);
+		const result = generate_modified_ruleset(ruleset, 'selectable', 'md\\:selectable', {
+			media_wrapper: '@media (width >= 48rem)',
+		});
 
 		assert_css_contains(
 			result.css,
@@ -98,15 +99,9 @@ describe('generate_modified_ruleset', () => {
 			.selectable:hover { background: blue; }
 			.selectable.selected { border: solid; }
 		`;
-		const result = generate_modified_ruleset(
-			ruleset,
-			'selectable',
-			'focus\\:selectable',
-			':focus',
-			'',
-			null,
-			null,
-		);
+		const result = generate_modified_ruleset(ruleset, 'selectable', 'focus\\:selectable', {
+			state_css: ':focus',
+		});
 
 		assert_css_contains(
 			result.css,
@@ -122,15 +117,9 @@ describe('generate_modified_ruleset', () => {
 			.menuitem .content { flex: 1; }
 			.menuitem .icon { width: 24px; }
 		`;
-		const result = generate_modified_ruleset(
-			ruleset,
-			'menuitem',
-			'hover\\:menuitem',
-			':hover',
-			'',
-			null,
-			null,
-		);
+		const result = generate_modified_ruleset(ruleset, 'menuitem', 'hover\\:menuitem', {
+			state_css: ':hover',
+		});
 
 		assert_css_contains(
 			result.css,
@@ -145,15 +134,9 @@ describe('generate_modified_ruleset', () => {
 			.chevron { position: relative; }
 			.chevron::before { content: ''; }
 		`;
-		const result = generate_modified_ruleset(
-			ruleset,
-			'chevron',
-			'hover\\:chevron',
-			':hover',
-			'',
-			null,
-			null,
-		);
+		const result = generate_modified_ruleset(ruleset, 'chevron', 'hover\\:chevron', {
+			state_css: ':hover',
+		});
 
 		assert_css_contains(result.css, '.hover\\:chevron:hover', '.hover\\:chevron:hover::before');
 	});
@@ -163,15 +146,9 @@ describe('generate_modified_ruleset', () => {
 			.chip { padding: 4px; }
 			a.chip { font-weight: 600; }
 		`;
-		const result = generate_modified_ruleset(
-			ruleset,
-			'chip',
-			'hover\\:chip',
-			':hover',
-			'',
-			null,
-			null,
-		);
+		const result = generate_modified_ruleset(ruleset, 'chip', 'hover\\:chip', {
+			state_css: ':hover',
+		});
 
 		assert_css_contains(result.css, '.hover\\:chip:hover', 'a.hover\\:chip:hover');
 	});
@@ -182,15 +159,9 @@ describe('generate_modified_ruleset', () => {
 				.chevron { position: relative; }
 				.chevron:before { content: ''; }
 			`;
-			const result = generate_modified_ruleset(
-				ruleset,
-				'chevron',
-				'before\\:chevron',
-				'',
-				'::before',
-				null,
-				null,
-			);
+			const result = generate_modified_ruleset(ruleset, 'chevron', 'before\\:chevron', {
+				pseudo_element_css: '::before',
+			});
 
 			assert_css_not_contains(result.css, ':before::before');
 			assert_css_contains(result.css, '.before\\:chevron::before', '.before\\:chevron:before');
@@ -200,15 +171,9 @@ describe('generate_modified_ruleset', () => {
 
 		test('detects CSS2 :after as pseudo-element conflict', () => {
 			const ruleset = '.icon:after { content: "→"; }';
-			const result = generate_modified_ruleset(
-				ruleset,
-				'icon',
-				'after\\:icon',
-				'',
-				'::after',
-				null,
-				null,
-			);
+			const result = generate_modified_ruleset(ruleset, 'icon', 'after\\:icon', {
+				pseudo_element_css: '::after',
+			});
 
 			assert_css_not_contains(result.css, ':after::after');
 			assert.isNotNull(result.skipped_modifiers);
@@ -216,15 +181,9 @@ describe('generate_modified_ruleset', () => {
 
 		test('detects CSS2 :first-letter as pseudo-element conflict', () => {
 			const ruleset = '.text:first-letter { font-size: 2em; }';
-			const result = generate_modified_ruleset(
-				ruleset,
-				'text',
-				'first-letter\\:text',
-				'',
-				'::first-letter',
-				null,
-				null,
-			);
+			const result = generate_modified_ruleset(ruleset, 'text', 'first-letter\\:text', {
+				pseudo_element_css: '::first-letter',
+			});
 
 			assert_css_not_contains(result.css, ':first-letter::first-letter');
 			assert.isNotNull(result.skipped_modifiers);
@@ -237,15 +196,9 @@ describe('generate_modified_ruleset', () => {
 				.chevron { position: relative; }
 				.chevron::before { content: ''; border: 4px solid; }
 			`;
-			const result = generate_modified_ruleset(
-				ruleset,
-				'chevron',
-				'before\\:chevron',
-				'',
-				'::before',
-				null,
-				null,
-			);
+			const result = generate_modified_ruleset(ruleset, 'chevron', 'before\\:chevron', {
+				pseudo_element_css: '::before',
+			});
 
 			assert_css_contains(
 				result.css,
@@ -264,15 +217,9 @@ describe('generate_modified_ruleset', () => {
 				.icon { display: inline; }
 				.icon::after { content: '→'; }
 			`;
-			const result = generate_modified_ruleset(
-				ruleset,
-				'icon',
-				'before\\:icon',
-				'',
-				'::before',
-				null,
-				null,
-			);
+			const result = generate_modified_ruleset(ruleset, 'icon', 'before\\:icon', {
+				pseudo_element_css: '::before',
+			});
 
 			assert_css_contains(
 				result.css,
@@ -291,15 +238,9 @@ describe('generate_modified_ruleset', () => {
 				.chevron { position: relative; }
 				.chevron::before { content: ''; }
 			`;
-			const result = generate_modified_ruleset(
-				ruleset,
-				'chevron',
-				'hover\\:chevron',
-				':hover',
-				'',
-				null,
-				null,
-			);
+			const result = generate_modified_ruleset(ruleset, 'chevron', 'hover\\:chevron', {
+				state_css: ':hover',
+			});
 
 			assert_css_contains(
 				result.css,
@@ -318,10 +259,7 @@ describe('generate_modified_ruleset', () => {
 				'.plain:hover, .plain:active { background: blue; }',
 				'plain',
 				'hover\\:plain',
-				':hover',
-				'',
-				null,
-				null,
+				{state_css: ':hover'},
 			);
 
 			assert_css_contains(result.css, '.hover\\:plain:hover', '.hover\\:plain:active:hover');
@@ -336,10 +274,7 @@ describe('generate_modified_ruleset', () => {
 				'.selectable:hover { background: blue; }',
 				'selectable',
 				'hover\\:focus\\:selectable',
-				':hover:focus',
-				'',
-				null,
-				null,
+				{state_css: ':hover:focus'},
 			);
 
 			assert_css_contains(result.css, '.hover\\:focus\\:selectable:hover:focus');
@@ -354,10 +289,7 @@ describe('generate_modified_ruleset', () => {
 				'.btn:hover, .btn:focus, .btn:active { outline: none; }',
 				'btn',
 				'hover\\:focus\\:btn',
-				':hover:focus',
-				'',
-				null,
-				null,
+				{state_css: ':hover:focus'},
 			);
 
 			assert_css_contains(
@@ -371,17 +303,41 @@ describe('generate_modified_ruleset', () => {
 		});
 	});
 
-	describe('state parsing edge cases', () => {
-		test('handles empty state_css', () => {
+	describe('selector modifiers', () => {
+		test('inserts the selector after states and before pseudo-elements', () => {
 			const result = generate_modified_ruleset(
-				'.box { display: flex; }',
-				'box',
-				'md\\:box',
-				'',
-				'',
-				null,
-				null,
+				'.chip { font-weight: 500; }\n.chip .icon { opacity: 0.5; }',
+				'chip',
+				'hover\\:children\\:chip',
+				{state_css: ':hover', selector_css: '> *'},
+			);
+
+			assert_css_contains(
+				result.css,
+				'.hover\\:children\\:chip:hover > * { font-weight: 500; }',
+				'.hover\\:children\\:chip:hover > * .icon { opacity: 0.5; }',
 			);
+			assert.isNull(result.skipped_modifiers);
+		});
+
+		test('skips the selector for rules with a pseudo-element', () => {
+			const result = generate_modified_ruleset(
+				'.chip::before { content: ""; }',
+				'chip',
+				'descendants\\:chip',
+				{selector_css: '*'},
+			);
+
+			assert_css_contains(result.css, '.descendants\\:chip::before {');
+			assert.deepEqual(result.skipped_modifiers, [
+				{selector: '.chip::before', reason: 'pseudo_element_conflict', conflicting_modifier: '*'},
+			]);
+		});
+	});
+
+	describe('state parsing edge cases', () => {
+		test('handles empty state_css', () => {
+			const result = generate_modified_ruleset('.box { display: flex; }', 'box', 'md\\:box');
 
 			assert_css_contains(result.css, '.md\\:box');
 			assert.isNull(result.skipped_modifiers);
@@ -392,10 +348,7 @@ describe('generate_modified_ruleset', () => {
 				'.box { display: flex; }',
 				'box',
 				'focus-visible\\:box',
-				':focus-visible',
-				'',
-				null,
-				null,
+				{state_css: ':focus-visible'},
 			);
 
 			assert_css_contains(result.css, '.focus-visible\\:box:focus-visible');
@@ -406,32 +359,50 @@ describe('generate_modified_ruleset', () => {
 				'.box { display: flex; }',
 				'box',
 				'hover\\:focus\\:active\\:box',
-				':hover:focus:active',
-				'',
-				null,
-				null,
+				{state_css: ':hover:focus:active'},
 			);
 
 			assert_css_contains(result.css, '.hover\\:focus\\:active\\:box:hover:focus:active');
 		});
 
+		test('keeps functional pseudo-class arguments intact', () => {
+			const result = generate_modified_ruleset(
+				'.box { display: flex; }\n.box:hover { color: red; }',
+				'box',
+				'has\\(input\\:invalid\\)\\:hover\\:box',
+				{state_css: ':has(input:invalid):hover'},
+			);
+
+			assert_css_contains(
+				result.css,
+				'.has\\(input\\:invalid\\)\\:hover\\:box:has(input:invalid):hover {',
+				'.has\\(input\\:invalid\\)\\:hover\\:box:hover:has(input:invalid) {',
+			);
+			assert.strictEqual(result.skipped_modifiers?.[0]?.conflicting_modifier, ':hover');
+		});
+
+		test('keeps attribute selector states from custom modifiers', () => {
+			const result = generate_modified_ruleset(
+				'.box { display: flex; }',
+				'box',
+				'hover\\:open\\:box',
+				{state_css: ':hover[open]'},
+			);
+
+			assert_css_contains(result.css, '.hover\\:open\\:box:hover[open]');
+		});
+
 		test('handles empty ruleset', () => {
-			const result = generate_modified_ruleset('', 'box', 'hover\\:box', ':hover', '', null, null);
+			const result = generate_modified_ruleset('', 'box', 'hover\\:box', {state_css: ':hover'});
 
 			assert.strictEqual(result.css, '');
 			assert.isNull(result.skipped_modifiers);
 		});
 
 		test('handles whitespace-only ruleset', () => {
-			const result = generate_modified_ruleset(
-				'   \n\t   ',
-				'box',
-				'hover\\:box',
-				':hover',
-				'',
-				null,
-				null,
-			);
+			const result = generate_modified_ruleset('   \n\t   ', 'box', 'hover\\:box', {
+				state_css: ':hover',
+			});
 
 			assert.strictEqual(result.css, '');
 			assert.isNull(result.skipped_modifiers);
@@ -291,6 +291,35 @@ describe('modify_selector_group', () => {
 		assert.isNull(result.skipped_modifiers);
 	});
 
+	test('adds the relational prefix only to selectors containing the class', () => {
+		const result = modify_selector_group(
+			'.menuitem .icon, .other',
+			'menuitem',
+			'peer-checked\\:menuitem',
+			[],
+			'',
+			'.peer:checked ~ ',
+		);
+
+		assert.strictEqual(result.selector, '.peer:checked ~ .peer-checked\\:menuitem .icon,\n.other');
+	});
+
+	test('adds the relational prefix before the compound containing the class', () => {
+		const result = modify_selector_group(
+			'.foo > .menuitem.active, .list li:not(.x, .y) + .menuitem',
+			'menuitem',
+			'peer-checked\\:menuitem',
+			[],
+			'',
+			'.peer:checked ~ ',
+		);
+
+		assert.strictEqual(
+			result.selector,
+			'.foo > .peer:checked ~ .peer-checked\\:menuitem.active,\n.list li:not(.x, .y) + .peer:checked ~ .peer-checked\\:menuitem',
+		);
+	});
+
 	describe('per-selector conflict detection', () => {
 		test('applies state only to selectors without conflict', () => {
 			const result = modify_selector_group(
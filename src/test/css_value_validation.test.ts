@@ -0,0 +1,127 @@
+import {test, assert, describe, beforeAll} from 'vitest';
+
+import {
+	create_css_value_index,
+	find_invalid_css_value_token,
+	load_css_value_index,
+	type CssValueIndex,
+} from '$lib/css_value_validation.ts';
+
+describe('create_css_value_index', () => {
+	test('flattens keywords and basic types through references', () => {
+		const index = create_css_value_index(
+			{
+				'margin-top': '<length-percentage> | auto',
+				margin: "<'margin-top'>{1,4}",
+			},
+			{'length-percentage': '[ <length> | <percentage> ]'},
+		);
+		const syntax = index.get('margin');
+		assert.ok(syntax);
+		assert.deepEqual([...syntax.keywords], ['auto']);
+		assert.sameMembers([...syntax.types], ['length', 'percentage']);
+	});
+
+	test('lowercases keywords and strips ranges', () => {
+		const index = create_css_value_index({color: 'currentColor | <number [0,1]>'}, {});
+		const syntax = index.get('color');
+		assert.ok(syntax);
+		assert.isTrue(syntax.keywords.has('currentcolor'));
+		assert.isTrue(syntax.types.has('number'));
+	});
+
+	test('skips function arguments and function types', () => {
+		const index = create_css_value_index(
+			{width: 'auto | fit-content(<length> | stretch) | <calc-size()>'},
+			{},
+		);
+		const syntax = index.get('width');
+		assert.ok(syntax);
+		assert.deepEqual([...syntax.keywords], ['auto']);
+		assert.strictEqual(syntax.types.size, 0);
+	});
+
+	test('marks syntaxes with unknown or open types as unverifiable', () => {
+		const index = create_css_value_index(
+			{
+				'font-family': '[ <family-name> | <generic-family> ]#',
+				'grid-area': '<grid-line> [ / <grid-line> ]{0,3}',
+				legacy: undefined,
+			},
+			{'grid-line': 'auto | <custom-ident>'},
+		);
+		assert.isNull(index.get('font-family'));
+		assert.isNull(index.get('grid-area'));
+		assert.isNull(index.get('legacy'));
+	});
+
+	test('handles cyclic references', () => {
+		const index = create_css_value_index({a: 'x | <b>'}, {b: "y | <'a'>"});
+		const syntax = index.get('a');
+		assert.ok(syntax);
+		assert.sameMembers([...syntax.keywords], ['x', 'y']);
+	});
+});
+
+describe('find_invalid_css_value_token', () => {
+	let index: CssValueIndex;
+
+	beforeAll(async () => {
+		index = await load_css_value_index();
+	});
+
+	test.each<[string, string, string | null]>([
+		['display', 'flexx', 'flexx'],
+		['display', 'inline flex', null],
+		['display', 'DISPLAY', 'DISPLAY'],
+		['position', 'absolut', 'absolut'],
+		['color', 'currentColor', null],
+		['color', '#abc', null],
+		['color', '#abcde', '#abcde'],
+		['color', 'reed', 'reed'],
+		['width', '10px', null],
+		['width', '100%', null],
+		['width', '10', '10'],
+		['width', '10pz', '10pz'],
+		['margin', '0 auto', null],
+		['margin', '-1rem', null],
+		['opacity', '0.5', null],
+		['opacity', '80%', null],
+		['z-index', '10', null],
+		['z-index', '1.5', '1.5'],
+		['border', '1px solid red', null],
+		['rotate', '45deg', null],
+		['transition-duration', '200ms', null],
+		['aspect-ratio', '16/9', null],
+		['image-rendering', '-webkit-optimize-contrast', null],
+		['display', 'flex !important', null],
+		['fill', 'red', null],
+		['fill', 'currentColor', null],
+		['fill', 'currentcolor', null],
+		['fill', 'none', null],
+		['fill', 'context-fill', null],
+		['fill', 'reed', 'reed'],
+		['stroke', 'red', null],
+		['stroke', 'currentcolor', null],
+		['stroke', '#fff', null],
+		['stroke', 'context-stroke', null],
+		['stroke-width', '2', null],
+		['stroke-linecap', 'round', null],
+	])('%s: %s → %s', (property, value, expected) => {
+		assert.strictEqual(find_invalid_css_value_token(property, value, index), expected);
+	});
+
+	test.each<[string, string]>([
+		['width', 'var(--width)'],
+		['width', 'calc(100% - 1px)'],
+		['color', 'rgb(0 0 0)'],
+		['content', '"flexx"'],
+		['display', 'inherit'],
+		['display', 'revert-layer'],
+		['--custom', 'flexx'],
+		['font-family', 'Inter'],
+		['not-a-property', 'flexx'],
+	])('skips %s: %s', (property, value) => {
+		assert.isNull(find_invalid_css_value_token(property, value, index));
+	});
+});
@@ -2,6 +2,9 @@ import {test, describe, assert} from 'vitest';
 
 import {generate_classes_css} from '$lib/css_class_generation.ts';
 import {css_class_composites} from '$lib/css_class_composites.ts';
+import {css_class_interpreters} from '$lib/css_class_interpreters.ts';
+import {css_class_definitions} from '$lib/css_class_definitions.ts';
+import {CssClasses} from '$lib/css_classes.ts';
 import {assert_css_contains, loc} from './test_helpers.ts';
 
 /**
@@ -154,3 +157,68 @@ describe('explicit_classes diagnostics', () => {
 		assert.deepEqual(result.diagnostics[0]!.locations, [source_loc]);
 	});
 });
+
+describe('explicit class patterns', () => {
+	test('errors for unmatched patterns with locations', () => {
+		const source_loc = loc('test.svelte', 3, 5);
+		const result = generate_classes_css({
+			class_names: ['md:shade_*'],
+			class_definitions: css_class_composites,
+			interpreters: css_class_interpreters,
+			// Validated properties so the pattern isn't interpreted as the literal `md: shade_*`
+			css_properties: new Set(['color', 'content', 'display']),
+			class_locations: new Map([['md:shade_*', [source_loc]]]),
+			explicit_classes: new Set(['md:shade_*']),
+		});
+
+		assert.strictEqual(result.css, '');
+		assert.lengthOf(result.diagnostics, 1);
+		assert.strictEqual(result.diagnostics[0]!.level, 'error');
+		assert.include(result.diagnostics[0]!.message, 'No class definitions match the pattern');
+		assert.deepEqual(result.diagnostics[0]!.locations, [source_loc]);
+	});
+
+	test('interprets non-explicit classes that look like patterns', () => {
+		const result = generate_classes_css({
+			class_names: ['content:"*"'],
+			class_definitions: {},
+			interpreters: css_class_interpreters,
+			css_properties: null,
+		});
+
+		assert_css_contains(result.css, 'content: "*"');
+	});
+
+	test('generates explicit literals with wildcards in functions', () => {
+		const css_classes = new CssClasses(
+			new Set(['width:calc(2*var(--space_md))']),
+			null,
+			css_class_definitions,
+		);
+		const {all_classes, all_classes_with_locations, explicit_classes} = css_classes.get_all();
+		const result = generate_classes_css({
+			class_names: all_classes,
+			class_definitions: css_class_definitions,
+			interpreters: css_class_interpreters,
+			css_properties: null,
+			class_locations: all_classes_with_locations,
+			explicit_classes,
+		});
+
+		assert_css_contains(result.css, 'width: calc(2*var(--space_md))');
+		assert.lengthOf(result.diagnostics, 0);
+	});
+
+	test('falls back to interpreters for explicit literals that look like patterns', () => {
+		const result = generate_classes_css({
+			class_names: ['content:*'],
+			class_definitions: css_class_composites,
+			interpreters: css_class_interpreters,
+			css_properties: new Set(['color', 'content', 'display']),
+			explicit_classes: new Set(['content:*']),
+		});
+
+		assert_css_contains(result.css, 'content: *');
+		assert.lengthOf(result.diagnostics, 0);
+	});
+});
@@ -1,6 +1,8 @@
 import {test, assert, describe} from 'vitest';
 
-import {filter_file_default} from '$lib/file_filter.ts';
+import {create_filter_file, filter_file_default} from '$lib/file_filter.ts';
+import {create_extraction_context} from '$lib/css_class_extractor.ts';
+import type {CssExtractor} from '$lib/css_extractors.ts';
 
 describe('filter_file_default', () => {
 	describe('includes valid extensions', () => {
@@ -8,10 +10,24 @@ describe('filter_file_default', () => {
 			assert.isTrue(filter_file_default('src/components/Button.svelte'));
 		});
 
+		test('includes .vue files', () => {
+			assert.isTrue(filter_file_default('src/components/Button.vue'));
+		});
+
+		test('includes .astro files', () => {
+			assert.isTrue(filter_file_default('src/pages/index.astro'));
+		});
+
 		test('includes .html files', () => {
 			assert.isTrue(filter_file_default('public/index.html'));
 		});
 
+		test('includes markdown files', () => {
+			assert.isTrue(filter_file_default('src/routes/docs/+page.md'));
+			assert.isTrue(filter_file_default('src/content/post.mdx'));
+			assert.isTrue(filter_file_default('src/routes/about/+page.svx'));
+		});
+
 		test('includes .ts files', () => {
 			assert.isTrue(filter_file_default('src/lib/utils.ts'));
 		});
@@ -38,8 +54,8 @@ describe('filter_file_default', () => {
 			assert.isFalse(filter_file_default('package.json'));
 		});
 
-		test('excludes .md files', () => {
-			assert.isFalse(filter_file_default('README.md'));
+		test('excludes .txt files', () => {
+			assert.isFalse(filter_file_default('notes.txt'));
 		});
 
 		test('excludes unknown extensions', () => {
@@ -188,3 +204,37 @@ describe('filter_file_default', () => {
 		});
 	});
 });
+
+describe('create_filter_file', () => {
+	const extract: CssExtractor = (source, file) => create_extraction_context(source, file).finish();
+
+	test('returns the default filter without extractors', () => {
+		assert.strictEqual(create_filter_file(undefined), filter_file_default);
+		assert.strictEqual(create_filter_file(null), filter_file_default);
+	});
+
+	test('includes the files of custom extractors', () => {
+		const filter = create_filter_file({'.hbs': extract, '.njk': extract});
+		assert.isTrue(filter('src/templates/page.hbs'));
+		assert.isTrue(filter('src/templates/layout.njk'));
+		assert.isTrue(filter('src/lib/Button.svelte'));
+		assert.isFalse(filter('src/templates/page.liquid'));
+	});
+
+	test('includes files by matcher', () => {
+		const filter = create_filter_file([
+			[/\.go\.?html$/, extract],
+			[(path) => path.startsWith('views/'), extract],
+		]);
+		assert.isTrue(filter('templates/index.gohtml'));
+		assert.isTrue(filter('views/home.tmpl'));
+		assert.isFalse(filter('templates/home.tmpl'));
+	});
+
+	test('excludes test and generated files', () => {
+		const filter = create_filter_file({'.hbs': extract});
+		assert.isFalse(filter('src/test/page.hbs'));
+		assert.isFalse(filter('src/page.test.hbs'));
+		assert.isFalse(filter('src/page.gen.hbs'));
+	});
+});
@@ -6,6 +6,8 @@ import {
 	type CssClassDefinitionInterpreter,
 } from '$lib/css_class_generation.ts';
 import {css_class_composites} from '$lib/css_class_composites.ts';
+import {css_class_interpreters} from '$lib/css_class_interpreters.ts';
+import {build_variable_graph} from '$lib/variable_graph.ts';
 import {
 	assert_css_contains,
 	assert_css_not_contains,
@@ -804,6 +806,33 @@ describe('generate_classes_css', () => {
 			assert.strictEqual(result.variables_used.size, 1);
 			assert.isTrue(result.variables_used.has('space_md'));
 		});
+
+		test('tracks variables from theme tokens in literals', () => {
+			const result = generate_classes_css({
+				class_names: ['gap:$space_md', 'hover:color:$color_a_50'],
+				class_definitions: {},
+				interpreters: css_class_interpreters,
+				css_properties: null,
+			});
+
+			assert_css_contains(result.css, 'gap: var(--space_md);', 'color: var(--color_a_50);');
+			assert.isTrue(result.variables_used.has('space_md'));
+			assert.isTrue(result.variables_used.has('color_a_50'));
+		});
+
+		test('errors on theme tokens missing from the variable graph', () => {
+			const result = generate_classes_css({
+				class_names: ['gap:$space_md', 'gap:$space_mdd'],
+				class_definitions: {},
+				interpreters: css_class_interpreters,
+				css_properties: null,
+				variable_graph: build_variable_graph([{name: 'space_md', light: '16px'}], 'test-hash'),
+			});
+
+			assert_diagnostic(result.diagnostics, 'error', 'Unknown theme variable "$space_mdd"');
+			assert.isTrue(result.variables_used.has('space_md'));
+			assert.isFalse(result.variables_used.has('space_mdd'));
+		});
 	});
 
 	describe('xs composite', () => {
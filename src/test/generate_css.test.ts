@@ -8,6 +8,7 @@
 import {test, describe, assert} from 'vitest';
 
 import {generate_css, type GenerateCssOptions} from '$lib/generate_css.ts';
+import {css_class_interpreters} from '$lib/css_class_interpreters.ts';
 import {create_test_fixtures} from './css_bundled_resolution_fixtures.ts';
 import type {StyleVariable} from '$lib/variable.ts';
 import {assert_css_contains, assert_css_not_contains} from './test_helpers.ts';
@@ -63,6 +64,22 @@ describe('generate_css', () => {
 			assert_css_not_contains(result.css, 'color: red');
 		});
 
+		test('validates theme tokens without theme output or resources', () => {
+			const {variable_graph} = create_test_fixtures('', [{name: 'space_md', light: '16px'}]);
+
+			const result = generate_css(
+				make_options({
+					all_classes: new Set(['gap:$space_md', 'gap:$space_mdd']),
+					interpreters: css_class_interpreters,
+					variable_graph,
+				}),
+			);
+
+			assert_css_contains(result.css, 'gap: var(--space_md);');
+			assert.equal(result.diagnostics.length, 1);
+			assert.include(result.diagnostics[0]!.message, 'Unknown theme variable "$space_mdd"');
+		});
+
 		test('forwards extraction diagnostics through unchanged', () => {
 			const diagnostic = {
 				level: 'warning' as const,
@@ -0,0 +1,124 @@
+import {test, assert, describe} from 'vitest';
+
+import {scan_html, type HtmlElementNode} from '$lib/html_scanner.ts';
+
+const elements = (source: string): Array<HtmlElementNode> =>
+	scan_html(source).filter((n) => n.type === 'element');
+
+describe('scan_html', () => {
+	test('finds start tags and attributes with offsets', () => {
+		const source = '<div class="box p_md" id=main hidden></div>';
+		const [div] = elements(source);
+		assert.ok(div);
+		assert.equal(div.name, 'div');
+		assert.deepEqual(div.attributes, [
+			{name: 'class', value: 'box p_md', expression: false, start: 5, value_start: 12},
+			{name: 'id', value: 'main', expression: false, start: 22, value_start: 25},
+			{name: 'hidden', value: null, expression: false, start: 30, value_start: 36},
+		]);
+		assert.equal(source.slice(div.attributes[0]!.value_start, 20), 'box p_md');
+	});
+
+	test('handles single quotes, whitespace around equals, and directive names', () => {
+		const [div] = elements(`<div :class = '{a: b > c}' @click.prevent="go()" v-bind:class="x">`);
+		assert.deepEqual(
+			div!.attributes.map((a) => [a.name, a.value]),
+			[
+				[':class', '{a: b > c}'],
+				['@click.prevent', 'go()'],
+				['v-bind:class', 'x'],
+			],
+		);
+	});
+
+	test('detects self-closing tags', () => {
+		const [icon, br] = elements('<Icon name="x" /><br>');
+		assert.isTrue(icon!.self_closing);
+		assert.equal(icon!.name, 'Icon');
+		assert.isFalse(br!.self_closing);
+	});
+
+	test('finds comments', () => {
+		assert.deepEqual(scan_html('<p></p><!-- @fuz-classes box -->'), [
+			{
+				type: 'element',
+				name: 'p',
+				attributes: [],
+				start: 0,
+				content: null,
+				content_start: 3,
+				self_closing: false,
+			},
+			{type: 'comment', data: ' @fuz-classes box ', start: 7},
+		]);
+	});
+
+	test('keeps script and style content as raw text', () => {
+		const source = `<script setup>const a = '<div class="x">';</script><style>a{}</style><b>`;
+		const nodes = elements(source);
+		assert.deepEqual(
+			nodes.map((n) => n.name),
+			['script', 'style', 'b'],
+		);
+		assert.equal(nodes[0]!.content, `const a = '<div class="x">';`);
+		assert.equal(source.slice(nodes[0]!.content_start).startsWith('const a'), true);
+		assert.equal(nodes[1]!.content, 'a{}');
+	});
+
+	test('skips closing tags, doctypes, and text', () => {
+		const nodes = elements('<!doctype html><p>a < b</p><hr>');
+		assert.deepEqual(
+			nodes.map((n) => n.name),
+			['p', 'hr'],
+		);
+	});
+
+	test('ends unclosed tags and comments at the end', () => {
+		assert.deepEqual(scan_html('<div class="box'), [
+			{
+				type: 'element',
+				name: 'div',
+				attributes: [{name: 'class', value: 'box', expression: false, start: 5, value_start: 12}],
+				start: 0,
+				content: null,
+				content_start: 16,
+				self_closing: false,
+			},
+		]);
+		assert.deepEqual(scan_html('<!-- note'), [{type: 'comment', data: ' note', start: 0}]);
+	});
+
+	test('scans a range', () => {
+		const source = '<a><b><c>';
+		assert.deepEqual(
+			scan_html(source, {start: 3, end: 6}).map((n) => (n as HtmlElementNode).name),
+			['b'],
+		);
+	});
+
+	test('scans expression values and spreads', () => {
+		const source = `<div class={clsx('a', {b: c})} class:list={[x, '}']} {...props} id=x>`;
+		const [div] = scan_html(source, {expressions: true}) as Array<HtmlElementNode>;
+		assert.deepEqual(
+			div!.attributes.map((a) => [a.name, a.value, a.expression]),
+			[
+				['class', "clsx('a', {b: c})", true],
+				['class:list', "[x, '}']", true],
+				['', '...props', true],
+				['id', 'x', false],
+			],
+		);
+		assert.equal(source.slice(div!.attributes[0]!.value_start).startsWith('clsx'), true);
+	});
+
+	test('reads braces as unquoted values without expressions', () => {
+		const [div] = elements('<div class={a}>');
+		assert.deepEqual(div!.attributes[0], {
+			name: 'class',
+			value: '{a}',
+			expression: false,
+			start: 5,
+			value_start: 11,
+		});
+	});
+});
@@ -0,0 +1,109 @@
+import {test, assert, describe} from 'vitest';
+
+import {create_literal_token_checker} from '$lib/literal_tokens.ts';
+import {generate_classes_css} from '$lib/css_class_generation.ts';
+import {css_class_interpreters} from '$lib/css_class_interpreters.ts';
+import {css_class_definitions} from '$lib/css_class_definitions.ts';
+import {assert_diagnostic} from './test_helpers.ts';
+
+describe('create_literal_token_checker', () => {
+	const check = create_literal_token_checker({
+		level: 'warn',
+		class_definitions: css_class_definitions,
+	});
+
+	test('suggests the equivalent token class', () => {
+		assert.deepEqual(check('padding:var(--space_md)'), {
+			level: 'warning',
+			message: 'CSS literal is equivalent to the "p_md" class',
+			identifier: 'padding:var(--space_md)',
+			suggestion: 'Use "p_md"',
+			fix: {message: 'Replace with "p_md"', replacement: 'p_md'},
+		});
+	});
+
+	test('expands variable shorthand', () => {
+		assert.equal(check('padding:$space_md')?.suggestion, 'Use "p_md"');
+	});
+
+	test('suggests composites', () => {
+		assert.equal(check('border-radius:50%')?.suggestion, 'Use "circular"');
+		assert.equal(check('[display:flex;flex-direction:column]')?.suggestion, 'Use "column"');
+	});
+
+	test('ignores declaration order', () => {
+		assert.equal(check('[flex-direction:column;display:flex]')?.suggestion, 'Use "column"');
+	});
+
+	test('keeps modifiers in the replacement', () => {
+		const result = check('md:hover:border-radius:50%');
+		assert.equal(result?.suggestion, 'Use "md:hover:circular"');
+		assert.equal(result?.fix?.replacement, 'md:hover:circular');
+		assert.equal(check('md:[display:flex;flex-direction:column]')?.suggestion, 'Use "md:column"');
+	});
+
+	test('ignores literals without an equivalent class', () => {
+		assert.isNull(check('padding:3px'));
+		assert.isNull(check('[display:flex;flex-direction:column;gap:3px]'));
+		assert.isNull(check('border-radius:50%!important'));
+		assert.isNull(check('p_md'));
+	});
+
+	test('reports errors at the error level', () => {
+		const check_errors = create_literal_token_checker({
+			level: 'error',
+			class_definitions: css_class_definitions,
+		});
+		assert.equal(check_errors('border-radius:50%')?.level, 'error');
+	});
+
+	test('resolves composes of custom definitions', () => {
+		const check_custom = create_literal_token_checker({
+			level: 'warn',
+			class_definitions: {
+				centered: {declaration: 'align-items: center; justify-content: center;'},
+				stack: {composes: ['centered'], declaration: 'display: grid;'},
+			},
+		});
+		assert.equal(
+			check_custom('[display:grid;align-items:center;justify-content:center]')?.suggestion,
+			'Use "stack"',
+		);
+	});
+});
+
+describe('literal tokens in generate_classes_css', () => {
+	const loc = {file: 'test.svelte', line: 3, column: 12};
+
+	test('reports literals with their locations and still generates them', () => {
+		const result = generate_classes_css({
+			class_names: ['border-radius:50%', 'padding:3px'],
+			class_definitions: css_class_definitions,
+			interpreters: css_class_interpreters,
+			css_properties: null,
+			class_locations: new Map([['border-radius:50%', [loc]]]),
+			literal_token_checker: create_literal_token_checker({
+				level: 'warn',
+				class_definitions: css_class_definitions,
+			}),
+		});
+		assert.lengthOf(result.diagnostics, 1);
+		assert_diagnostic(result.diagnostics, 'warning', 'CSS literal is equivalent to the "circular"');
+		assert.deepEqual(result.diagnostics[0]!.locations, [loc]);
+		assert.deepEqual(result.diagnostics[0]!.fix, {
+			message: 'Replace with "circular"',
+			replacement: 'circular',
+		});
+		assert.include(result.css, 'border-radius: 50%');
+	});
+
+	test('skips the check without a checker', () => {
+		const result = generate_classes_css({
+			class_names: ['border-radius:50%'],
+			class_definitions: css_class_definitions,
+			interpreters: css_class_interpreters,
+			css_properties: null,
+		});
+		assert.lengthOf(result.diagnostics, 0);
+	});
+});
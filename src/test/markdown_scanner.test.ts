@@ -0,0 +1,84 @@
+import {test, assert, describe} from 'vitest';
+
+import {scan_markdown} from '$lib/markdown_scanner.ts';
+
+const assert_elements_equal = (source: string, expected: Array<string>): void => {
+	assert.sameMembers([...scan_markdown(source).elements], expected);
+};
+
+describe('scan_markdown elements', () => {
+	test('maps headings', () => {
+		assert_elements_equal('# One\n\n### Three\n\n###### Six', ['h1', 'h3', 'h6']);
+	});
+
+	test('maps setext headings instead of paragraphs', () => {
+		assert_elements_equal('Title\n=====\n\nSubtitle\n---', ['h1', 'h2']);
+	});
+
+	test('maps paragraphs with hard breaks', () => {
+		assert_elements_equal('first line  \nsecond line', ['p', 'br']);
+		assert_elements_equal('no break\nhere', ['p']);
+	});
+
+	test('maps blockquotes and lists', () => {
+		assert_elements_equal('> quoted', ['blockquote', 'p']);
+		assert_elements_equal('- a\n* b', ['ul', 'li']);
+		assert_elements_equal('1. a\n2) b', ['ol', 'li']);
+		assert_elements_equal('> - [x] done', ['blockquote', 'ul', 'li', 'input']);
+	});
+
+	test('maps thematic breaks', () => {
+		assert_elements_equal('***\n\n- - -', ['hr']);
+	});
+
+	test('maps tables', () => {
+		assert_elements_equal('| a | b |\n| :-- | --: |', ['table', 'thead', 'tr', 'th']);
+		assert_elements_equal('a | b\n--- | ---\n1 | 2', ['table', 'thead', 'tbody', 'tr', 'th', 'td']);
+	});
+
+	test('maps code', () => {
+		assert_elements_equal('```ts\n# not a heading\n```', ['pre', 'code']);
+		assert_elements_equal('use `> x`', ['p', 'code']);
+	});
+
+	test('maps inline constructs', () => {
+		assert_elements_equal('**bold** and _em_', ['p', 'strong', 'em']);
+		assert_elements_equal('~~gone~~', ['p', 'del']);
+		assert_elements_equal('![alt](a.png) [link](/b) <https://c.dev>', ['p', 'img', 'a']);
+	});
+
+	test('ignores underscores inside words', () => {
+		assert_elements_equal('snake_case_name', ['p']);
+	});
+
+	test('maps elements after closed code fences', () => {
+		assert_elements_equal('```\ncode\n```\n\n# After', ['pre', 'code', 'h1']);
+		assert_elements_equal('~~~~\n```\n~~~\n~~~~~\n\n> after', ['pre', 'code', 'blockquote', 'p']);
+	});
+
+	test('keeps fences open until a matching close', () => {
+		assert_elements_equal('````\n```\n# inside\n```` not a close\n# inside', ['pre', 'code']);
+	});
+
+	test('ignores frontmatter', () => {
+		assert_elements_equal('---\ntitle: x\n---\n\n# Hi', ['h1']);
+	});
+
+	test('ignores script blocks', () => {
+		assert_elements_equal('<script>\n# x\n- y\n</script>\n', []);
+	});
+});
+
+describe('scan_markdown markup', () => {
+	test('blanks out code and frontmatter, keeping offsets', () => {
+		const source = '---\na: 1\n---\n<div class="x">`<b>`</div>\n```\n<i>\n```\n';
+		const {markup} = scan_markdown(source);
+		assert.strictEqual(markup.length, source.length);
+		assert.strictEqual(markup, '   \n    \n   \n<div class="x">     </div>\n   \n   \n   \n');
+	});
+
+	test('keeps markup after closed code fences', () => {
+		const source = '```\ncode\n```\n\n<div class="md_b"></div>';
+		assert.strictEqual(scan_markdown(source).markup, '   \n    \n   \n\n<div class="md_b"></div>');
+	});
+});
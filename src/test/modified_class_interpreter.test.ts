@@ -4,6 +4,7 @@ import {generate_classes_css} from '$lib/css_class_generation.ts';
 import {modified_class_interpreter} from '$lib/css_class_interpreters.ts';
 import {css_class_definitions} from '$lib/css_class_definitions.ts';
 import {css_class_composites} from '$lib/css_class_composites.ts';
+import {resolve_modifier_index} from '$lib/modifiers.ts';
 import {
 	assert_css_contains,
 	assert_css_not_contains,
@@ -122,7 +123,383 @@ describe('modified_class_interpreter', () => {
 		});
 	});
 
+	describe('container modifiers', () => {
+		test('generates CSS for cq-md:row with container query', () => {
+			const result = generate_classes_css({
+				class_names: ['cq-md:row'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(
+				result.css,
+				'@container (width >= 48rem) {',
+				'.cq-md\\:row {',
+				'flex-direction: row',
+			);
+		});
+
+		test('nests named container inside media: md:cq-sidebar-lg:dark:box', () => {
+			const result = generate_classes_css({
+				class_names: ['md:cq-sidebar-lg:dark:box'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_order(
+				result.css,
+				'@media (width >= 48rem) {',
+				'@container sidebar (width >= 64rem) {',
+				':root.dark {',
+				'.md\\:cq-sidebar-lg\\:dark\\:box {',
+			);
+		});
+
+		test('handles ruleset class with arbitrary container query', () => {
+			const result = generate_classes_css({
+				class_names: ['cq(min-width:30rem):selectable'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(
+				result.css,
+				'@container (min-width:30rem) {',
+				'.cq\\(min-width\\:30rem\\)\\:selectable:hover',
+			);
+		});
+
+		test('container composite sets container-type', () => {
+			const result = generate_classes_css({
+				class_names: ['container', 'md:container_size'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(
+				result.css,
+				'container-type: inline-size;',
+				'@media (width >= 48rem)',
+				'container-type: size;',
+			);
+		});
+	});
+
+	describe('combined media modifiers', () => {
+		test('combines md:motion-safe:box into one query', () => {
+			const result = generate_classes_css({
+				class_names: ['md:motion-safe:box'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(
+				result.css,
+				'@media (width >= 48rem) and (prefers-reduced-motion: no-preference) {',
+				'.md\\:motion-safe\\:box {',
+			);
+		});
+
+		test('combines media modifiers for ruleset classes', () => {
+			const result = generate_classes_css({
+				class_names: ['print:landscape:selectable'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(
+				result.css,
+				'@media print and (orientation: landscape) {',
+				'.print\\:landscape\\:selectable:hover {',
+			);
+		});
+
+		test('contradictory media modifiers generate nothing', () => {
+			const result = generate_classes_css({
+				class_names: ['sm:max-sm:box'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_not_contains(result.css, '@media');
+		});
+	});
+
+	describe('supports modifiers', () => {
+		test('generates CSS for supports(display:grid):box', () => {
+			const result = generate_classes_css({
+				class_names: ['supports(display:grid):box'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(
+				result.css,
+				'@supports (display:grid) {',
+				'.supports\\(display\\:grid\\)\\:box {',
+				'display: flex',
+			);
+		});
+
+		test('nests supports inside media for ruleset classes: md:not-supports(gap:1rem):dark:selectable', () => {
+			const result = generate_classes_css({
+				class_names: ['md:not-supports(gap:1rem):dark:selectable'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_order(
+				result.css,
+				'@media (width >= 48rem) {',
+				'@supports not (gap:1rem) {',
+				':root.dark {',
+				'.md\\:not-supports\\(gap\\:1rem\\)\\:dark\\:selectable:hover',
+			);
+		});
+	});
+
+	describe('selector argument states', () => {
+		test('generates CSS for has(input:invalid):box', () => {
+			const result = generate_classes_css({
+				class_names: ['has(input:invalid):box'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(
+				result.css,
+				'.has\\(input\\:invalid\\)\\:box:has(input:invalid) {',
+				'display: flex',
+			);
+		});
+
+		test('applies not(.selected) to each rule of ruleset classes', () => {
+			const result = generate_classes_css({
+				class_names: ['not(.selected):selectable'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(
+				result.css,
+				'.not\\(\\.selected\\)\\:selectable:not(.selected) {',
+				'.not\\(\\.selected\\)\\:selectable:hover:not(.selected) {',
+			);
+		});
+
+		test('derives group-has() from the parameterized state', () => {
+			const result = generate_classes_css({
+				class_names: ['group-has(:checked):box'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(result.css, '.group:has(:checked) .group-has\\(\\:checked\\)\\:box {');
+		});
+	});
+
+	describe('group and peer modifiers', () => {
+		test('generates a group selector for group-hover:box', () => {
+			const result = generate_classes_css({
+				class_names: ['group-hover:box'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(result.css, '.group:hover .group-hover\\:box {', 'display: flex');
+		});
+
+		test('generates a peer selector for peer-checked:box', () => {
+			const result = generate_classes_css({
+				class_names: ['peer-checked:box'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(result.css, '.peer:checked ~ .peer-checked\\:box {');
+		});
+
+		test('inserts the relational prefix before the compound with the class in rulesets', () => {
+			const result = generate_classes_css({
+				class_names: ['peer-checked:menuitem', 'group-hover:menuitem'],
+				class_definitions: {
+					menuitem: {ruleset: '.menu > .menuitem { display: flex; }'},
+				},
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(
+				result.css,
+				'.menu > .peer:checked ~ .peer-checked\\:menuitem {',
+				'.menu > .group:hover .group-hover\\:menuitem {',
+			);
+		});
+
+		test('uses the named marker class for group-focus-within/menu:box', () => {
+			const result = generate_classes_css({
+				class_names: ['group-focus-within/menu:box'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(
+				result.css,
+				'.group\\/menu:focus-within .group-focus-within\\/menu\\:box {',
+			);
+		});
+
+		test('combines group, peer, and state modifiers', () => {
+			const result = generate_classes_css({
+				class_names: ['group-hover:peer-invalid:focus:box'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(
+				result.css,
+				'.group:hover .peer:invalid ~ .group-hover\\:peer-invalid\\:focus\\:box:focus {',
+			);
+		});
+
+		test('prefixes each selector containing the class for ruleset classes', () => {
+			const result = generate_classes_css({
+				class_names: ['dark:group-hover:selectable'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_order(
+				result.css,
+				':root.dark {',
+				'.group:hover .dark\\:group-hover\\:selectable {',
+				'.group:hover .dark\\:group-hover\\:selectable:hover {',
+				'.group:hover .dark\\:group-hover\\:selectable.selected,\n.group:hover .dark\\:group-hover\\:selectable:active {',
+			);
+		});
+
+		test('rejects group modifiers after state modifiers', () => {
+			const result = generate_classes_css({
+				class_names: ['hover:group-hover:box'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_not_contains(result.css, '.group:hover');
+		});
+	});
+
+	describe('selector modifiers', () => {
+		test('generates a child selector for children:box', () => {
+			const result = generate_classes_css({
+				class_names: ['children:box'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(result.css, '.children\\:box > * {', 'display: flex');
+		});
+
+		test('composes with media and state modifiers: md:hover:sel(_svg):box', () => {
+			const result = generate_classes_css({
+				class_names: ['md:hover:sel(_svg):box'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_order(
+				result.css,
+				'@media (width >= 48rem) {',
+				'.md\\:hover\\:sel\\(_svg\\)\\:box:hover svg {',
+			);
+		});
+
+		test('appends after each compound containing the class for ruleset classes', () => {
+			const result = generate_classes_css({
+				class_names: ['sel(>li):selectable'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(
+				result.css,
+				'.sel\\(\\>li\\)\\:selectable > li {',
+				'.sel\\(\\>li\\)\\:selectable:hover > li {',
+				'.sel\\(\\>li\\)\\:selectable.selected > li,',
+			);
+		});
+	});
+
+	describe('starting modifier', () => {
+		test('wraps each rule of a ruleset class in @starting-style', () => {
+			const result = generate_classes_css({
+				class_names: ['starting:selectable'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_order(
+				result.css,
+				'@starting-style {',
+				'\t.starting\\:selectable {',
+				'\t.starting\\:selectable:hover {',
+			);
+		});
+
+		test('nests inside the hybrid color scheme alternative', () => {
+			const result = generate_classes_css({
+				class_names: ['dark:starting:box'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+				modifiers: resolve_modifier_index(undefined, 'hybrid'),
+			});
+
+			assert_css_contains(
+				result.css,
+				':root.dark {\n\t@starting-style {\n\t\t.dark\\:starting\\:box {',
+				':root:not(.light) {\n\t\t@starting-style {\n\t\t\t.dark\\:starting\\:box {',
+			);
+		});
+	});
+
 	describe('pseudo-elements', () => {
+		test('handles parameterized pseudo-elements', () => {
+			const result = generate_classes_css({
+				class_names: ['view-transition-old(card):box'],
+				class_definitions: css_class_composites,
+				interpreters: [modified_class_interpreter],
+				css_properties: null,
+			});
+
+			assert_css_contains(
+				result.css,
+				'.view-transition-old\\(card\\)\\:box::view-transition-old(card) {',
+			);
+		});
+
 		test('handles before pseudo-element', () => {
 			const result = generate_classes_css({
 				class_names: ['before:box'],
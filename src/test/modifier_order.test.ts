@@ -0,0 +1,159 @@
+import {test, assert, describe} from 'vitest';
+
+import {
+	canonicalize_modifier_order,
+	extract_and_validate_modifiers,
+	extract_segments,
+} from '$lib/css_literal.ts';
+import {fix_modifier_order} from '$lib/modifier_order.ts';
+import {generate_classes_css} from '$lib/css_class_generation.ts';
+import {css_class_interpreters} from '$lib/css_class_interpreters.ts';
+import {css_class_definitions} from '$lib/css_class_definitions.ts';
+
+describe('canonicalize_modifier_order', () => {
+	const cases: Array<[input: string, expected: string]> = [
+		['hover:md:p_lg', 'md:hover:p_lg'],
+		['focus:active:dark:color:red', 'dark:active:focus:color:red'],
+		['before:hover:opacity:50%', 'hover:before:opacity:50%'],
+		['motion-safe:hover:md:box', 'md:motion-safe:hover:box'],
+		['hover:nth-child(2n+1):md:color:red', 'md:hover:nth-child(2n+1):color:red'],
+		['hover:[color:red;opacity:80%]', 'hover:[color:red;opacity:80%]'],
+	];
+
+	test.each(cases)('%s → %s', (input, expected) => {
+		assert.equal(canonicalize_modifier_order(input), expected);
+	});
+
+	test('returns canonical class names unchanged', () => {
+		for (const class_name of ['md:dark:hover:before:opacity:80%', 'p_lg', 'display:flex']) {
+			assert.strictEqual(canonicalize_modifier_order(class_name), class_name);
+		}
+	});
+
+	test('produces class names that validate', () => {
+		for (const [input] of cases) {
+			const segments = extract_segments(canonicalize_modifier_order(input));
+			const result = extract_and_validate_modifiers(segments.slice(0, -1), input);
+			assert.ok(result.ok, input);
+		}
+	});
+});
+
+describe('modifier order quick-fix', () => {
+	const generate = (class_names: Array<string>) =>
+		generate_classes_css({
+			class_names,
+			class_definitions: css_class_definitions,
+			interpreters: css_class_interpreters,
+			css_properties: null,
+		});
+
+	test('attaches the fix to ordering errors', () => {
+		const result = generate(['dark:md:display:flex', 'hover:focus:opacity:50%']);
+		assert.lengthOf(result.diagnostics, 2);
+		assert.deepEqual(
+			result.diagnostics.map((d) => d.fix),
+			[
+				{message: 'Reorder to "md:dark:display:flex"', replacement: 'md:dark:display:flex'},
+				{message: 'Reorder to "focus:hover:opacity:50%"', replacement: 'focus:hover:opacity:50%'},
+			],
+		);
+	});
+
+	test('reports ordering errors for modified classes', () => {
+		const result = generate(['hover:md:p_lg']);
+		assert.lengthOf(result.diagnostics, 1);
+		assert.equal(result.diagnostics[0]!.message, 'Media modifier must come before state modifiers');
+		assert.equal(result.diagnostics[0]!.fix?.replacement, 'md:hover:p_lg');
+	});
+
+	test('omits the fix for errors reordering cannot fix', () => {
+		const result = generate(['dark:light:display:flex']);
+		assert.lengthOf(result.diagnostics, 1);
+		assert.isUndefined(result.diagnostics[0]!.fix);
+	});
+});
+
+describe('fix_modifier_order', () => {
+	test('rewrites class attributes', () => {
+		const result = fix_modifier_order(
+			'<div class="box hover:md:p_lg">\n\t<p class="focus:hover:color:red box"></p>\n</div>',
+			{filename: 'test.svelte'},
+		);
+		assert.equal(
+			result.content,
+			'<div class="box md:hover:p_lg">\n\t<p class="focus:hover:color:red box"></p>\n</div>',
+		);
+		assert.deepEqual(result.edits, [
+			{
+				class_name: 'hover:md:p_lg',
+				replacement: 'md:hover:p_lg',
+				location: {file: 'test.svelte', line: 1, column: 17},
+			},
+		]);
+	});
+
+	test('rewrites every occurrence', () => {
+		const result = fix_modifier_order(
+			`<script lang="ts">
+	const active_classes = 'hover:focus:p_md';
+</script>
+<div class="hover:focus:p_md {active_classes}"></div>
+<div class={['hover:focus:p_md', cond && 'hover:focus:p_md']}></div>`,
+			{filename: 'test.svelte'},
+		);
+		assert.notInclude(result.content, 'hover:focus:p_md');
+		assert.lengthOf(result.edits, 4);
+	});
+
+	test('rewrites TypeScript and leaves lookalike text alone', () => {
+		const source = `// hover:md:p_lg
+const label = 'hover:md:p_lg';
+const button_classes = clsx('x hover:md:p_lg', {'hover:md:box': active});`;
+		const result = fix_modifier_order(source, {filename: 'test.ts'});
+		assert.equal(
+			result.content,
+			`// hover:md:p_lg
+const label = 'hover:md:p_lg';
+const button_classes = clsx('x md:hover:p_lg', {'md:hover:box': active});`,
+		);
+	});
+
+	test('rewrites Svelte class directives', () => {
+		const result = fix_modifier_order(
+			'<div class:hover:md:p_lg={active} class="hover:md:p_lg"></div>',
+			{filename: 'test.svelte'},
+		);
+		assert.equal(result.content, '<div class:md:hover:p_lg={active} class="md:hover:p_lg"></div>');
+		assert.lengthOf(result.edits, 2);
+	});
+
+	test('uses the class detection options', () => {
+		const source = `const a = fz('hover:md:p_lg');
+const b = clsx('hover:md:p_lg');`;
+		const result = fix_modifier_order(source, {
+			filename: 'test.ts',
+			class_utility_functions: ['fz'],
+		});
+		assert.equal(
+			result.content,
+			`const a = fz('md:hover:p_lg');
+const b = clsx('hover:md:p_lg');`,
+		);
+	});
+
+	test('leaves classes in variant groups as-is', () => {
+		const source = '<div class="hover:(md:p_lg)"></div>';
+		const result = fix_modifier_order(source, {filename: 'test.svelte'});
+		assert.equal(result.content, source);
+		assert.lengthOf(result.edits, 0);
+	});
+
+	test('returns the source unchanged without edits', () => {
+		const source = '<div class="md:hover:p_lg"></div>';
+		assert.deepEqual(fix_modifier_order(source, {filename: 'test.svelte'}), {
+			content: source,
+			edits: [],
+		});
+	});
+});
@@ -1,6 +1,23 @@
 import {test, assert, describe} from 'vitest';
 
-import {MODIFIERS} from '$lib/modifiers.ts';
+import {
+	MODIFIERS,
+	create_modifier_index,
+	default_modifier_index,
+	get_modifier,
+	get_all_modifier_names,
+	resolve_modifier_index,
+	resolve_modifiers_option,
+	with_color_scheme_strategy,
+	PSEUDO_ELEMENT_FUNCTIONS,
+	with_direction_strategy,
+	type ModifierDefinition,
+} from '$lib/modifiers.ts';
+import {extract_and_validate_modifiers, parse_css_literal} from '$lib/css_literal.ts';
+import {generate_classes_css} from '$lib/css_class_generation.ts';
+import {css_class_interpreters} from '$lib/css_class_interpreters.ts';
+import {css_class_composites} from '$lib/css_class_composites.ts';
+import {assert_css_contains, assert_css_not_contains, assert_css_order} from './test_helpers.ts';
 
 /**
  * Loads CSS selectors from @webref/css for validation.
@@ -47,8 +64,17 @@ describe('MODIFIERS', () => {
 			const failures: Array<string> = [];
 
 			for (const m of MODIFIERS) {
-				// Skip media and ancestor modifiers - they use @media and ancestor selectors, not pseudo-classes
-				if (m.type === 'media' || m.type === 'ancestor') continue;
+				// Skip media, container, ancestor, at-rule, and selector modifiers - they use at-rules,
+				// ancestor selectors, and combinators, not pseudo-classes
+				if (
+					m.type === 'media' ||
+					m.type === 'container' ||
+					m.type === 'ancestor' ||
+					m.type === 'at-rule' ||
+					m.type === 'selector'
+				) {
+					continue;
+				}
 
 				const base_selector = extract_base_selector(m.css);
 
@@ -65,6 +91,13 @@ describe('MODIFIERS', () => {
 				`The following modifiers are not in the CSS spec:\n  ${failures.join('\n  ')}`,
 			);
 		});
+
+		test('parameterized pseudo-elements are in CSS spec', async () => {
+			const webref_selectors = await load_webref_selectors();
+			for (const fn in PSEUDO_ELEMENT_FUNCTIONS) {
+				assert.isTrue(webref_selectors.has(`::${fn}()`), `"::${fn}()" is not in CSS spec`);
+			}
+		});
 	});
 
 	describe('CSS value format', () => {
@@ -79,6 +112,17 @@ describe('MODIFIERS', () => {
 			}
 		});
 
+		test('container modifiers start with @container', () => {
+			for (const m of MODIFIERS) {
+				if (m.type === 'container') {
+					assert.isTrue(
+						m.css.startsWith('@container '),
+						`container modifier "${m.name}" should start with "@container "`,
+					);
+				}
+			}
+		});
+
 		test('ancestor modifiers start with :root.', () => {
 			for (const m of MODIFIERS) {
 				if (m.type === 'ancestor') {
@@ -114,3 +158,262 @@ describe('MODIFIERS', () => {
 		});
 	});
 });
+
+const CUSTOM_MODIFIERS: Array<ModifierDefinition> = [
+	{name: 'sm', type: 'media', css: '@media (width >= 36rem)', order: 1},
+	{name: 'md', type: 'media', css: '@media (width >= 60rem)', order: 2},
+	{name: 'lg', type: 'media', css: '@media (width >= 90rem)', order: 3},
+	{name: 'hover', type: 'state', css: ':hover', order: 5},
+	{name: 'active', type: 'state', css: ':active', order: 6},
+	{name: 'selected', type: 'state', css: '[aria-selected="true"]'},
+	{name: 'contrast', type: 'ancestor', css: ':root.contrast'},
+];
+
+describe('create_modifier_index', () => {
+	test('indexes definitions by type', () => {
+		const index = create_modifier_index(CUSTOM_MODIFIERS);
+		assert.strictEqual(index.definitions, CUSTOM_MODIFIERS);
+		assert.deepEqual(Array.from(index.media.keys()), ['sm', 'md', 'lg']);
+		assert.deepEqual(Array.from(index.state.keys()), ['hover', 'active', 'selected']);
+		assert.deepEqual(Array.from(index.ancestor.keys()), ['contrast']);
+		assert.strictEqual(index.pseudo_element.size, 0);
+		assert.strictEqual(index.names.size, CUSTOM_MODIFIERS.length);
+	});
+
+	test('throws on duplicate names', () => {
+		assert.throws(
+			() =>
+				create_modifier_index([
+					{name: 'md', type: 'media', css: '@media (width >= 48rem)'},
+					{name: 'md', type: 'state', css: ':hover'},
+				]),
+			/Duplicate modifier name "md"/,
+		);
+	});
+
+	test('throws on names with colons', () => {
+		assert.throws(
+			() => create_modifier_index([{name: 'a:b', type: 'state', css: ':hover'}]),
+			/Invalid modifier name "a:b"/,
+		);
+	});
+
+	test('default index covers MODIFIERS', () => {
+		assert.strictEqual(default_modifier_index.names.size, MODIFIERS.length);
+	});
+});
+
+describe('resolve_modifiers_option', () => {
+	test('undefined returns the builtin MODIFIERS', () => {
+		assert.strictEqual(resolve_modifiers_option(undefined), MODIFIERS);
+		assert.strictEqual(resolve_modifier_index(undefined), default_modifier_index);
+	});
+
+	test('null returns an empty array', () => {
+		assert.deepEqual(resolve_modifiers_option(null), []);
+		assert.strictEqual(resolve_modifier_index(null).names.size, 0);
+	});
+
+	test('array replaces the defaults', () => {
+		assert.strictEqual(resolve_modifiers_option(CUSTOM_MODIFIERS), CUSTOM_MODIFIERS);
+	});
+
+	test('callback receives the defaults', () => {
+		const resolved = resolve_modifiers_option((defaults) => [
+			...defaults.filter((m) => m.name !== 'print'),
+			{name: 'selected', type: 'state', css: '[aria-selected="true"]'},
+		]);
+		assert.isUndefined(resolved.find((m) => m.name === 'print'));
+		assert.isDefined(resolved.find((m) => m.name === 'selected'));
+		assert.strictEqual(resolved.length, MODIFIERS.length);
+	});
+});
+
+describe('custom modifier index', () => {
+	const index = create_modifier_index(CUSTOM_MODIFIERS);
+
+	test('get_modifier uses the provided index', () => {
+		assert.strictEqual(get_modifier('md', index)?.css, '@media (width >= 60rem)');
+		assert.strictEqual(get_modifier('selected', index)?.type, 'state');
+		assert.isNull(get_modifier('focus', index));
+		assert.isNull(get_modifier('dark', index));
+	});
+
+	test('get_modifier keeps dynamic modifiers', () => {
+		const empty = create_modifier_index([]);
+		assert.strictEqual(get_modifier('min-width(800px)', empty)?.css, '@media (width >= 800px)');
+		assert.strictEqual(get_modifier('nth-child(2n)', empty)?.css, ':nth-child(2n)');
+	});
+
+	test('get_all_modifier_names lists the index names sorted', () => {
+		assert.deepEqual(get_all_modifier_names(index), [
+			'active',
+			'contrast',
+			'hover',
+			'lg',
+			'md',
+			'selected',
+			'sm',
+		]);
+	});
+
+	test('extract_and_validate_modifiers stops at removed modifiers', () => {
+		const result = extract_and_validate_modifiers(['md', 'dark', 'hover'], 'x', index);
+		assert.isTrue(result.ok);
+		if (!result.ok) return;
+		assert.strictEqual(result.modifiers.media?.css, '@media (width >= 60rem)');
+		assert.deepEqual(result.remaining, ['dark', 'hover']);
+	});
+
+	test('parse_css_literal suggests from the index', () => {
+		const result = parse_css_literal('selectd:color:red', null, index);
+		assert.isFalse(result.ok);
+		if (result.ok) return;
+		assert.strictEqual(result.error.message, 'Unknown modifier "selectd"');
+		assert.strictEqual(result.error.suggestion, 'Did you mean "selected"?');
+	});
+
+	test('generate_classes_css uses custom breakpoints for literals and token classes', () => {
+		const result = generate_classes_css({
+			class_names: ['md:display:flex', 'lg:box', 'contrast:selected:color:red', 'dark:box'],
+			class_definitions: css_class_composites,
+			interpreters: css_class_interpreters,
+			css_properties: null,
+			modifiers: index,
+		});
+
+		assert_css_contains(
+			result.css,
+			'@media (width >= 60rem)',
+			'@media (width >= 90rem)',
+			':root.contrast {',
+			'.contrast\\:selected\\:color\\:red[aria-selected="true"]',
+		);
+		assert_css_not_contains(result.css, '48rem', ':root.dark');
+	});
+
+	test('generate_classes_css sorts by custom state order', () => {
+		const result = generate_classes_css({
+			class_names: ['active:color:red', 'hover:color:red'],
+			class_definitions: {},
+			interpreters: css_class_interpreters,
+			css_properties: null,
+			modifiers: create_modifier_index([
+				{name: 'hover', type: 'state', css: ':hover', order: 2},
+				{name: 'active', type: 'state', css: ':active', order: 1},
+			]),
+		});
+
+		assert_css_order(result.css, '.active\\:color\\:red', '.hover\\:color\\:red');
+	});
+
+	test('generate_classes_css recognizes custom modifiers in composes', () => {
+		const result = generate_classes_css({
+			class_names: ['card'],
+			class_definitions: {
+				...css_class_composites,
+				card: {composes: ['box', 'tablet:display:flex']},
+			},
+			interpreters: css_class_interpreters,
+			css_properties: null,
+			modifiers: resolve_modifier_index((defaults) => [
+				...defaults,
+				{name: 'tablet', type: 'media', css: '@media (width >= 48rem)', order: 2},
+			]),
+		});
+
+		assert.lengthOf(result.diagnostics, 1);
+		assert.include(
+			result.diagnostics[0]!.message,
+			'Modified class "tablet:display:flex" cannot be used in composes array',
+		);
+	});
+});
+
+describe('with_direction_strategy', () => {
+	test('builtin ltr and rtl use :dir()', () => {
+		assert.strictEqual(get_modifier('rtl')?.css, ':dir(rtl)');
+		assert.strictEqual(get_modifier('ltr')?.css, ':dir(ltr)');
+	});
+
+	test('replaces ltr and rtl with [dir] scoping', () => {
+		const modifiers = with_direction_strategy(MODIFIERS, 'attribute');
+		assert.strictEqual(modifiers.length, MODIFIERS.length);
+		const index = create_modifier_index(modifiers);
+		assert.strictEqual(get_modifier('rtl', index)?.css, ':where([dir="rtl"], [dir="rtl"] *)');
+		assert.strictEqual(get_modifier('hover', index)?.css, ':hover');
+	});
+
+	test('generates direction-scoped CSS for literals and ruleset classes', () => {
+		const result = generate_classes_css({
+			class_names: ['rtl:text-align:right', 'hover:rtl:selectable'],
+			class_definitions: css_class_composites,
+			interpreters: css_class_interpreters,
+			css_properties: null,
+			modifiers: resolve_modifier_index((defaults) =>
+				with_direction_strategy(defaults, 'attribute'),
+			),
+		});
+
+		assert_css_contains(
+			result.css,
+			'.rtl\\:text-align\\:right:where([dir="rtl"], [dir="rtl"] *) { text-align: right; }',
+			'.hover\\:rtl\\:selectable:hover:where([dir="rtl"], [dir="rtl"] *) {',
+			'.hover\\:rtl\\:selectable.selected:hover:where([dir="rtl"], [dir="rtl"] *),',
+		);
+	});
+});
+
+describe('with_color_scheme_strategy', () => {
+	test('builtin dark and light use the root class', () => {
+		assert.strictEqual(get_modifier('dark')?.css, ':root.dark');
+		assert.isUndefined(get_modifier('dark')?.alternative);
+	});
+
+	test.each([
+		['attribute', ':root[data-theme="dark"]'],
+		['media', '@media (prefers-color-scheme: dark)'],
+	] as const)('%s strategy', (strategy, css) => {
+		const index = create_modifier_index(with_color_scheme_strategy(MODIFIERS, strategy));
+		assert.strictEqual(get_modifier('dark', index)?.css, css);
+	});
+
+	test('resolve_modifier_index applies the strategy to the defaults', () => {
+		const index = resolve_modifier_index(
+			(defaults) => defaults.filter((m) => m.type !== 'media'),
+			'hybrid',
+		);
+		assert.deepEqual(get_modifier('light', index), {
+			name: 'light',
+			type: 'ancestor',
+			css: ':root.light',
+			alternative: ['@media (prefers-color-scheme: light)', ':root:not(.dark)'],
+		});
+		assert.isNull(get_modifier('md', index));
+	});
+
+	test('alternatives are only allowed on ancestor modifiers', () => {
+		assert.throws(
+			() => create_modifier_index([{name: 'x', type: 'state', css: ':x', alternative: ['.y']}]),
+			/only ancestor modifiers have alternatives/,
+		);
+	});
+
+	test('hybrid strategy renders the class override and the media default', () => {
+		const result = generate_classes_css({
+			class_names: ['dark:color:white', 'md:dark:selectable'],
+			class_definitions: css_class_composites,
+			interpreters: css_class_interpreters,
+			css_properties: null,
+			modifiers: resolve_modifier_index(undefined, 'hybrid'),
+		});
+
+		assert_css_contains(
+			result.css,
+			':root.dark {\n\t.dark\\:color\\:white { color: white; }\n}',
+			'@media (prefers-color-scheme: dark) {\n\t:root:not(.light) {\n\t\t.dark\\:color\\:white { color: white; }\n\t}\n}',
+			'@media (width >= 48rem) {\n\t:root.dark {\n\t\t.md\\:dark\\:selectable {',
+			'@media (width >= 48rem) {\n\t@media (prefers-color-scheme: dark) {\n\t\t:root:not(.light) {\n\t\t\t.md\\:dark\\:selectable {',
+		);
+	});
+});
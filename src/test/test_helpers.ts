@@ -33,6 +33,7 @@ export const EMPTY_EXTRACTION: ExtractionData = {
 	elements: null,
 	explicit_elements: null,
 	explicit_variables: null,
+	class_patterns: null,
 };
 
 /**
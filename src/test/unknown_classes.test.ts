@@ -0,0 +1,114 @@
+import {test, assert, describe} from 'vitest';
+
+import {create_unknown_class_checker} from '$lib/unknown_classes.ts';
+import {generate_classes_css} from '$lib/css_class_generation.ts';
+import {css_class_interpreters} from '$lib/css_class_interpreters.ts';
+import {css_class_definitions} from '$lib/css_class_definitions.ts';
+import {assert_diagnostic} from './test_helpers.ts';
+
+describe('create_unknown_class_checker', () => {
+	const check = create_unknown_class_checker({
+		level: 'warn',
+		class_definitions: css_class_definitions,
+	});
+
+	test('reports token-like classes with the nearest definition', () => {
+		const result = check('p_mdd');
+		assert.deepEqual(result, {
+			level: 'warning',
+			message: 'Unknown class in the "p_" token family',
+			identifier: 'p_mdd',
+			suggestion: 'Did you mean "p_md"?',
+		});
+	});
+
+	test('prefers suggestions of the same length', () => {
+		assert.equal(check('shade_105')?.suggestion, 'Did you mean "shade_100"?');
+	});
+
+	test('keeps modifiers in the suggestion', () => {
+		assert.equal(check('md:hover:color_a_55')?.suggestion, 'Did you mean "md:hover:color_a_50"?');
+	});
+
+	test('ignores classes outside token families', () => {
+		assert.isNull(check('app_header'));
+		assert.isNull(check('unknown'));
+		assert.isNull(check('display:flex'));
+		assert.isNull(check('hover:app_header'));
+	});
+
+	test('reports errors at the error level', () => {
+		const check_errors = create_unknown_class_checker({
+			level: 'error',
+			class_definitions: css_class_definitions,
+		});
+		assert.equal(check_errors('p_mdd')?.level, 'error');
+	});
+
+	test('skips ignored classes, patterns, and regexps', () => {
+		const check_ignoring = create_unknown_class_checker({
+			level: 'warn',
+			class_definitions: css_class_definitions,
+			ignore: ['p_mdd', 'shade_1*', /^icon_/],
+		});
+		assert.isNull(check_ignoring('p_mdd'));
+		assert.isNull(check_ignoring('shade_105'));
+		assert.isNull(check_ignoring('icon_sizes_md'));
+		assert.isNotNull(check_ignoring('p_lgg'));
+	});
+
+	test('ignores interpreter definitions', () => {
+		const check_custom = create_unknown_class_checker({
+			level: 'warn',
+			class_definitions: {grid_cols: {pattern: /^grid_cols_\d+$/, interpret: () => null}},
+		});
+		assert.isNull(check_custom('grid_cols_x'));
+	});
+});
+
+describe('unknown classes in generate_classes_css', () => {
+	const loc = {file: 'test.svelte', line: 2, column: 5};
+
+	test('reports unresolved token-like classes with their locations', () => {
+		const result = generate_classes_css({
+			class_names: ['p_md', 'p_mdd', 'app_header'],
+			class_definitions: css_class_definitions,
+			interpreters: css_class_interpreters,
+			css_properties: null,
+			class_locations: new Map([['p_mdd', [loc]]]),
+			unknown_class_checker: create_unknown_class_checker({
+				level: 'warn',
+				class_definitions: css_class_definitions,
+			}),
+		});
+		assert.lengthOf(result.diagnostics, 1);
+		assert_diagnostic(result.diagnostics, 'warning', 'Unknown class in the "p_" token family');
+		assert.deepEqual(result.diagnostics[0]!.locations, [loc]);
+	});
+
+	test('leaves explicit classes to their own error', () => {
+		const result = generate_classes_css({
+			class_names: ['p_mdd'],
+			class_definitions: css_class_definitions,
+			interpreters: css_class_interpreters,
+			css_properties: null,
+			explicit_classes: new Set(['p_mdd']),
+			unknown_class_checker: create_unknown_class_checker({
+				level: 'warn',
+				class_definitions: css_class_definitions,
+			}),
+		});
+		assert.lengthOf(result.diagnostics, 1);
+		assert_diagnostic(result.diagnostics, 'error', 'No matching class definition found');
+	});
+
+	test('skips unknown classes without a checker', () => {
+		const result = generate_classes_css({
+			class_names: ['p_mdd'],
+			class_definitions: css_class_definitions,
+			interpreters: css_class_interpreters,
+			css_properties: null,
+		});
+		assert.lengthOf(result.diagnostics, 0);
+	});
+});
@@ -491,6 +491,19 @@ describe('generate_theme_css', () => {
 			assert.include(light_css, ':root:root');
 			assert.include(dark_css, ':root:root.dark');
 		});
+
+		test('scopes dark variables with the color scheme strategy', () => {
+			const variables: Array<StyleVariable> = [{name: 'color', light: 'blue', dark: 'lightblue'}];
+			const graph = build_variable_graph(variables, 'test-hash');
+
+			const {light_css, dark_css} = generate_theme_css(graph, new Set(['color']), 1, 'media');
+
+			assert.strictEqual(light_css, ':root {\n\t--color: blue;\n}');
+			assert.strictEqual(
+				dark_css,
+				'@media (prefers-color-scheme: dark) {\n\t:root {\n\t\t--color: lightblue;\n\t}\n}',
+			);
+		});
 	});
 
 	describe('light/dark only variables', () => {
@@ -0,0 +1,81 @@
+import {test, assert, describe} from 'vitest';
+
+import {
+	parse_class_list,
+	expand_variant_groups,
+	has_variant_group,
+	apply_variant_groups,
+} from '$lib/variant_groups.ts';
+
+describe('expand_variant_groups', () => {
+	test.each([
+		['md:(p_lg gap_md)', 'md:p_lg md:gap_md'],
+		['box md:(p_lg display:grid) row', 'box md:p_lg md:display:grid row'],
+		['md:dark:(p_lg gap_md)', 'md:dark:p_lg md:dark:gap_md'],
+		['md:(p_lg hover:(shadow_md opacity:80%))', 'md:p_lg md:hover:shadow_md md:hover:opacity:80%'],
+		['md:(  p_lg\n\tgap_md  )', 'md:p_lg md:gap_md'],
+		[
+			'md:(nth-child(2n):color:red width:calc(100%~-~1rem))',
+			'md:nth-child(2n):color:red md:width:calc(100%~-~1rem)',
+		],
+		['md:(grid-template-columns:1fr~1fr)', 'md:grid-template-columns:1fr~1fr'],
+		['md:()', ''],
+		['md:(p_lg gap_md', 'md:p_lg md:gap_md'], // unclosed
+		['md:(p_lg)) box', 'md:p_lg box'], // stray closing paren
+	])('%s → %s', (input, expected) => {
+		assert.strictEqual(expand_variant_groups(input), expected);
+	});
+
+	test.each(['box p_lg', 'nth-child(2n):color:red', 'min-width(800px):display:none', ''])(
+		'%s is unchanged without groups',
+		(input) => {
+			assert.isFalse(has_variant_group(input));
+			assert.strictEqual(expand_variant_groups(input), input);
+		},
+	);
+});
+
+describe('parse_class_list', () => {
+	test('includes the offsets of classes and their top-level tokens', () => {
+		const value = 'box md:(p_lg gap_md) row';
+		assert.deepEqual(parse_class_list(value), [
+			{name: 'box', offset: 0, token_start: 0, token_end: 3},
+			{name: 'md:p_lg', offset: 8, token_start: 4, token_end: 20},
+			{name: 'md:gap_md', offset: 13, token_start: 4, token_end: 20},
+			{name: 'row', offset: 21, token_start: 21, token_end: 24},
+		]);
+	});
+});
+
+describe('apply_variant_groups', () => {
+	const selectors: Array<string> = [];
+
+	const create_element = (class_value: string, descendants: Array<Element> = []): Element => {
+		const attributes = new Map([['class', class_value]]);
+		return {
+			getAttribute: (name: string) => attributes.get(name) ?? null,
+			setAttribute: (name: string, value: string) => attributes.set(name, value),
+			querySelectorAll: (selector: string) => {
+				selectors.push(selector);
+				return descendants;
+			},
+		} as unknown as Element;
+	};
+
+	test('expands the class attributes of the root and matching descendants', () => {
+		const child = create_element('box hover:(shadow_md)');
+		const root = create_element('md:(p_lg gap_md)', [child]);
+
+		apply_variant_groups(root);
+
+		assert.strictEqual(selectors.at(-1), '[class*=":("]');
+		assert.strictEqual(root.getAttribute('class'), 'md:p_lg md:gap_md');
+		assert.strictEqual(child.getAttribute('class'), 'box hover:shadow_md');
+	});
+
+	test('leaves classes without groups untouched', () => {
+		const root = create_element('box  p_lg');
+		apply_variant_groups(root);
+		assert.strictEqual(root.getAttribute('class'), 'box  p_lg');
+	});
+});
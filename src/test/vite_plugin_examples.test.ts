@@ -251,12 +251,13 @@ create_example_tests('vite-react', 'App.tsx');
 create_example_tests('vite-preact', 'App.tsx');
 create_example_tests('vite-solid', 'App.tsx');
 create_example_tests('vite-svelte', 'App.svelte');
+create_example_tests('vite-vue', 'App.vue');
 
 // Cross-example consistency test
 describe.skipIf(SKIP)('cross-example consistency', () => {
 	test('all examples produce the same classes', () => {
 		const examples = [...example_results.keys()];
-		assert.strictEqual(examples.length, 4, 'Should have results from all 4 examples');
+		assert.strictEqual(examples.length, 5, 'Should have results from all 5 examples');
 
 		const first_example = examples[0]!;
 		const first_classes = example_results.get(first_example)!;
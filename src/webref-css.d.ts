@@ -1,7 +1,8 @@
 declare module '@webref/css' {
 	interface CssProperty {
 		name: string;
-		value: string;
+		/** Value grammar, missing for some legacy properties */
+		syntax?: string;
 		initial: string;
 		appliesTo: string;
 		inherited: string;
@@ -11,8 +12,15 @@ declare module '@webref/css' {
 		animationType: string;
 	}
 
+	interface CssType {
+		name: string;
+		/** Grammar, missing for primitive types like `<length>` */
+		syntax?: string;
+	}
+
 	interface IndexedCssData {
 		properties: Record<string, CssProperty>;
+		types: Record<string, CssType>;
 	}
 
 	interface CssModule {